@@ -1,17 +1,90 @@
-import { app, BrowserWindow, ipcMain, dialog, Tray, Menu, nativeImage } from 'electron';
+import { app, BrowserWindow, ipcMain, dialog, Tray, Menu, nativeImage, Notification, shell } from 'electron';
 import * as path from 'path';
 import * as fs from 'fs';
 import simpleGit from 'simple-git';
-import { GitService } from './services/GitService';
-import { FileWatcher } from './services/FileWatcher';
-import { ConfigService } from './services/ConfigService';
+import { GitService, LogOptions, FileHistoryOptions, DetectedChanges } from './services/GitService';
+import { FileWatcher, BulkChange, FolderStatus } from './services/FileWatcher';
+import { ConfigService, AppConfig, RetentionPolicy, WatchedFolder, FolderProfileSettings, ConfigImportOptions } from './services/ConfigService';
+import { IgnoreEngine } from './services/IgnoreEngine';
+import { FilePolicyService } from './services/FilePolicyService';
+import { RetentionService } from './services/RetentionService';
+import { PurgeService } from './services/PurgeService';
+import { SearchService, SearchQuery } from './services/SearchService';
+import { AvailabilityService } from './services/AvailabilityService';
+import { MissingFolder, checkRelinkTarget, findRelinkCandidates, writeRepositoryIdentity } from './services/FolderIdentity';
+
+// Longest the app waits on quit for watchers to commit their pending changes
+const QUIT_FLUSH_TIMEOUT_MS = 10000;
+
+// Folder settings a running watcher has to be restarted for
+const WATCHER_SETTING_KEYS: Array<keyof FolderProfileSettings> = [
+  'commitStrategy', 'periodicInterval', 'idleMinutes', 'commitSchedule', 'ignorePatterns', 'filePolicy', 'usePolling', 'symlinkPolicy',
+  'debounceSeconds', 'stabilityThresholdMs', 'maxWaitSeconds', 'burstThreshold'
+];
 
 let mainWindow: BrowserWindow | null = null;
 let tray: Tray | null = null;
 let isQuitting = false;
+let watchersFlushed = false;
 const configService = new ConfigService();
 const gitServices = new Map<string, GitService>();
 const fileWatchers = new Map<string, FileWatcher>();
+// Kept until the renderer dismisses them, since it may not be listening yet at startup
+const startupChanges = new Map<string, DetectedChanges>();
+const notifiedBulkChanges = new Set<string>(); // Folders whose held bulk change was already announced
+const startFailures = new Map<string, { message: string; at: Date }>(); // Folders whose watcher failed to start
+// Folders on drives that come and go are paused while offline and resumed when they return
+const availabilityService = new AvailabilityService({
+  getFolders: () => configService.getFolders(),
+  onOffline: async (folderId, availability) => {
+    const watcher = fileWatchers.get(folderId);
+    if (watcher) {
+      fileWatchers.delete(folderId);
+      await watcher.pause();
+    }
+    if (mainWindow) {
+      mainWindow.webContents.send('folder-availability-changed', folderId, availability);
+    }
+    sendFolderStatus(folderId);
+    
+    if (availability.missing) {
+      const missing = await describeMissingFolder(folderId);
+      if (missing && mainWindow) {
+        mainWindow.webContents.send('folder-missing', missing);
+      }
+    }
+  },
+  onOnline: async (folderId, availability) => {
+    if (mainWindow) {
+      mainWindow.webContents.send('folder-availability-changed', folderId, availability);
+    }
+    // Starting catches up on whatever changed while the folder was away
+    if (configService.getFolder(folderId)?.isActive) {
+      await startWatchingFolder(folderId);
+    }
+  }
+});
+const retentionService = new RetentionService({
+  getFolders: () => configService.getFolders().filter(folder => availabilityService.isOnline(folder.id)),
+  getGitService: (folderId) => getOrCreateGitService(folderId),
+  onThinned: (report) => {
+    console.log(`Retention thinning for ${report.folderId}: removed ${report.removedCount} versions, reclaimed ${report.reclaimedBytes} bytes`);
+    if (mainWindow) {
+      mainWindow.webContents.send('retention-completed', report.folderId, report);
+    }
+  },
+  onError: (folderId, error) => {
+    console.error(`Retention thinning error for ${folderId}:`, error);
+  }
+});
+const purgeService = new PurgeService({
+  getFolders: () => configService.getFolders().filter(folder => availabilityService.isOnline(folder.id)),
+  getGitService: (folderId) => getOrCreateGitService(folderId)
+});
+const searchService = new SearchService({
+  getFolders: () => configService.getFolders(),
+  getGitService: (folderId) => getOrCreateGitService(folderId)
+});
 
 function createWindow() {
   const config = configService.getConfig();
@@ -180,6 +253,11 @@ app.whenReady().then(() => {
     }
   });
   
+  console.log('4. Scheduling retention thinning and availability checks...');
+  retentionService.start();
+  purgeService.start();
+  availabilityService.start();
+  
   console.log('✓ Initialization complete');
 
   app.on('activate', () => {
@@ -201,15 +279,32 @@ app.on('window-all-closed', () => {
 });
 
 // Clean up when app is actually quitting
-app.on('before-quit', () => {
-  console.log('App quitting, stopping all watchers...');
+app.on('before-quit', (event) => {
+  if (!watchersFlushed) {
+    // Quitting resumes once every watcher has committed its pending changes
+    event.preventDefault();
+    console.log('App quitting, stopping all watchers...');
+    
+    const stopAll = Promise.all(Array.from(fileWatchers.entries()).map(([folderId, watcher]) => {
+      console.log(`Stopping watcher for folder: ${folderId}`);
+      return watcher.stop();
+    }));
+    // Anything a stuck commit leaves behind is still in the journal
+    const timeout = new Promise(resolve => setTimeout(resolve, QUIT_FLUSH_TIMEOUT_MS));
+    
+    Promise.race([stopAll, timeout])
+      .catch(error => console.error('Failed to flush pending changes:', error))
+      .finally(() => {
+        fileWatchers.clear();
+        watchersFlushed = true;
+        app.quit();
+      });
+    return;
+  }
   
-  // Stop all watchers
-  fileWatchers.forEach((watcher, folderId) => {
-    console.log(`Stopping watcher for folder: ${folderId}`);
-    watcher.stop();
-  });
-  fileWatchers.clear();
+  retentionService.stop();
+  purgeService.stop();
+  availabilityService.stop();
   
   // Clean up tray
   if (tray) {
@@ -229,10 +324,14 @@ ipcMain.handle('remove-folder', async (_event, folderId: string) => {
   // Stop watching if active
   const watcher = fileWatchers.get(folderId);
   if (watcher) {
-    watcher.stop();
     fileWatchers.delete(folderId);
+    await watcher.stop();
   }
   gitServices.delete(folderId);
+  availabilityService.forget(folderId);
+  startFailures.delete(folderId);
+  notifiedBulkChanges.delete(folderId);
+  fs.rmSync(configService.getPendingJournalPath(folderId), { force: true });
   
   configService.removeFolder(folderId);
 });
@@ -241,11 +340,12 @@ ipcMain.handle('get-folders', async () => {
   return configService.getFolders();
 });
 
-ipcMain.handle('update-folder', async (_event, folderId: string, updates: any) => {
-  configService.updateFolder(folderId, updates);
+ipcMain.handle('update-folder', async (_event, folderId: string, updates: any, inherit?: Array<keyof FolderProfileSettings>) => {
+  configService.updateFolder(folderId, updates, inherit);
   
-  // If commit strategy changed and watcher is active, restart it
-  if (updates.commitStrategy && fileWatchers.has(folderId)) {
+  // If commit strategy or timing changed and watcher is active, restart it
+  const watcherSettingChanged = WATCHER_SETTING_KEYS.some(key => key in updates || (inherit || []).includes(key));
+  if (watcherSettingChanged && fileWatchers.has(folderId)) {
     await stopWatchingFolder(folderId);
     await startWatchingFolder(folderId);
   }
@@ -257,6 +357,16 @@ ipcMain.handle('get-commits', async (_event, folderId: string, limit?: number) =
   return await gitService.getCommits(limit);
 });
 
+ipcMain.handle('get-commit-log', async (_event, folderId: string, options?: LogOptions) => {
+  const gitService = getOrCreateGitService(folderId);
+  return await gitService.getCommitLog(options);
+});
+
+ipcMain.handle('get-file-history', async (_event, folderId: string, filePath: string, options?: FileHistoryOptions) => {
+  const gitService = getOrCreateGitService(folderId);
+  return await gitService.getFileHistory(filePath, options);
+});
+
 ipcMain.handle('get-file-content', async (_event, folderId: string, commitHash: string, filePath: string) => {
   const gitService = getOrCreateGitService(folderId);
   return await gitService.getFileContent(commitHash, filePath);
@@ -272,9 +382,75 @@ ipcMain.handle('restore-file', async (_event, folderId: string, filePath: string
   await gitService.restoreFile(filePath, commitHash);
 });
 
-ipcMain.handle('cleanup-commits', async (_event, folderId: string, filePath: string, commitsToDelete: string[]) => {
+ipcMain.handle('get-diff-hunks', async (_event, folderId: string, filePath: string, commitHash: string, baseHash: string) => {
   const gitService = getOrCreateGitService(folderId);
-  await gitService.cleanupOldCommits(filePath, commitsToDelete);
+  return await gitService.getDiffHunks(filePath, commitHash, baseHash);
+});
+
+ipcMain.handle('restore-hunks', async (_event, folderId: string, filePath: string, commitHash: string, hunkIndexes: number[], baseHash: string) => {
+  const gitService = getOrCreateGitService(folderId);
+  return await gitService.restoreHunks(filePath, commitHash, hunkIndexes, baseHash);
+});
+
+// Results are pushed as 'search-results' events, tagged with the caller's search id
+ipcMain.handle('start-search', async (event, searchId: string, query: SearchQuery) => {
+  const sender = event.sender;
+  searchService.start(
+    searchId,
+    query,
+    (results) => {
+      if (!sender.isDestroyed()) {
+        sender.send('search-results', searchId, results);
+      }
+    },
+    (summary) => {
+      if (!sender.isDestroyed()) {
+        sender.send('search-completed', searchId, summary);
+      }
+    }
+  );
+});
+
+ipcMain.handle('cancel-search', async (_event, searchId: string) => {
+  searchService.cancel(searchId);
+});
+
+ipcMain.handle('list-tree-at', async (_event, folderId: string, target: string, subpath?: string) => {
+  const gitService = getOrCreateGitService(folderId);
+  return await gitService.getTreeSnapshot(target, subpath);
+});
+
+ipcMain.handle('preview-folder-restore', async (_event, folderId: string, target: string, subpath?: string) => {
+  const gitService = getOrCreateGitService(folderId);
+  return await gitService.previewFolderRestore(target, subpath);
+});
+
+ipcMain.handle('restore-folder-to', async (_event, folderId: string, target: string, subpath?: string) => {
+  const gitService = getOrCreateGitService(folderId);
+  return await gitService.restoreFolderTo(target, subpath);
+});
+
+ipcMain.handle('preview-purge', async (_event, folderId: string, filePath: string, commitHashes: string[], includeBookmarked?: boolean) => {
+  return await purgeService.previewPurge(folderId, filePath, commitHashes, includeBookmarked);
+});
+
+ipcMain.handle('purge-versions', async (
+  _event,
+  folderId: string,
+  filePath: string,
+  commitHashes: string[],
+  backupDays?: number,
+  includeBookmarked?: boolean
+) => {
+  return await purgeService.purgeVersions(folderId, filePath, commitHashes, backupDays, includeBookmarked);
+});
+
+ipcMain.handle('list-purge-backups', async (_event, folderId: string) => {
+  return await purgeService.listBackups(folderId);
+});
+
+ipcMain.handle('restore-purge-backup', async (_event, folderId: string, backupId: string) => {
+  await purgeService.restoreBackup(folderId, backupId);
 });
 
 ipcMain.handle('get-file-storage-info', async (_event, folderId: string, filePath: string) => {
@@ -282,6 +458,47 @@ ipcMain.handle('get-file-storage-info', async (_event, folderId: string, filePat
   return await gitService.getFileStorageInfo(filePath);
 });
 
+ipcMain.handle('get-startup-changes', async () => {
+  return Object.fromEntries(startupChanges);
+});
+
+ipcMain.handle('dismiss-startup-changes', async (_event, folderId?: string) => {
+  if (folderId) {
+    startupChanges.delete(folderId);
+  } else {
+    startupChanges.clear();
+  }
+});
+
+ipcMain.handle('get-bookmarks', async (_event, folderId: string) => {
+  const gitService = getOrCreateGitService(folderId);
+  return await gitService.getBookmarks();
+});
+
+ipcMain.handle('add-bookmark', async (_event, folderId: string, commitHash: string, name: string, description?: string) => {
+  const gitService = getOrCreateGitService(folderId);
+  return await gitService.addBookmark(commitHash, name, description);
+});
+
+ipcMain.handle('remove-bookmark', async (_event, folderId: string, bookmarkId: string) => {
+  const gitService = getOrCreateGitService(folderId);
+  await gitService.removeBookmark(bookmarkId);
+});
+
+ipcMain.handle('thin-history', async (_event, folderId: string, policy?: RetentionPolicy, includeBookmarked?: boolean) => {
+  const folder = configService.getFolder(folderId);
+  if (!folder) {
+    throw new Error(`Folder not found: ${folderId}`);
+  }
+  
+  const retention = policy || folder.retention;
+  if (!retention) {
+    throw new Error('No retention policy configured for this folder');
+  }
+  
+  return await retentionService.thinFolder(folderId, retention, includeBookmarked);
+});
+
 // File watching
 ipcMain.handle('start-watching', async (_event, folderId: string) => {
   await startWatchingFolder(folderId);
@@ -291,6 +508,95 @@ ipcMain.handle('stop-watching', async (_event, folderId: string) => {
   await stopWatchingFolder(folderId);
 });
 
+ipcMain.handle('get-bulk-changes', async () => {
+  const changes: Record<string, BulkChange> = {};
+  for (const [folderId, watcher] of fileWatchers) {
+    const change = watcher.getBulkChange();
+    if (change) {
+      changes[folderId] = change;
+    }
+  }
+  return changes;
+});
+
+ipcMain.handle('resolve-bulk-change', async (_event, folderId: string, action: 'commit' | 'exclude' | 'discard') => {
+  const watcher = fileWatchers.get(folderId);
+  const folder = configService.getFolder(folderId);
+  if (!watcher || !folder) {
+    throw new Error(`Folder is not being watched: ${folderId}`);
+  }
+  notifiedBulkChanges.delete(folderId);
+  
+  if (action !== 'exclude') {
+    await watcher.resolveBulkChange(action);
+    return;
+  }
+  
+  // Ignore the affected paths from now on; restarting applies the new patterns
+  const patterns = watcher.getBulkChangeExcludePatterns().filter(pattern => !folder.ignorePatterns.includes(pattern));
+  await watcher.resolveBulkChange('discard');
+  configService.updateFolder(folderId, { ignorePatterns: [...folder.ignorePatterns, ...patterns] });
+  await stopWatchingFolder(folderId);
+  await startWatchingFolder(folderId);
+});
+
+ipcMain.handle('get-folder-status', async (_event, folderId: string) => {
+  return getFolderStatus(folderId);
+});
+
+ipcMain.handle('get-folder-statuses', async () => {
+  return Object.fromEntries(configService.getFolders().map(folder => [folder.id, getFolderStatus(folder.id)]));
+});
+
+ipcMain.handle('get-folder-availability', async () => {
+  return availabilityService.getStatuses();
+});
+
+// Moved or renamed folders
+ipcMain.handle('get-missing-folders', async () => {
+  const statuses = availabilityService.getStatuses();
+  const missingIds = Object.keys(statuses).filter(folderId => statuses[folderId].missing);
+  const missing = await Promise.all(missingIds.map(folderId => describeMissingFolder(folderId)));
+  return missing.filter((folder): folder is MissingFolder => folder !== null);
+});
+
+ipcMain.handle('relink-folder', async (_event, folderId: string, newPath: string) => {
+  const folder = configService.getFolder(folderId);
+  if (!folder) {
+    throw new Error(`Folder not found: ${folderId}`);
+  }
+  
+  const resolvedPath = path.resolve(newPath);
+  if (configService.getFolders().some(f => f.id !== folderId && f.path === resolvedPath)) {
+    throw new Error('That folder is already being watched');
+  }
+  const problem = checkRelinkTarget(folder, resolvedPath);
+  if (problem) {
+    throw new Error(problem);
+  }
+  
+  const watcher = fileWatchers.get(folderId);
+  if (watcher) {
+    fileWatchers.delete(folderId);
+    await watcher.stop();
+  }
+  gitServices.delete(folderId);
+  availabilityService.forget(folderId);
+  startFailures.delete(folderId);
+  
+  // A name taken from the old folder follows the rename
+  const name = folder.name === path.basename(folder.path) ? path.basename(resolvedPath) : folder.name;
+  configService.updateFolder(folderId, { path: resolvedPath, name });
+  console.log(`Relinked ${folder.path} to ${resolvedPath}`);
+  
+  if (folder.isActive) {
+    await startWatchingFolder(folderId);
+  } else {
+    sendFolderStatus(folderId);
+  }
+  return configService.getFolder(folderId);
+});
+
 // Config
 ipcMain.handle('get-config', async () => {
   return configService.getConfig();
@@ -300,6 +606,173 @@ ipcMain.handle('save-config', async (_event, config: any) => {
   configService.updateConfig(config);
 });
 
+// A settings file that could not be used at startup
+ipcMain.handle('get-config-recovery', async () => {
+  return configService.getRecovery();
+});
+
+ipcMain.handle('dismiss-config-recovery', async () => {
+  configService.dismissRecovery();
+});
+
+ipcMain.handle('show-quarantined-config', async () => {
+  const recovery = configService.getRecovery();
+  if (recovery && recovery.quarantinedPath) {
+    shell.showItemInFolder(recovery.quarantinedPath);
+  }
+});
+
+// Load the quarantined file again once it has been fixed, and watch its folders
+ipcMain.handle('reload-quarantined-config', async () => {
+  const config = configService.reloadQuarantinedConfig();
+  await rewatchAllFolders(config);
+  return config;
+});
+
+// Earlier settings files, kept each time the settings change
+ipcMain.handle('list-config-backups', async () => {
+  return configService.listBackups();
+});
+
+ipcMain.handle('restore-config-backup', async (_event, backupId: string) => {
+  const config = configService.restoreBackup(backupId);
+  await rewatchAllFolders(config);
+  return config;
+});
+
+// Folder profiles: built-in ones and those saved by the user
+ipcMain.handle('get-folder-profiles', async () => {
+  return configService.getProfiles();
+});
+
+ipcMain.handle('save-folder-profile', async (_event, name: string, settings: FolderProfileSettings, profileId?: string) => {
+  return configService.saveProfile(name, settings, profileId);
+});
+
+ipcMain.handle('delete-folder-profile', async (_event, profileId: string) => {
+  configService.deleteProfile(profileId);
+});
+
+ipcMain.handle('set-default-folder-profile', async (_event, profileId: string | null) => {
+  configService.updateConfig({ defaultProfileId: profileId || undefined });
+});
+
+// Settings every folder inherits unless it overrides them
+ipcMain.handle('get-folder-defaults', async () => {
+  return configService.getFolderDefaults();
+});
+
+ipcMain.handle('set-folder-defaults', async (_event, settings: FolderProfileSettings) => {
+  const before = new Map(configService.getFolders().map(folder => [folder.id, folder]));
+  configService.setFolderDefaults(settings);
+  
+  // Restart the watchers of folders that inherit a changed setting
+  for (const folder of configService.getFolders()) {
+    const previous = before.get(folder.id);
+    const changed = previous && WATCHER_SETTING_KEYS.some(key => JSON.stringify(previous[key]) !== JSON.stringify(folder[key]));
+    if (changed && fileWatchers.has(folder.id)) {
+      await stopWatchingFolder(folder.id);
+      await startWatchingFolder(folder.id);
+    }
+  }
+});
+
+// Export and import of the whole config, e.g. to set up another machine
+ipcMain.handle('export-config', async () => {
+  const result = await dialog.showSaveDialog({
+    defaultPath: 'local-versioning-config.json',
+    filters: [{ name: 'JSON', extensions: ['json'] }]
+  });
+  if (result.canceled || !result.filePath) {
+    return null;
+  }
+  
+  fs.writeFileSync(result.filePath, configService.exportConfig());
+  return result.filePath;
+});
+
+ipcMain.handle('choose-config-import', async () => {
+  const result = await dialog.showOpenDialog({
+    properties: ['openFile'],
+    filters: [{ name: 'JSON', extensions: ['json'] }]
+  });
+  if (result.canceled || result.filePaths.length === 0) {
+    return null;
+  }
+  
+  const filePath = result.filePaths[0];
+  return { filePath, ...configService.previewImport(fs.readFileSync(filePath, 'utf-8')) };
+});
+
+ipcMain.handle('import-config', async (_event, filePath: string, options: ConfigImportOptions) => {
+  const result = configService.importConfig(fs.readFileSync(filePath, 'utf-8'), options);
+  
+  // Imported global patterns apply to every folder
+  if (options.includeGlobalSettings) {
+    await rewatchAllFolders(configService.getConfig());
+  } else {
+    for (const folder of result.added) {
+      if (!folder.isActive) continue;
+      
+      try {
+        await startWatchingFolder(folder.id);
+      } catch (error) {
+        console.error(`Failed to start watching imported folder ${folder.path}:`, error);
+      }
+    }
+  }
+  return result;
+});
+
+ipcMain.handle('get-global-ignore-patterns', async () => {
+  return configService.getGlobalIgnorePatterns();
+});
+
+ipcMain.handle('set-global-ignore-patterns', async (_event, patterns: string[]) => {
+  configService.updateConfig({ globalIgnorePatterns: patterns });
+  
+  // Every active watcher applies the global patterns
+  for (const folderId of Array.from(fileWatchers.keys())) {
+    await stopWatchingFolder(folderId);
+    await startWatchingFolder(folderId);
+  }
+});
+
+// Files the size and type policy keeps out of a folder's history
+ipcMain.handle('get-file-policy-statuses', async (_event, folderId: string) => {
+  return createFilePolicyService(folderId).getStatuses();
+});
+
+ipcMain.handle('restore-stored-version', async (_event, folderId: string, filePath: string, hash: string) => {
+  await createFilePolicyService(folderId).restore(filePath, hash);
+});
+
+// Links and special files in a folder, and how its symlink policy handles them
+ipcMain.handle('list-special-entries', async (_event, folderId: string) => {
+  const folder = configService.getFolder(folderId);
+  if (!folder) {
+    throw new Error(`Folder not found: ${folderId}`);
+  }
+  
+  return createIgnoreEngine(folder).listSpecialEntries();
+});
+
+// Files a draft set of folder patterns would ignore, and why a sample path is or isn't ignored
+ipcMain.handle('test-ignore-patterns', async (_event, folderId: string, patterns: string[], samplePath?: string) => {
+  const folder = configService.getFolder(folderId);
+  if (!folder) {
+    throw new Error(`Folder not found: ${folderId}`);
+  }
+  
+  const engine = createIgnoreEngine(folder, patterns);
+  const { entries, truncated } = engine.listIgnored();
+  const sample = samplePath
+    ? { path: samplePath, match: engine.explain(samplePath) }
+    : undefined;
+  
+  return { entries, truncated, sample };
+});
+
 // Dialog
 ipcMain.handle('select-folder', async () => {
   const result = await dialog.showOpenDialog({
@@ -426,58 +899,16 @@ ipcMain.handle('read-file-from-disk', async (_event, folderPath: string, filePat
 // List all files in a folder recursively
 ipcMain.handle('list-folder-files', async (_event, folderPath: string) => {
   try {
-    const files: string[] = [];
-    
-    const ignorePatterns = [
-      'node_modules',
-      '.git',
-      '.DS_Store',
-      '.tmp',
-      '.log',
-      'dist',
-      'build',
-      '.next',
-      '.cache',
-      '.obsidian',
-      '.vscode'
-    ];
-    
-    function shouldIgnore(fileName: string): boolean {
-      return ignorePatterns.some(pattern => {
-        if (fileName === pattern) return true;
-        if (fileName.startsWith(pattern + '/')) return true;
-        return false;
-      });
-    }
-    
-    function walkDir(dir: string, baseDir: string = dir) {
-      try {
-        const entries = fs.readdirSync(dir, { withFileTypes: true });
-        
-        for (const entry of entries) {
-          const fullPath = path.join(dir, entry.name);
-          const relativePath = path.relative(baseDir, fullPath);
-          
-          if (shouldIgnore(entry.name) || shouldIgnore(relativePath)) {
-            continue;
-          }
-          
-          if (entry.isDirectory()) {
-            walkDir(fullPath, baseDir);
-          } else if (entry.isFile()) {
-            files.push(relativePath);
-          }
-        }
-      } catch (err) {
-        console.warn('Error reading directory:', dir, err);
-      }
+    if (!fs.existsSync(folderPath)) {
+      return [];
     }
     
-    if (fs.existsSync(folderPath)) {
-      walkDir(folderPath);
-    }
+    const folder = configService.getFolders().find(f => f.path === folderPath);
+    const engine = folder
+      ? createIgnoreEngine(folder)
+      : new IgnoreEngine(folderPath, { globalPatterns: configService.getGlobalIgnorePatterns() });
     
-    return files.sort();
+    return engine.listFiles().sort();
   } catch (error) {
     console.error('Error listing folder files:', error);
     return [];
@@ -787,6 +1218,23 @@ function getOrCreateGitService(folderId: string): GitService {
   return gitServices.get(folderId)!;
 }
 
+function createIgnoreEngine(folder: WatchedFolder, folderPatterns: string[] = folder.ignorePatterns): IgnoreEngine {
+  return new IgnoreEngine(folder.path, {
+    globalPatterns: configService.getGlobalIgnorePatterns(),
+    folderPatterns,
+    symlinkPolicy: folder.symlinkPolicy
+  });
+}
+
+function createFilePolicyService(folderId: string): FilePolicyService {
+  const folder = configService.getFolder(folderId);
+  if (!folder) {
+    throw new Error(`Folder not found: ${folderId}`);
+  }
+  
+  return new FilePolicyService(folder.path, configService.getLargeFileStoreDir(folderId), folder.filePolicy, folder.symlinkPolicy);
+}
+
 async function startWatchingFolder(folderId: string): Promise<void> {
   if (fileWatchers.has(folderId)) {
     return; // Already watching
@@ -797,38 +1245,193 @@ async function startWatchingFolder(folderId: string): Promise<void> {
     throw new Error(`Folder not found: ${folderId}`);
   }
   
+  // An offline folder starts by itself once it is reachable again
+  if (!(await availabilityService.check(folderId))) {
+    configService.updateFolder(folderId, { isActive: true });
+    return;
+  }
+  
   const gitService = getOrCreateGitService(folderId);
   
   const watcher = new FileWatcher(folder.path, gitService, {
     commitStrategy: folder.commitStrategy,
     periodicInterval: folder.periodicInterval,
+    idleMinutes: folder.idleMinutes,
+    commitSchedule: folder.commitSchedule,
     ignorePatterns: folder.ignorePatterns,
+    globalIgnorePatterns: configService.getGlobalIgnorePatterns(),
     watchSubfolders: folder.watchSubfolders,
+    usePolling: folder.usePolling,
+    symlinkPolicy: folder.symlinkPolicy,
+    debounceSeconds: folder.debounceSeconds,
+    stabilityThresholdMs: folder.stabilityThresholdMs,
+    maxWaitSeconds: folder.maxWaitSeconds,
+    burstThreshold: folder.burstThreshold,
     onCommit: (files) => {
       if (mainWindow) {
         mainWindow.webContents.send('file-changed', folderId, files);
       }
     },
+    onStartupChanges: (detected) => {
+      startupChanges.set(folderId, detected);
+      if (mainWindow) {
+        mainWindow.webContents.send('startup-changes-detected', folderId, detected);
+      }
+    },
     onError: (error) => {
       console.error(`File watcher error for ${folder.path}:`, error);
-    }
+      availabilityService.check(folderId);
+    },
+    onUnavailable: () => {
+      availabilityService.check(folderId);
+    },
+    onFilesSkipped: (files) => {
+      if (mainWindow) {
+        mainWindow.webContents.send('files-skipped', folderId, files);
+      }
+    },
+    onBulkChange: (change) => {
+      if (mainWindow) {
+        mainWindow.webContents.send('bulk-change-detected', folderId, change);
+      }
+      if (!notifiedBulkChanges.has(folderId)) {
+        notifiedBulkChanges.add(folderId);
+        notifyBulkChange(folder, change);
+      }
+    },
+    onStatusChange: (status) => {
+      if (mainWindow) {
+        mainWindow.webContents.send('folder-status-changed', folderId, status);
+      }
+    },
+    journalPath: configService.getPendingJournalPath(folderId),
+    filePolicy: folder.filePolicy,
+    largeFileStoreDir: configService.getLargeFileStoreDir(folderId)
   });
   
-  await watcher.start();
+  try {
+    await watcher.start();
+  } catch (error) {
+    startFailures.set(folderId, { message: error instanceof Error ? error.message : String(error), at: new Date() });
+    sendFolderStatus(folderId);
+    throw error;
+  }
+  startFailures.delete(folderId);
   fileWatchers.set(folderId, watcher);
   
+  // Lets the folder be found again if it is moved or renamed
+  try {
+    writeRepositoryIdentity(gitService.getGitDir(), folder);
+  } catch (error) {
+    console.error(`Failed to mark the repository of ${folder.path}:`, error);
+  }
+  
   // Update folder status
   configService.updateFolder(folderId, { isActive: true });
+  sendFolderStatus(folderId);
+}
+
+/**
+ * A folder that is no longer where it was, with places it may have gone
+ */
+async function describeMissingFolder(folderId: string): Promise<MissingFolder | null> {
+  const folder = configService.getFolder(folderId);
+  if (!folder) {
+    return null;
+  }
+  
+  const watchedPaths = configService.getFolders().map(f => f.path);
+  const candidates = await findRelinkCandidates(folder, watchedPaths);
+  return { folderId, name: folder.name, path: folder.path, candidates };
+}
+
+/**
+ * Tell the user a bulk change is waiting for a decision, in case the window is hidden
+ */
+function notifyBulkChange(folder: WatchedFolder, change: BulkChange): void {
+  if (!Notification.isSupported()) {
+    return;
+  }
+  
+  const notification = new Notification({
+    title: `Bulk change in ${folder.name}`,
+    body: `${change.fileCount} files changed at once. Choose whether to save them as one version, ignore them or discard them.`
+  });
+  notification.on('click', () => {
+    if (mainWindow) {
+      mainWindow.show();
+      mainWindow.focus();
+    } else {
+      createWindow();
+    }
+  });
+  notification.show();
+}
+
+/**
+ * Start over with the folders of settings that replaced the old ones
+ */
+async function rewatchAllFolders(config: AppConfig): Promise<void> {
+  for (const [folderId, watcher] of Array.from(fileWatchers.entries())) {
+    fileWatchers.delete(folderId);
+    await watcher.stop();
+  }
+  gitServices.clear();
+  startFailures.clear();
+  
+  // One at a time, so a failing folder does not stop the others
+  for (const folder of config.watchedFolders) {
+    if (!folder.isActive) continue;
+    
+    try {
+      await startWatchingFolder(folder.id);
+    } catch (error) {
+      console.error(`Failed to restart watching ${folder.path}:`, error);
+    }
+  }
 }
 
 async function stopWatchingFolder(folderId: string): Promise<void> {
   const watcher = fileWatchers.get(folderId);
   if (watcher) {
-    watcher.stop();
     fileWatchers.delete(folderId);
+    await watcher.stop();
   }
   
   // Update folder status
   configService.updateFolder(folderId, { isActive: false });
+  startFailures.delete(folderId);
+  sendFolderStatus(folderId);
+}
+
+/**
+ * The watcher's own status, or why a folder has none
+ */
+function getFolderStatus(folderId: string): FolderStatus {
+  const watcher = fileWatchers.get(folderId);
+  if (watcher) {
+    return watcher.getStatus();
+  }
+  
+  const availability = availabilityService.getStatuses()[folderId];
+  const offline = availability && !availability.online;
+  const lastError = offline
+    ? { message: availability.reason || 'The folder cannot be reached', at: availability.since }
+    : startFailures.get(folderId) || null;
+  return {
+    state: offline ? 'offline' : lastError ? 'error' : 'stopped',
+    watchedFiles: null,
+    eventsPerMinute: 0,
+    pendingChanges: 0,
+    heldChanges: 0,
+    lastCommitAt: null,
+    lastError
+  };
+}
+
+function sendFolderStatus(folderId: string): void {
+  if (mainWindow) {
+    mainWindow.webContents.send('folder-status-changed', folderId, getFolderStatus(folderId));
+  }
 }
 
@@ -1,35 +1,114 @@
 import { contextBridge, ipcRenderer } from 'electron';
-import type { WatchedFolder, Commit, DiffResult, AppConfig } from './types';
+import type {
+  WatchedFolder,
+  Commit,
+  DiffResult,
+  AppConfig,
+  LogOptions,
+  FileHistoryOptions,
+  RetentionPolicy,
+  ThinningReport,
+  SearchQuery,
+  SearchResult,
+  SearchSummary,
+  DetectedChanges,
+  PolicyFileStatus,
+  FolderAvailability,
+  MissingFolder,
+  BulkChange,
+  BulkChangeAction,
+  FolderStatus,
+  FolderProfileSettings,
+  ConfigImportOptions
+} from './types';
 
 contextBridge.exposeInMainWorld('electronAPI', {
   // Folder management
   addFolder: (path: string) => ipcRenderer.invoke('add-folder', path),
   removeFolder: (folderId: string) => ipcRenderer.invoke('remove-folder', folderId),
   getFolders: () => ipcRenderer.invoke('get-folders'),
-  updateFolder: (folderId: string, updates: Partial<WatchedFolder>) => 
-    ipcRenderer.invoke('update-folder', folderId, updates),
+  updateFolder: (folderId: string, updates: Partial<WatchedFolder>, inherit?: Array<keyof FolderProfileSettings>) => 
+    ipcRenderer.invoke('update-folder', folderId, updates, inherit),
   
   // Git operations
   getCommits: (folderId: string, limit?: number) => 
     ipcRenderer.invoke('get-commits', folderId, limit),
+  getCommitLog: (folderId: string, options?: LogOptions) =>
+    ipcRenderer.invoke('get-commit-log', folderId, options),
+  getFileHistory: (folderId: string, filePath: string, options?: FileHistoryOptions) =>
+    ipcRenderer.invoke('get-file-history', folderId, filePath, options),
   getFileContent: (folderId: string, commitHash: string, filePath: string) => 
     ipcRenderer.invoke('get-file-content', folderId, commitHash, filePath),
   getDiff: (folderId: string, filePath: string, oldCommit: string, newCommit?: string) => 
     ipcRenderer.invoke('get-diff', folderId, filePath, oldCommit, newCommit),
   restoreFile: (folderId: string, filePath: string, commitHash: string) => 
     ipcRenderer.invoke('restore-file', folderId, filePath, commitHash),
-  cleanupCommits: (folderId: string, filePath: string, commitsToDelete: string[]) =>
-    ipcRenderer.invoke('cleanup-commits', folderId, filePath, commitsToDelete),
+  getDiffHunks: (folderId: string, filePath: string, commitHash: string, baseHash: string) =>
+    ipcRenderer.invoke('get-diff-hunks', folderId, filePath, commitHash, baseHash),
+  restoreHunks: (folderId: string, filePath: string, commitHash: string, hunkIndexes: number[], baseHash: string) =>
+    ipcRenderer.invoke('restore-hunks', folderId, filePath, commitHash, hunkIndexes, baseHash),
+  startSearch: (searchId: string, query: SearchQuery) => ipcRenderer.invoke('start-search', searchId, query),
+  cancelSearch: (searchId: string) => ipcRenderer.invoke('cancel-search', searchId),
+  listTreeAt: (folderId: string, target: string, subpath?: string) =>
+    ipcRenderer.invoke('list-tree-at', folderId, target, subpath),
+  previewFolderRestore: (folderId: string, target: string, subpath?: string) =>
+    ipcRenderer.invoke('preview-folder-restore', folderId, target, subpath),
+  restoreFolderTo: (folderId: string, target: string, subpath?: string) =>
+    ipcRenderer.invoke('restore-folder-to', folderId, target, subpath),
+  previewPurge: (folderId: string, filePath: string, commitHashes: string[], includeBookmarked?: boolean) =>
+    ipcRenderer.invoke('preview-purge', folderId, filePath, commitHashes, includeBookmarked),
+  purgeVersions: (folderId: string, filePath: string, commitHashes: string[], backupDays?: number, includeBookmarked?: boolean) =>
+    ipcRenderer.invoke('purge-versions', folderId, filePath, commitHashes, backupDays, includeBookmarked),
+  listPurgeBackups: (folderId: string) => ipcRenderer.invoke('list-purge-backups', folderId),
+  restorePurgeBackup: (folderId: string, backupId: string) =>
+    ipcRenderer.invoke('restore-purge-backup', folderId, backupId),
   getFileStorageInfo: (folderId: string, filePath: string) =>
     ipcRenderer.invoke('get-file-storage-info', folderId, filePath),
+  thinHistory: (folderId: string, policy?: RetentionPolicy, includeBookmarked?: boolean) =>
+    ipcRenderer.invoke('thin-history', folderId, policy, includeBookmarked),
+  getStartupChanges: () => ipcRenderer.invoke('get-startup-changes'),
+  dismissStartupChanges: (folderId?: string) => ipcRenderer.invoke('dismiss-startup-changes', folderId),
+  getBookmarks: (folderId: string) => ipcRenderer.invoke('get-bookmarks', folderId),
+  addBookmark: (folderId: string, commitHash: string, name: string, description?: string) =>
+    ipcRenderer.invoke('add-bookmark', folderId, commitHash, name, description),
+  removeBookmark: (folderId: string, bookmarkId: string) =>
+    ipcRenderer.invoke('remove-bookmark', folderId, bookmarkId),
   
   // File watching
   startWatching: (folderId: string) => ipcRenderer.invoke('start-watching', folderId),
   stopWatching: (folderId: string) => ipcRenderer.invoke('stop-watching', folderId),
+  getFolderAvailability: () => ipcRenderer.invoke('get-folder-availability'),
+  getMissingFolders: () => ipcRenderer.invoke('get-missing-folders'),
+  relinkFolder: (folderId: string, newPath: string) => ipcRenderer.invoke('relink-folder', folderId, newPath),
+  getFolderStatus: (folderId: string) => ipcRenderer.invoke('get-folder-status', folderId),
+  getFolderStatuses: () => ipcRenderer.invoke('get-folder-statuses'),
+  getBulkChanges: () => ipcRenderer.invoke('get-bulk-changes'),
+  resolveBulkChange: (folderId: string, action: BulkChangeAction) =>
+    ipcRenderer.invoke('resolve-bulk-change', folderId, action),
   
   // Config
   getConfig: () => ipcRenderer.invoke('get-config'),
   saveConfig: (config: AppConfig) => ipcRenderer.invoke('save-config', config),
+  getConfigRecovery: () => ipcRenderer.invoke('get-config-recovery'),
+  dismissConfigRecovery: () => ipcRenderer.invoke('dismiss-config-recovery'),
+  showQuarantinedConfig: () => ipcRenderer.invoke('show-quarantined-config'),
+  reloadQuarantinedConfig: () => ipcRenderer.invoke('reload-quarantined-config'),
+  listConfigBackups: () => ipcRenderer.invoke('list-config-backups'),
+  restoreConfigBackup: (backupId: string) => ipcRenderer.invoke('restore-config-backup', backupId),
+  exportConfig: () => ipcRenderer.invoke('export-config'),
+  chooseConfigImport: () => ipcRenderer.invoke('choose-config-import'),
+  importConfig: (filePath: string, options: ConfigImportOptions) => ipcRenderer.invoke('import-config', filePath, options),
+  getFolderProfiles: () => ipcRenderer.invoke('get-folder-profiles'),
+  saveFolderProfile: (name: string, settings: FolderProfileSettings, profileId?: string) =>
+    ipcRenderer.invoke('save-folder-profile', name, settings, profileId),
+  deleteFolderProfile: (profileId: string) => ipcRenderer.invoke('delete-folder-profile', profileId),
+  setDefaultFolderProfile: (profileId: string | null) => ipcRenderer.invoke('set-default-folder-profile', profileId),
+  getFolderDefaults: () => ipcRenderer.invoke('get-folder-defaults'),
+  setFolderDefaults: (settings: FolderProfileSettings) => ipcRenderer.invoke('set-folder-defaults', settings),
+  getGlobalIgnorePatterns: () => ipcRenderer.invoke('get-global-ignore-patterns'),
+  setGlobalIgnorePatterns: (patterns: string[]) => ipcRenderer.invoke('set-global-ignore-patterns', patterns),
+  testIgnorePatterns: (folderId: string, patterns: string[], samplePath?: string) =>
+    ipcRenderer.invoke('test-ignore-patterns', folderId, patterns, samplePath),
   
   // Dialog
   selectFolder: () => ipcRenderer.invoke('select-folder'),
@@ -50,12 +129,63 @@ contextBridge.exposeInMainWorld('electronAPI', {
   detectExistingGitRepository: (folderPath: string, folderName: string) =>
     ipcRenderer.invoke('detect-existing-git-repository', folderPath, folderName),
   
+  // File policy
+  getFilePolicyStatuses: (folderId: string) => ipcRenderer.invoke('get-file-policy-statuses', folderId),
+  restoreStoredVersion: (folderId: string, filePath: string, hash: string) =>
+    ipcRenderer.invoke('restore-stored-version', folderId, filePath, hash),
+  listSpecialEntries: (folderId: string) => ipcRenderer.invoke('list-special-entries', folderId),
+  
   // Events
   onFileChanged: (callback: (folderId: string) => void) => {
     const subscription = (_event: any, folderId: string) => callback(folderId);
     ipcRenderer.on('file-changed', subscription);
     return () => ipcRenderer.removeListener('file-changed', subscription);
   },
+  onStartupChangesDetected: (callback: (folderId: string, detected: DetectedChanges) => void) => {
+    const subscription = (_event: any, folderId: string, detected: DetectedChanges) => callback(folderId, detected);
+    ipcRenderer.on('startup-changes-detected', subscription);
+    return () => ipcRenderer.removeListener('startup-changes-detected', subscription);
+  },
+  onFolderAvailabilityChanged: (callback: (folderId: string, availability: FolderAvailability) => void) => {
+    const subscription = (_event: any, folderId: string, availability: FolderAvailability) => callback(folderId, availability);
+    ipcRenderer.on('folder-availability-changed', subscription);
+    return () => ipcRenderer.removeListener('folder-availability-changed', subscription);
+  },
+  onFolderMissing: (callback: (folder: MissingFolder) => void) => {
+    const subscription = (_event: any, folder: MissingFolder) => callback(folder);
+    ipcRenderer.on('folder-missing', subscription);
+    return () => ipcRenderer.removeListener('folder-missing', subscription);
+  },
+  onFolderStatusChanged: (callback: (folderId: string, status: FolderStatus) => void) => {
+    const subscription = (_event: any, folderId: string, status: FolderStatus) => callback(folderId, status);
+    ipcRenderer.on('folder-status-changed', subscription);
+    return () => ipcRenderer.removeListener('folder-status-changed', subscription);
+  },
+  onBulkChangeDetected: (callback: (folderId: string, change: BulkChange) => void) => {
+    const subscription = (_event: any, folderId: string, change: BulkChange) => callback(folderId, change);
+    ipcRenderer.on('bulk-change-detected', subscription);
+    return () => ipcRenderer.removeListener('bulk-change-detected', subscription);
+  },
+  onFilesSkipped: (callback: (folderId: string, files: PolicyFileStatus[]) => void) => {
+    const subscription = (_event: any, folderId: string, files: PolicyFileStatus[]) => callback(folderId, files);
+    ipcRenderer.on('files-skipped', subscription);
+    return () => ipcRenderer.removeListener('files-skipped', subscription);
+  },
+  onRetentionCompleted: (callback: (folderId: string, report: ThinningReport) => void) => {
+    const subscription = (_event: any, folderId: string, report: ThinningReport) => callback(folderId, report);
+    ipcRenderer.on('retention-completed', subscription);
+    return () => ipcRenderer.removeListener('retention-completed', subscription);
+  },
+  onSearchResults: (callback: (searchId: string, results: SearchResult[]) => void) => {
+    const subscription = (_event: any, searchId: string, results: SearchResult[]) => callback(searchId, results);
+    ipcRenderer.on('search-results', subscription);
+    return () => ipcRenderer.removeListener('search-results', subscription);
+  },
+  onSearchCompleted: (callback: (searchId: string, summary: SearchSummary) => void) => {
+    const subscription = (_event: any, searchId: string, summary: SearchSummary) => callback(searchId, summary);
+    ipcRenderer.on('search-completed', subscription);
+    return () => ipcRenderer.removeListener('search-completed', subscription);
+  },
   onCommitCreated: (callback: (folderId: string, commit: Commit) => void) => {
     ipcRenderer.on('commit-created', (_event, folderId, commit) => callback(folderId, commit));
   }
@@ -0,0 +1,160 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { WatchedFolder } from './ConfigService';
+import { FOLDER_MISSING_REASON, isFolderMissing } from './FolderIdentity';
+
+// A stat on a dropped network share can hang for a long time
+const CHECK_TIMEOUT_MS = 5000;
+
+export interface FolderAvailability {
+  online: boolean;
+  since: Date;
+  reason?: string; // Why the folder is offline
+  missing?: boolean; // Moved, renamed or deleted, rather than on a drive that is gone
+}
+
+export interface AvailabilityServiceOptions {
+  getFolders: () => WatchedFolder[];
+  checkIntervalSeconds?: number;
+  onOffline?: (folderId: string, availability: FolderAvailability) => void | Promise<void>;
+  onOnline?: (folderId: string, availability: FolderAvailability) => void | Promise<void>;
+}
+
+/**
+ * Why a folder (or its repository on another drive) cannot be used right
+ * now, or null when it can
+ */
+async function findUnavailableReason(folder: WatchedFolder): Promise<string | null> {
+  const check = async (): Promise<string | null> => {
+    try {
+      const stats = await fs.promises.stat(folder.path);
+      if (!stats.isDirectory()) {
+        return 'The folder path is not a directory';
+      }
+      await fs.promises.access(folder.path, fs.constants.R_OK);
+    } catch (error) {
+      if (isFolderMissing(folder.path)) {
+        return FOLDER_MISSING_REASON;
+      }
+      return 'The folder cannot be reached';
+    }
+    
+    if (folder.customGitPath && !fs.existsSync(path.dirname(folder.customGitPath))) {
+      return 'The drive holding its history cannot be reached';
+    }
+    return null;
+  };
+  
+  let timer: NodeJS.Timeout | null = null;
+  const timeout = new Promise<string>(resolve => {
+    timer = setTimeout(() => resolve('The folder did not respond'), CHECK_TIMEOUT_MS);
+  });
+  
+  try {
+    return await Promise.race([check(), timeout]);
+  } finally {
+    if (timer) clearTimeout(timer);
+  }
+}
+
+/**
+ * Watches whether active folders can be reached, so folders on removable or
+ * network drives are paused while they are gone and resumed when they return
+ */
+export class AvailabilityService {
+  private options: AvailabilityServiceOptions;
+  private timer: NodeJS.Timeout | null = null;
+  private statuses: Map<string, FolderAvailability> = new Map();
+  private checking: Map<string, Promise<boolean>> = new Map();
+  
+  constructor(options: AvailabilityServiceOptions) {
+    this.options = options;
+  }
+  
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    
+    const intervalMs = (this.options.checkIntervalSeconds || 5) * 1000;
+    this.timer = setInterval(() => {
+      this.checkAll();
+    }, intervalMs);
+  }
+  
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+  
+  /**
+   * Folders never checked count as online
+   */
+  isOnline(folderId: string): boolean {
+    return this.statuses.get(folderId)?.online !== false;
+  }
+  
+  getStatuses(): Record<string, FolderAvailability> {
+    return Object.fromEntries(this.statuses);
+  }
+  
+  forget(folderId: string): void {
+    this.statuses.delete(folderId);
+  }
+  
+  async checkAll(): Promise<void> {
+    const folders = this.options.getFolders().filter(folder => folder.isActive);
+    await Promise.all(folders.map(folder => this.check(folder.id)));
+  }
+  
+  /**
+   * Check a folder now and report a change. A folder seen for the first time
+   * is only reported when it is offline. Returns whether the folder is online.
+   */
+  check(folderId: string): Promise<boolean> {
+    const running = this.checking.get(folderId);
+    if (running) {
+      return running;
+    }
+    
+    const checking = this.runCheck(folderId).finally(() => this.checking.delete(folderId));
+    this.checking.set(folderId, checking);
+    return checking;
+  }
+  
+  private async runCheck(folderId: string): Promise<boolean> {
+    const folder = this.options.getFolders().find(f => f.id === folderId);
+    if (!folder) {
+      this.statuses.delete(folderId);
+      return false;
+    }
+    
+    const reason = await findUnavailableReason(folder);
+    const previous = this.statuses.get(folderId);
+    const online = reason === null;
+    if (previous && previous.online === online) {
+      return online;
+    }
+    
+    const availability: FolderAvailability = {
+      online,
+      since: new Date(),
+      reason: reason || undefined,
+      missing: reason === FOLDER_MISSING_REASON || undefined
+    };
+    this.statuses.set(folderId, availability);
+    
+    // Not awaited: resuming starts a watcher, which checks the folder again
+    const handler = online ? (previous ? this.options.onOnline : undefined) : this.options.onOffline;
+    if (handler) {
+      console.log(online ? `Folder is back online: ${folder.path}` : `Folder went offline: ${folder.path} (${reason})`);
+      Promise.resolve(handler(folderId, availability)).catch(error => {
+        console.error(`Failed to handle availability change for ${folder.path}:`, error);
+      });
+    }
+    
+    return online;
+  }
+}
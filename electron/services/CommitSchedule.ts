@@ -0,0 +1,77 @@
+import type { CommitSchedule } from './ConfigService';
+
+const MINUTES_PER_DAY = 24 * 60;
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Minutes since midnight for 'HH:MM', or null when it is not a valid time
+ */
+export function parseTimeOfDay(value: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+  
+  const hours = parseInt(match[1], 10);
+  const minutes = parseInt(match[2], 10);
+  if (hours > 23 || minutes > 59) {
+    return null;
+  }
+  return hours * 60 + minutes;
+}
+
+/**
+ * Whether a minute of the day falls in a range. A range that ends before it
+ * starts runs past midnight; equal or invalid ends cover the whole day.
+ */
+function isInRange(minute: number, startTime: string, endTime: string): boolean {
+  const start = parseTimeOfDay(startTime);
+  const end = parseTimeOfDay(endTime);
+  if (start === null || end === null || start === end) {
+    return true;
+  }
+  return start < end ? minute >= start && minute < end : minute >= start || minute < end;
+}
+
+export function isCommitAllowed(schedule: CommitSchedule | undefined, date: Date): boolean {
+  if (!schedule || !schedule.enabled) {
+    return true;
+  }
+  
+  const minute = date.getHours() * 60 + date.getMinutes();
+  if (!schedule.days.includes(date.getDay()) || !isInRange(minute, schedule.startTime, schedule.endTime)) {
+    return false;
+  }
+  
+  // Quiet hours only count when they are a real range
+  const quiet = schedule.quietHours;
+  if (quiet && quiet.enabled) {
+    const start = parseTimeOfDay(quiet.startTime);
+    const end = parseTimeOfDay(quiet.endTime);
+    if (start !== null && end !== null && start !== end && isInRange(minute, quiet.startTime, quiet.endTime)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * The first moment from the given date on when the schedule allows a commit,
+ * or null when it never does (e.g. no days are selected)
+ */
+export function getNextCommitTime(schedule: CommitSchedule | undefined, from: Date): Date | null {
+  if (isCommitAllowed(schedule, from)) {
+    return from;
+  }
+  
+  // The schedule has minute resolution and repeats every week
+  const next = new Date(from);
+  next.setSeconds(0, 0);
+  for (let i = 0; i < 8 * MINUTES_PER_DAY; i++) {
+    next.setTime(next.getTime() + MINUTE_MS);
+    if (isCommitAllowed(schedule, next)) {
+      return next;
+    }
+  }
+  return null;
+}
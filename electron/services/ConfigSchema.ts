@@ -0,0 +1,282 @@
+import * as path from 'path';
+import { parseTimeOfDay } from './CommitSchedule';
+import { BASE_FOLDER_SETTINGS } from './FolderProfiles';
+import type { AppConfig, FolderProfile, SavedFolder } from './ConfigService';
+
+// Version of the config file this build writes. Files without one predate versioning.
+export const CONFIG_VERSION = 2;
+
+// Marks an exported config, which wraps the config file's contents
+export const CONFIG_EXPORT_FORMAT = 'local-versioning-config';
+
+export interface ParsedConfig {
+  config: AppConfig;
+  problems: string[]; // Invalid settings that were reset or dropped
+  fromVersion: number;
+}
+
+type Migration = (config: Record<string, any>) => Record<string, any>;
+
+interface FieldCheck {
+  valid: (field: unknown) => boolean;
+  fallback?: unknown;
+  required?: boolean;
+}
+
+// MIGRATIONS[n] upgrades a version n config to version n + 1
+const MIGRATIONS: Migration[] = [
+  // Folders added before subfolders were optional always watched them
+  config => ({
+    ...config,
+    watchedFolders: Array.isArray(config.watchedFolders)
+      ? config.watchedFolders.map((folder: unknown) =>
+        isObject(folder) && folder.watchSubfolders === undefined ? { ...folder, watchSubfolders: true } : folder)
+      : config.watchedFolders
+  }),
+  // Folders from before global defaults keep every value as their own, since a value
+  // that was chosen can't be told apart from one that was the default at the time
+  config => ({
+    ...config,
+    watchedFolders: Array.isArray(config.watchedFolders)
+      ? config.watchedFolders.map((folder: unknown) => isObject(folder) ? keepBaseSettings(folder) : folder)
+      : config.watchedFolders
+  })
+];
+
+const COMMIT_STRATEGIES = ['on-save', 'periodic', 'on-idle'];
+const SYMLINK_POLICIES = ['link-only', 'follow', 'ignore'];
+const FILE_POLICY_ACTIONS = ['skip', 'latest-only', 'large-file-store'];
+
+export function createDefaultConfig(): AppConfig {
+  return {
+    version: CONFIG_VERSION,
+    watchedFolders: [],
+    theme: 'light'
+  };
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function keepBaseSettings(folder: Record<string, any>): Record<string, any> {
+  const kept = { ...folder };
+  for (const [key, value] of Object.entries(BASE_FOLDER_SETTINGS)) {
+    if (kept[key] === undefined) {
+      kept[key] = JSON.parse(JSON.stringify(value));
+    }
+  }
+  return kept;
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+function isCount(value: unknown): boolean {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+function isStringArray(value: unknown): boolean {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+function isTime(value: unknown): boolean {
+  return typeof value === 'string' && parseTimeOfDay(value) !== null;
+}
+
+function isCommitSchedule(value: unknown): boolean {
+  if (!isObject(value)) return false;
+  const validDays = Array.isArray(value.days) && value.days.every((day: unknown) => Number.isInteger(day) && (day as number) >= 0 && (day as number) <= 6);
+  const quiet = value.quietHours;
+  const validQuiet = quiet === undefined ||
+    (isObject(quiet) && typeof quiet.enabled === 'boolean' && isTime(quiet.startTime) && isTime(quiet.endTime));
+  return typeof value.enabled === 'boolean' && validDays && isTime(value.startTime) && isTime(value.endTime) && validQuiet;
+}
+
+function isRetentionPolicy(value: unknown): boolean {
+  return isObject(value) && typeof value.enabled === 'boolean' && Array.isArray(value.buckets) &&
+    value.buckets.every((bucket: unknown) => isObject(bucket) && isCount(bucket.intervalHours) &&
+      (bucket.maxAgeHours === undefined || isCount(bucket.maxAgeHours)));
+}
+
+function isFilePolicy(value: unknown): boolean {
+  return isObject(value) && (value.maxFileSizeMB === undefined || isCount(value.maxFileSizeMB)) &&
+    Array.isArray(value.rules) &&
+    value.rules.every((rule: unknown) => isObject(rule) && isNonEmptyString(rule.pattern) && FILE_POLICY_ACTIONS.includes(rule.action));
+}
+
+function isWindowBounds(value: unknown): boolean {
+  return isObject(value) && ['x', 'y', 'width', 'height'].every(key => typeof value[key] === 'number' && Number.isFinite(value[key]));
+}
+
+/**
+ * Check each field of an object, resetting invalid ones to a fallback (or
+ * removing them when there is none). Fields this build doesn't know are kept.
+ */
+function checkFields(
+  value: Record<string, any>,
+  label: string,
+  checks: Record<string, FieldCheck>,
+  problems: string[]
+): Record<string, any> {
+  const checked = { ...value };
+  for (const [field, check] of Object.entries(checks)) {
+    const present = checked[field] !== undefined;
+    if (present ? check.valid(checked[field]) : !check.required) continue;
+    
+    problems.push(`${label}: ${present ? `invalid ${field}` : `missing ${field}`}`);
+    if (check.fallback === undefined) {
+      delete checked[field];
+    } else {
+      checked[field] = check.fallback;
+    }
+  }
+  return checked;
+}
+
+// Settings a folder shares with folder profiles
+const SETTING_CHECKS: Record<string, FieldCheck> = {
+  commitStrategy: { valid: field => COMMIT_STRATEGIES.includes(field as string) },
+  periodicInterval: { valid: field => isCount(field) && (field as number) > 0 },
+  idleMinutes: { valid: field => isCount(field) && (field as number) > 0 },
+  commitSchedule: { valid: isCommitSchedule },
+  ignorePatterns: { valid: isStringArray },
+  watchSubfolders: { valid: field => typeof field === 'boolean' },
+  usePolling: { valid: field => typeof field === 'boolean' },
+  symlinkPolicy: { valid: field => SYMLINK_POLICIES.includes(field as string) },
+  debounceSeconds: { valid: isCount },
+  stabilityThresholdMs: { valid: isCount },
+  maxWaitSeconds: { valid: isCount },
+  burstThreshold: { valid: isCount },
+  retention: { valid: isRetentionPolicy },
+  filePolicy: { valid: isFilePolicy }
+};
+
+function validateFolder(value: unknown, index: number, problems: string[]): SavedFolder | null {
+  if (!isObject(value) || !isNonEmptyString(value.id) || !isNonEmptyString(value.path) || !path.isAbsolute(value.path)) {
+    problems.push(`Watched folder ${index + 1}: no valid id or path, so it was dropped`);
+    return null;
+  }
+  
+  return checkFields(value, `Folder ${value.path}`, {
+    ...SETTING_CHECKS,
+    name: { valid: isNonEmptyString, fallback: path.basename(value.path), required: true },
+    isActive: { valid: field => typeof field === 'boolean', fallback: false, required: true },
+    customGitPath: { valid: field => typeof field === 'string' }
+  }, problems) as SavedFolder;
+}
+
+function validateProfile(value: unknown, index: number, problems: string[]): FolderProfile | null {
+  if (!isObject(value) || !isNonEmptyString(value.id) || !isNonEmptyString(value.name) || !isObject(value.settings)) {
+    problems.push(`Folder profile ${index + 1}: no valid id, name or settings, so it was dropped`);
+    return null;
+  }
+  
+  const label = `Profile ${value.name}`;
+  return {
+    id: value.id,
+    name: value.name,
+    settings: checkFields(value.settings, label, SETTING_CHECKS, problems)
+  };
+}
+
+/**
+ * Keep the first of each id; later copies are dropped
+ */
+function dropDuplicateIds<T extends { id: string }>(items: Array<T | null>, describe: (item: T) => string, problems: string[]): T[] {
+  const seenIds = new Set<string>();
+  return items.filter((item): item is T => {
+    if (!item) return false;
+    if (seenIds.has(item.id)) {
+      problems.push(`${describe(item)}: duplicate id, so it was dropped`);
+      return false;
+    }
+    seenIds.add(item.id);
+    return true;
+  });
+}
+
+/**
+ * Validate every field of a config, repairing what can be repaired. Folders
+ * without an id or path, or with a duplicate id, cannot be and are dropped.
+ */
+export function validateConfig(value: Record<string, any>): { config: AppConfig; problems: string[] } {
+  const problems: string[] = [];
+  const config = checkFields(value, 'Settings', {
+    watchedFolders: { valid: field => Array.isArray(field), fallback: [], required: true },
+    windowBounds: { valid: isWindowBounds },
+    theme: { valid: field => field === 'light' || field === 'dark', fallback: 'light', required: true },
+    defaultGitLocation: { valid: field => field === 'watched-folder' || field === 'custom' },
+    defaultCustomGitPath: { valid: field => typeof field === 'string' },
+    globalIgnorePatterns: { valid: isStringArray },
+    folderProfiles: { valid: field => Array.isArray(field) },
+    defaultProfileId: { valid: isNonEmptyString },
+    folderDefaults: { valid: isObject }
+  }, problems);
+  
+  config.watchedFolders = dropDuplicateIds(
+    (config.watchedFolders as unknown[]).map((folder, index) => validateFolder(folder, index, problems)),
+    folder => `Folder ${folder.path}`,
+    problems
+  );
+  if (config.folderProfiles) {
+    config.folderProfiles = dropDuplicateIds(
+      (config.folderProfiles as unknown[]).map((profile, index) => validateProfile(profile, index, problems)),
+      profile => `Profile ${profile.name}`,
+      problems
+    );
+  }
+  
+  if (config.folderDefaults) {
+    config.folderDefaults = checkFields(config.folderDefaults, 'Folder defaults', SETTING_CHECKS, problems);
+  }
+  
+  const { version: _version, ...fields } = config;
+  return { config: { version: CONFIG_VERSION, ...fields } as AppConfig, problems };
+}
+
+/**
+ * Read a config file's contents, migrating older versions. Throws when the
+ * contents are not a config at all; invalid settings are listed in problems.
+ */
+export function parseConfig(data: string): ParsedConfig {
+  return migrateConfig(parseJson(data));
+}
+
+/**
+ * Read an exported config, or a config file copied from another machine
+ */
+export function parseConfigExport(data: string): ParsedConfig {
+  const raw = parseJson(data);
+  return migrateConfig(isObject(raw) && raw.format === CONFIG_EXPORT_FORMAT ? raw.config : raw);
+}
+
+function parseJson(data: string): unknown {
+  try {
+    return JSON.parse(data);
+  } catch (error) {
+    throw new Error(`The settings file is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+function migrateConfig(raw: unknown): ParsedConfig {
+  if (!isObject(raw)) {
+    throw new Error('The settings file does not contain a settings object');
+  }
+  
+  const fromVersion = raw.version === undefined ? 0 : raw.version;
+  if (!Number.isInteger(fromVersion) || fromVersion < 0) {
+    throw new Error(`The settings file has an invalid version: ${JSON.stringify(raw.version)}`);
+  }
+  if (fromVersion > CONFIG_VERSION) {
+    throw new Error(`The settings file was written by a newer version of the app (version ${fromVersion})`);
+  }
+  
+  let migrated = raw;
+  for (let version = fromVersion; version < CONFIG_VERSION; version++) {
+    migrated = MIGRATIONS[version](migrated);
+  }
+  
+  return { ...validateConfig(migrated), fromVersion };
+}
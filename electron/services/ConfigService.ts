@@ -2,21 +2,96 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 import { randomUUID } from 'crypto';
+import { DEFAULT_IGNORE_PATTERNS } from './IgnoreEngine';
+import { CONFIG_VERSION, CONFIG_EXPORT_FORMAT, createDefaultConfig, parseConfig, parseConfigExport, validateConfig } from './ConfigSchema';
+import { BASE_FOLDER_SETTINGS, BUILT_IN_PROFILES, getProfileSettings, resolveFolder } from './FolderProfiles';
+
+// Earlier config files kept for restoring, oldest dropped first
+const MAX_CONFIG_BACKUPS = 10;
+
+export interface RetentionBucket {
+  maxAgeHours?: number; // Applies to versions younger than this; undefined = all older versions
+  intervalHours: number; // Keep one version per interval; 0 = keep every version
+}
+
+export interface RetentionPolicy {
+  enabled: boolean;
+  buckets: RetentionBucket[];
+}
+
+export type FilePolicyAction = 'skip' | 'latest-only' | 'large-file-store';
+
+export interface FilePolicyRule {
+  pattern: string; // .gitignore syntax
+  action: FilePolicyAction;
+}
+
+export interface FilePolicy {
+  maxFileSizeMB?: number; // Files over this are skipped unless a rule matches; 0 = no limit
+  rules: FilePolicyRule[];
+}
+
+export type CommitStrategy = 'on-save' | 'periodic' | 'on-idle';
+
+export interface QuietHours {
+  enabled: boolean;
+  startTime: string; // 'HH:MM'
+  endTime: string; // Before startTime runs past midnight
+}
+
+export interface CommitSchedule {
+  enabled: boolean;
+  days: number[]; // Days commits may happen on, 0 = Sunday
+  startTime: string; // 'HH:MM'; the same start and end time allows the whole day
+  endTime: string; // Before startTime runs past midnight
+  quietHours?: QuietHours; // No commits during these hours, even inside the window
+}
+
+// How links inside a watched folder are versioned
+export type SymlinkPolicy = 'link-only' | 'follow' | 'ignore';
 
 export interface WatchedFolder {
   id: string;
   path: string;
   name: string;
-  commitStrategy: 'on-save' | 'periodic';
+  commitStrategy: CommitStrategy;
   periodicInterval?: number;
+  idleMinutes?: number; // Quiet time before an on-idle commit
+  commitSchedule?: CommitSchedule; // When periodic and on-idle commits may happen (any time when undefined)
   ignorePatterns: string[];
   isActive: boolean;
   watchSubfolders: boolean;
+  usePolling?: boolean; // Poll for changes where native file events are unreliable, e.g. network drives
+  symlinkPolicy?: SymlinkPolicy; // 'link-only' when undefined
+  debounceSeconds?: number; // Quiet time after the last change before an on-save commit
+  stabilityThresholdMs?: number; // How long a file must stay unchanged before it counts as written
+  maxWaitSeconds?: number; // Commit at least this often during continuous changes; 0 = no limit
+  burstThreshold?: number; // Changes to at least this many files wait for a decision; 0 = never
   customGitPath?: string;
+  retention?: RetentionPolicy; // Thinning of old versions (disabled when undefined)
+  filePolicy?: FilePolicy; // Size limit and per-type handling (DEFAULT_MAX_FILE_SIZE_MB when undefined)
+  overriddenSettings?: Array<keyof FolderProfileSettings>; // Set on the folder itself; the rest are inherited from folderDefaults
+}
+
+// Settings a folder profile bundles, see PROFILE_SETTING_KEYS
+export type FolderProfileSettings = Partial<Pick<WatchedFolder,
+  'commitStrategy' | 'periodicInterval' | 'idleMinutes' | 'commitSchedule' | 'ignorePatterns' | 'watchSubfolders' |
+  'usePolling' | 'symlinkPolicy' | 'debounceSeconds' | 'stabilityThresholdMs' | 'maxWaitSeconds' | 'burstThreshold' |
+  'retention' | 'filePolicy'>>;
+
+export interface FolderProfile {
+  id: string;
+  name: string;
+  settings: FolderProfileSettings;
+  builtIn?: boolean; // Shipped with the app; cannot be changed or removed
 }
 
+// A folder as saved: settings it does not override are left out and inherited
+export type SavedFolder = Omit<WatchedFolder, keyof FolderProfileSettings | 'overriddenSettings'> & FolderProfileSettings;
+
 export interface AppConfig {
-  watchedFolders: WatchedFolder[];
+  version?: number; // Schema version, see CONFIG_VERSION
+  watchedFolders: SavedFolder[];
   windowBounds?: {
     x: number;
     y: number;
@@ -26,14 +101,76 @@ export interface AppConfig {
   theme: 'light' | 'dark';
   defaultGitLocation?: 'watched-folder' | 'custom';
   defaultCustomGitPath?: string;
+  globalIgnorePatterns?: string[]; // Applied to every folder before its own patterns
+  folderProfiles?: FolderProfile[]; // Saved by the user, besides BUILT_IN_PROFILES
+  defaultProfileId?: string; // Applied to folders as they are added
+  folderDefaults?: FolderProfileSettings; // Inherited by every folder that doesn't override them
+}
+
+// Replaces a leading path, e.g. the home folder of another machine
+export interface PathRemap {
+  from: string;
+  to: string;
+}
+
+export interface ConfigImportOptions {
+  folderIds: string[]; // Folders of the imported config to add
+  pathRemaps: PathRemap[]; // First match wins
+  includeGlobalSettings: boolean; // Global ignore patterns, git location defaults and profiles
+}
+
+export interface ConfigImportPreview {
+  folders: Array<{ id: string; name: string; path: string; customGitPath?: string; alreadyWatched: boolean }>;
+  profiles: string[]; // Names of the profiles it brings
+}
+
+export interface ConfigImportResult {
+  added: WatchedFolder[];
+  skipped: Array<{ path: string; reason: string }>;
+  paused: string[]; // Added but not watched because the path does not exist here
+}
+
+// A config file that could not be used as it was; the original is kept in quarantine
+export interface ConfigRecovery {
+  kind: 'unreadable' | 'repaired';
+  message: string;
+  problems: string[]; // Settings that were reset or dropped while repairing
+  quarantinedPath: string | null; // null when the file could not be moved aside
+  at: Date;
+}
+
+// An earlier config file, summarized by the folders it watches
+export interface ConfigBackup {
+  id: string; // File name in the backups directory
+  createdAt: Date;
+  folders: Array<{ name: string; path: string }>;
+  error?: string; // Why the backup cannot be restored
+}
+
+/**
+ * Replace the first matching leading path. Matches whole path segments only.
+ */
+function remapPath(filePath: string, remaps: PathRemap[]): string {
+  for (const remap of remaps) {
+    const from = remap.from.trim().replace(/[\\/]+$/, '');
+    const rest = filePath.slice(from.length);
+    if (from && filePath.startsWith(from) && (rest === '' || rest.startsWith('/') || rest.startsWith('\\'))) {
+      return remap.to.trim().replace(/[\\/]+$/, '') + rest;
+    }
+  }
+  return filePath;
 }
 
 export class ConfigService {
+  private configDir: string;
   private configPath: string;
   private config: AppConfig;
+  private recovery: ConfigRecovery | null = null;
+  private saveBlocked = false; // Set while a damaged config file is still in place
   
   constructor() {
     const configDir = path.join(os.homedir(), '.local-versioning');
+    this.configDir = configDir;
     this.configPath = path.join(configDir, 'config.json');
     
     // Ensure config directory exists
@@ -42,76 +179,230 @@ export class ConfigService {
     }
     
     // Load or create config
-    this.config = this.loadConfig();
+    const { config, needsSave } = this.loadConfig();
+    this.config = config;
+    if (needsSave) {
+      try {
+        this.saveConfig();
+      } catch (error) {
+        // Saved again with the next change
+      }
+    }
   }
   
-  private loadConfig(): AppConfig {
+  /**
+   * Load the config file, migrating older versions. A file that cannot be
+   * read or has invalid settings is moved to quarantine instead of being
+   * overwritten, and reported through getRecovery().
+   */
+  private loadConfig(): { config: AppConfig; needsSave: boolean } {
+    if (!fs.existsSync(this.configPath)) {
+      return { config: createDefaultConfig(), needsSave: false };
+    }
+    
     try {
-      if (fs.existsSync(this.configPath)) {
-        const data = fs.readFileSync(this.configPath, 'utf-8');
-        const config = JSON.parse(data);
-        
-        // Migrate existing folders to add watchSubfolders if missing
-        if (config.watchedFolders) {
-          config.watchedFolders = config.watchedFolders.map((folder: any) => ({
-            ...folder,
-            watchSubfolders: folder.watchSubfolders !== undefined ? folder.watchSubfolders : true
-          }));
-        }
-        
-        return config;
+      const { config, problems, fromVersion } = parseConfig(fs.readFileSync(this.configPath, 'utf-8'));
+      if (problems.length > 0) {
+        console.warn('Repaired invalid settings in config:', problems);
+        this.quarantine('repaired', `${problems.length} invalid setting${problems.length !== 1 ? 's were' : ' was'} reset or removed`, problems);
+        return { config, needsSave: !this.saveBlocked };
+      }
+      if (fromVersion < CONFIG_VERSION) {
+        console.log(`Migrated config from version ${fromVersion} to ${CONFIG_VERSION}`);
       }
+      return { config, needsSave: fromVersion < CONFIG_VERSION };
     } catch (error) {
       console.error('Failed to load config, using defaults:', error);
+      const message = error instanceof Error ? error.message : String(error);
+      this.quarantine('unreadable', message, []);
+      return { config: createDefaultConfig(), needsSave: false };
     }
+  }
+  
+  /**
+   * Move the config file aside so it is never overwritten. If that fails the
+   * file stays in place and saving is blocked until it is dealt with.
+   */
+  private quarantine(kind: ConfigRecovery['kind'], message: string, problems: string[]): void {
+    const quarantineDir = path.join(this.configDir, 'quarantine');
+    const quarantinedPath = path.join(quarantineDir, `config-${new Date().toISOString().replace(/[:.]/g, '-')}.json`);
     
-    // Return default config
-    return {
-      watchedFolders: [],
-      theme: 'light'
-    };
+    try {
+      fs.mkdirSync(quarantineDir, { recursive: true });
+      fs.renameSync(this.configPath, quarantinedPath);
+      console.warn(`Moved config file to quarantine: ${quarantinedPath}`);
+      this.recovery = { kind, message, problems, quarantinedPath, at: new Date() };
+    } catch (error) {
+      console.error('Failed to quarantine config file:', error);
+      this.saveBlocked = true;
+      this.recovery = { kind, message, problems, quarantinedPath: null, at: new Date() };
+    }
+  }
+  
+  /**
+   * How the config file was recovered at startup, until dismissed
+   */
+  getRecovery(): ConfigRecovery | null {
+    return this.recovery;
+  }
+  
+  dismissRecovery(): void {
+    this.recovery = null;
+  }
+  
+  /**
+   * Load the quarantined config file again, e.g. after fixing it by hand.
+   * Replaces the current settings; throws when the file still cannot be read.
+   */
+  reloadQuarantinedConfig(): AppConfig {
+    const sourcePath = this.recovery?.quarantinedPath || (this.saveBlocked ? this.configPath : null);
+    if (!sourcePath) {
+      throw new Error('There is no quarantined settings file to load');
+    }
+    
+    const { config, problems } = parseConfig(fs.readFileSync(sourcePath, 'utf-8'));
+    if (problems.length > 0) {
+      throw new Error(`The settings file still has invalid settings:\n${problems.join('\n')}`);
+    }
+    
+    this.config = config;
+    this.saveBlocked = false;
+    this.saveConfig();
+    this.recovery = null;
+    return this.getConfig();
   }
   
   private saveConfig(): void {
+    if (this.saveBlocked) {
+      throw new Error(`Settings are not saved while the damaged settings file is still in place: ${this.configPath}`);
+    }
+    
+    const data = JSON.stringify(this.config, null, 2);
+    const tempPath = `${this.configPath}.tmp`;
     try {
-      fs.writeFileSync(this.configPath, JSON.stringify(this.config, null, 2));
+      this.backupConfig(data);
+      
+      // Renamed over the config once fully on disk, so a crash or full disk
+      // never leaves a truncated file
+      const fd = fs.openSync(tempPath, 'w');
+      try {
+        fs.writeFileSync(fd, data);
+        fs.fsyncSync(fd);
+      } finally {
+        fs.closeSync(fd);
+      }
+      fs.renameSync(tempPath, this.configPath);
     } catch (error) {
       console.error('Failed to save config:', error);
+      fs.rmSync(tempPath, { force: true });
       throw error;
     }
   }
   
+  private getBackupDir(): string {
+    return path.join(this.configDir, 'backups');
+  }
+  
+  /**
+   * Copy the config file about to be replaced into the backups, unless
+   * nothing changed since the newest backup
+   */
+  private backupConfig(nextData: string): void {
+    try {
+      if (!fs.existsSync(this.configPath)) {
+        return;
+      }
+      
+      const current = fs.readFileSync(this.configPath, 'utf-8');
+      const backupDir = this.getBackupDir();
+      const names = this.listBackupNames();
+      if (current === nextData || (names.length > 0 && fs.readFileSync(path.join(backupDir, names[0]), 'utf-8') === current)) {
+        return;
+      }
+      
+      fs.mkdirSync(backupDir, { recursive: true });
+      fs.writeFileSync(path.join(backupDir, `config-${new Date().toISOString().replace(/[:.]/g, '-')}.json`), current);
+      for (const name of this.listBackupNames().slice(MAX_CONFIG_BACKUPS)) {
+        fs.rmSync(path.join(backupDir, name), { force: true });
+      }
+    } catch (error) {
+      // A missing backup shouldn't stop the settings from being saved
+      console.warn('Failed to back up config:', error);
+    }
+  }
+  
+  /**
+   * Backup file names, newest first
+   */
+  private listBackupNames(): string[] {
+    const backupDir = this.getBackupDir();
+    if (!fs.existsSync(backupDir)) {
+      return [];
+    }
+    return fs.readdirSync(backupDir)
+      .filter(name => /^config-.+\.json$/.test(name))
+      .sort()
+      .reverse();
+  }
+  
+  listBackups(): ConfigBackup[] {
+    return this.listBackupNames().map(name => {
+      const backupPath = path.join(this.getBackupDir(), name);
+      const backup: ConfigBackup = { id: name, createdAt: fs.statSync(backupPath).mtime, folders: [] };
+      try {
+        const { config } = parseConfig(fs.readFileSync(backupPath, 'utf-8'));
+        backup.folders = config.watchedFolders.map(folder => ({ name: folder.name, path: folder.path }));
+      } catch (error) {
+        backup.error = error instanceof Error ? error.message : String(error);
+      }
+      return backup;
+    });
+  }
+  
+  /**
+   * Replace the settings with a backup. The settings being replaced are
+   * backed up in turn, so a restore can be undone.
+   */
+  restoreBackup(backupId: string): AppConfig {
+    if (!this.listBackupNames().includes(backupId)) {
+      throw new Error(`Backup not found: ${backupId}`);
+    }
+    
+    const { config, problems } = parseConfig(fs.readFileSync(path.join(this.getBackupDir(), backupId), 'utf-8'));
+    if (problems.length > 0) {
+      console.warn('Repaired invalid settings in restored backup:', problems);
+    }
+    
+    this.config = config;
+    this.saveConfig();
+    return this.getConfig();
+  }
+  
   getConfig(): AppConfig {
     return { ...this.config };
   }
   
   updateConfig(updates: Partial<AppConfig>): void {
-    this.config = { ...this.config, ...updates };
+    this.config = this.validated({ ...this.config, ...updates });
     this.saveConfig();
   }
   
   addFolder(folderPath: string, options?: Partial<WatchedFolder>): WatchedFolder {
-    const folder: WatchedFolder = {
+    // The default profile overrides the global defaults, and the options override both
+    const defaultProfile = this.getProfiles().find(profile => profile.id === this.config.defaultProfileId);
+    const settings: Partial<WatchedFolder> = JSON.parse(JSON.stringify({ ...defaultProfile?.settings, ...options }));
+    const folder: SavedFolder = {
       id: randomUUID(),
       path: folderPath,
       name: path.basename(folderPath),
-      commitStrategy: options?.commitStrategy || 'on-save',
-      periodicInterval: options?.periodicInterval || 5,
-      ignorePatterns: options?.ignorePatterns || [
-        '**/node_modules/**',
-        '**/.git/**',
-        '**/.DS_Store',
-        '**/*.tmp',
-        '**/*.log'
-      ],
-      isActive: true,
-      watchSubfolders: options?.watchSubfolders !== undefined ? options.watchSubfolders : true
+      ...getProfileSettings(settings),
+      isActive: true
     };
     
     this.config.watchedFolders.push(folder);
     this.saveConfig();
     
-    return folder;
+    return this.resolve(folder);
   }
   
   removeFolder(folderId: string): void {
@@ -121,23 +412,190 @@ export class ConfigService {
     this.saveConfig();
   }
   
-  updateFolder(folderId: string, updates: Partial<WatchedFolder>): void {
+  /**
+   * Change a folder's settings. Settings listed in inherit stop being
+   * overridden and follow the global defaults again.
+   */
+  updateFolder(folderId: string, updates: Partial<WatchedFolder>, inherit: Array<keyof FolderProfileSettings> = []): void {
     const index = this.config.watchedFolders.findIndex(f => f.id === folderId);
     if (index !== -1) {
-      this.config.watchedFolders[index] = {
-        ...this.config.watchedFolders[index],
-        ...updates
-      };
+      const { overriddenSettings: _overriddenSettings, ...changes } = updates;
+      const folder: SavedFolder = { ...this.config.watchedFolders[index], ...changes };
+      for (const key of inherit) {
+        delete folder[key];
+      }
+      
+      const watchedFolders = [...this.config.watchedFolders];
+      watchedFolders[index] = folder;
+      this.config = this.validated({ ...this.config, watchedFolders });
       this.saveConfig();
     }
   }
   
+  /**
+   * Changes from the renderer are checked like the config file, but rejected
+   * rather than repaired
+   */
+  private validated(config: AppConfig): AppConfig {
+    const { config: checked, problems } = validateConfig(config);
+    if (problems.length > 0) {
+      throw new Error(`Invalid settings: ${problems.join('; ')}`);
+    }
+    return checked;
+  }
+  
   getFolder(folderId: string): WatchedFolder | undefined {
-    return this.config.watchedFolders.find(f => f.id === folderId);
+    const folder = this.config.watchedFolders.find(f => f.id === folderId);
+    return folder && this.resolve(folder);
   }
   
   getFolders(): WatchedFolder[] {
-    return [...this.config.watchedFolders];
+    return this.config.watchedFolders.map(folder => this.resolve(folder));
+  }
+  
+  private resolve(folder: SavedFolder): WatchedFolder {
+    return resolveFolder(folder, this.config.folderDefaults);
+  }
+  
+  /**
+   * The settings folders inherit, with the built-in ones filled in
+   */
+  getFolderDefaults(): FolderProfileSettings {
+    return { ...BASE_FOLDER_SETTINGS, ...this.config.folderDefaults };
+  }
+  
+  setFolderDefaults(settings: FolderProfileSettings): void {
+    this.config = this.validated({ ...this.config, folderDefaults: getProfileSettings(settings) });
+    this.saveConfig();
+  }
+  
+  getProfiles(): FolderProfile[] {
+    return [...BUILT_IN_PROFILES, ...(this.config.folderProfiles || [])];
+  }
+  
+  /**
+   * Save settings as a new profile, or replace those of a saved one
+   */
+  saveProfile(name: string, settings: FolderProfileSettings, profileId?: string): FolderProfile {
+    if (profileId && BUILT_IN_PROFILES.some(profile => profile.id === profileId)) {
+      throw new Error('Built-in profiles cannot be changed');
+    }
+    
+    const profile: FolderProfile = { id: profileId || randomUUID(), name: name.trim(), settings: getProfileSettings(settings) };
+    const folderProfiles = (this.config.folderProfiles || []).filter(p => p.id !== profile.id);
+    this.config = this.validated({ ...this.config, folderProfiles: [...folderProfiles, profile] });
+    this.saveConfig();
+    return profile;
+  }
+  
+  deleteProfile(profileId: string): void {
+    const folderProfiles = (this.config.folderProfiles || []).filter(profile => profile.id !== profileId);
+    const defaultProfileId = this.config.defaultProfileId === profileId ? undefined : this.config.defaultProfileId;
+    this.config = this.validated({ ...this.config, folderProfiles, defaultProfileId });
+    this.saveConfig();
+  }
+  
+  /**
+   * The whole config for another machine. Window placement stays behind.
+   */
+  exportConfig(): string {
+    const { windowBounds: _windowBounds, ...config } = this.config;
+    return JSON.stringify({ format: CONFIG_EXPORT_FORMAT, exportedAt: new Date().toISOString(), config }, null, 2);
+  }
+  
+  previewImport(data: string): ConfigImportPreview {
+    const { config } = parseConfigExport(data);
+    const watchedPaths = new Set(this.config.watchedFolders.map(folder => folder.path));
+    return {
+      folders: config.watchedFolders.map(folder => ({
+        id: folder.id,
+        name: folder.name,
+        path: folder.path,
+        customGitPath: folder.customGitPath,
+        alreadyWatched: watchedPaths.has(folder.path)
+      })),
+      profiles: (config.folderProfiles || []).map(profile => profile.name)
+    };
+  }
+  
+  /**
+   * Add folders from an exported config, with their paths remapped for this
+   * machine. Folders already watched are skipped; nothing is replaced.
+   */
+  importConfig(data: string, options: ConfigImportOptions): ConfigImportResult {
+    const { config: imported } = parseConfigExport(data);
+    const result: ConfigImportResult = { added: [], skipped: [], paused: [] };
+    const watchedFolders = [...this.config.watchedFolders];
+    // Without the other machine's defaults, its folders keep what they inherited from them
+    const inherited = options.includeGlobalSettings ? {} : getProfileSettings(imported.folderDefaults || {});
+    const addedFolders: SavedFolder[] = [];
+    
+    for (const folder of imported.watchedFolders.filter(f => options.folderIds.includes(f.id))) {
+      const folderPath = remapPath(folder.path, options.pathRemaps);
+      if (!path.isAbsolute(folderPath)) {
+        result.skipped.push({ path: folderPath, reason: 'The path is not absolute' });
+        continue;
+      }
+      if (watchedFolders.some(f => f.path === folderPath)) {
+        result.skipped.push({ path: folderPath, reason: 'The folder is already watched' });
+        continue;
+      }
+      
+      const exists = fs.existsSync(folderPath);
+      const added: SavedFolder = {
+        ...inherited,
+        ...folder,
+        id: watchedFolders.some(f => f.id === folder.id) ? randomUUID() : folder.id,
+        path: folderPath,
+        customGitPath: folder.customGitPath ? remapPath(folder.customGitPath, options.pathRemaps) : undefined,
+        isActive: folder.isActive && exists
+      };
+      if (!exists) result.paused.push(folderPath);
+      watchedFolders.push(added);
+      addedFolders.push(added);
+    }
+    
+    let updated: AppConfig = { ...this.config, watchedFolders };
+    if (options.includeGlobalSettings) {
+      const profileIds = new Set((this.config.folderProfiles || []).map(profile => profile.id));
+      updated = {
+        ...updated,
+        globalIgnorePatterns: imported.globalIgnorePatterns || updated.globalIgnorePatterns,
+        defaultGitLocation: imported.defaultGitLocation || updated.defaultGitLocation,
+        defaultCustomGitPath: imported.defaultCustomGitPath
+          ? remapPath(imported.defaultCustomGitPath, options.pathRemaps)
+          : updated.defaultCustomGitPath,
+        folderProfiles: [
+          ...(this.config.folderProfiles || []),
+          ...(imported.folderProfiles || []).filter(profile => !profileIds.has(profile.id))
+        ],
+        defaultProfileId: imported.defaultProfileId || updated.defaultProfileId,
+        folderDefaults: imported.folderDefaults || updated.folderDefaults
+      };
+    }
+    
+    this.config = this.validated(updated);
+    this.saveConfig();
+    result.added = addedFolders.map(folder => this.resolve(folder));
+    return result;
+  }
+  
+  getGlobalIgnorePatterns(): string[] {
+    return this.config.globalIgnorePatterns || [...DEFAULT_IGNORE_PATTERNS];
+  }
+  
+  /**
+   * Where a folder's not yet committed changes are journaled
+   */
+  getPendingJournalPath(folderId: string): string {
+    return path.join(this.configDir, 'pending', `${folderId}.json`);
+  }
+  
+  /**
+   * Where copies of a folder's files kept out of its history are stored
+   */
+  getLargeFileStoreDir(folderId: string): string {
+    return path.join(this.configDir, 'large-files', folderId);
   }
 }
 
@@ -0,0 +1,272 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { pipeline } from 'stream/promises';
+import { createPathMatcher } from './IgnoreEngine';
+import type { FilePolicy, FilePolicyAction, SymlinkPolicy } from './ConfigService';
+
+// Used when a folder has no policy of its own
+export const DEFAULT_MAX_FILE_SIZE_MB = 100;
+
+const MB = 1024 * 1024;
+
+export interface StoredVersion {
+  hash: string; // sha256 of the content
+  size: number;
+  date: string;
+}
+
+/**
+ * A file a policy keeps out of the version history, and why
+ */
+export interface PolicyFileStatus {
+  path: string;
+  action: FilePolicyAction;
+  reason: string;
+  size: number;
+  versions?: StoredVersion[]; // Copies kept in the large-file store, newest first
+}
+
+export interface PolicyResult {
+  tracked: string[]; // Paths to commit as usual
+  handled: PolicyFileStatus[]; // Paths the policy took care of
+  newlySkipped: PolicyFileStatus[]; // Skipped now, and not skipped for the same reason before
+}
+
+interface PolicyIndex {
+  files: Record<string, PolicyFileStatus>;
+}
+
+function formatSize(bytes: number): string {
+  return bytes >= MB ? `${(bytes / MB).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
+}
+
+async function hashFile(filePath: string): Promise<string> {
+  const hash = crypto.createHash('sha256');
+  await pipeline(fs.createReadStream(filePath), hash);
+  return hash.digest('hex');
+}
+
+/**
+ * Applies a folder's size and file-type policy before changes are committed.
+ * Files a policy handles are never committed: they are skipped, or copied to
+ * a large-file store outside the repository that keeps either their latest
+ * version only or every version. The store and the list of handled files live
+ * in storeDir. Git can only record a link itself, so files reached through
+ * followed links always go to the store.
+ */
+export class FilePolicyService {
+  private rootDir: string;
+  private storeDir: string;
+  private maxFileSize: number; // bytes, 0 = no limit
+  private rules: Array<{ pattern: string; action: FilePolicyAction; matches: (relativePath: string) => boolean }>;
+  private index: PolicyIndex;
+  private followLinks: boolean;
+  
+  constructor(rootDir: string, storeDir: string, policy?: FilePolicy, symlinkPolicy?: SymlinkPolicy) {
+    this.rootDir = rootDir;
+    this.storeDir = storeDir;
+    this.followLinks = symlinkPolicy === 'follow';
+    this.maxFileSize = (policy ? policy.maxFileSizeMB || 0 : DEFAULT_MAX_FILE_SIZE_MB) * MB;
+    this.rules = (policy?.rules || [])
+      .filter(rule => rule.pattern.trim())
+      .map(rule => ({ ...rule, matches: createPathMatcher(rule.pattern.trim()) }));
+    this.index = this.readIndex();
+  }
+  
+  getStatuses(): PolicyFileStatus[] {
+    return Object.values(this.index.files);
+  }
+  
+  /**
+   * Paths git must leave alone, for the repository's exclude file
+   */
+  getExcludedPaths(): string[] {
+    return Object.keys(this.index.files);
+  }
+  
+  /**
+   * What the policy does with a file of the given size. The last matching
+   * rule wins; files no rule matches are skipped when over the size limit.
+   */
+  classify(relativePath: string, size: number): { action: FilePolicyAction; reason: string } | null {
+    for (let i = this.rules.length - 1; i >= 0; i--) {
+      const rule = this.rules[i];
+      if (rule.matches(relativePath)) {
+        return { action: rule.action, reason: `Matches "${rule.pattern}"` };
+      }
+    }
+    
+    if (this.maxFileSize > 0 && size > this.maxFileSize) {
+      return {
+        action: 'skip',
+        reason: `${formatSize(size)} is over the ${formatSize(this.maxFileSize)} limit`
+      };
+    }
+    
+    return null;
+  }
+  
+  /**
+   * Sort changed paths into the ones to commit and the ones the policy
+   * handles, storing copies where a rule asks for it
+   */
+  async apply(relativePaths: string[]): Promise<PolicyResult> {
+    const result: PolicyResult = { tracked: [], handled: [], newlySkipped: [] };
+    let changed = false;
+    
+    for (const relativePath of relativePaths) {
+      const previous = this.index.files[relativePath];
+      const fullPath = path.join(this.rootDir, relativePath);
+      let stats: fs.Stats | null = null;
+      try {
+        stats = fs.lstatSync(fullPath);
+      } catch (error) {
+        // Deleted: the removal is committed as usual
+      }
+      
+      // A link that is not followed is committed as a link, whatever it points at
+      const throughLink = stats !== null && this.followLinks && this.isReachedThroughLink(relativePath);
+      if (throughLink) {
+        try {
+          stats = fs.statSync(fullPath);
+        } catch (error) {
+          stats = null;
+        }
+      }
+      
+      const decision = !stats || !stats.isFile()
+        ? null
+        : throughLink
+        ? { action: 'large-file-store' as const, reason: 'Reached through a symbolic link' }
+        : this.classify(relativePath, stats.size);
+      if (!decision) {
+        if (previous) {
+          // Stored copies outlive the file so it can still be restored
+          if (stats || !previous.versions) {
+            delete this.index.files[relativePath];
+            changed = true;
+          }
+          // The file never reached the history, so neither does its removal
+          if (!stats) continue;
+        }
+        result.tracked.push(relativePath);
+        continue;
+      }
+      
+      const status: PolicyFileStatus = {
+        path: relativePath,
+        action: decision.action,
+        reason: decision.reason,
+        size: stats!.size
+      };
+      if (decision.action !== 'skip') {
+        try {
+          status.versions = await this.store(relativePath, decision.action, previous?.versions);
+        } catch (error) {
+          console.error(`Failed to store ${relativePath} in the large-file store:`, error);
+          status.action = 'skip';
+          status.reason = `Could not be stored: ${error instanceof Error ? error.message : String(error)}`;
+        }
+      }
+      
+      if (status.action === 'skip' && (!previous || previous.action !== 'skip' || previous.reason !== status.reason)) {
+        result.newlySkipped.push(status);
+      }
+      this.index.files[relativePath] = status;
+      result.handled.push(status);
+      changed = true;
+    }
+    
+    if (changed) {
+      this.writeIndex();
+      this.removeUnusedObjects();
+    }
+    return result;
+  }
+  
+  private isReachedThroughLink(relativePath: string): boolean {
+    const segments = relativePath.split('/');
+    for (let depth = 1; depth <= segments.length; depth++) {
+      try {
+        if (fs.lstatSync(path.join(this.rootDir, ...segments.slice(0, depth))).isSymbolicLink()) {
+          return true;
+        }
+      } catch (error) {
+        return false;
+      }
+    }
+    return false;
+  }
+  
+  /**
+   * Put a stored version back in the folder
+   */
+  async restore(relativePath: string, hash: string): Promise<void> {
+    const version = this.index.files[relativePath]?.versions?.find(v => v.hash === hash);
+    if (!version) {
+      throw new Error(`No stored version ${hash.substring(0, 7)} of ${relativePath}`);
+    }
+    
+    const target = path.join(this.rootDir, relativePath);
+    await fs.promises.mkdir(path.dirname(target), { recursive: true });
+    await fs.promises.copyFile(this.objectPath(hash), target);
+  }
+  
+  private async store(relativePath: string, action: FilePolicyAction, versions: StoredVersion[] = []): Promise<StoredVersion[]> {
+    const source = path.join(this.rootDir, relativePath);
+    const hash = await hashFile(source);
+    if (versions[0]?.hash === hash) {
+      return action === 'latest-only' ? versions.slice(0, 1) : versions;
+    }
+    
+    const objectPath = this.objectPath(hash);
+    if (!fs.existsSync(objectPath)) {
+      const tempPath = `${objectPath}.tmp`;
+      await fs.promises.mkdir(path.dirname(objectPath), { recursive: true });
+      await fs.promises.copyFile(source, tempPath);
+      await fs.promises.rename(tempPath, objectPath);
+    }
+    
+    const version: StoredVersion = { hash, size: fs.statSync(objectPath).size, date: new Date().toISOString() };
+    return action === 'latest-only' ? [version] : [version, ...versions];
+  }
+  
+  private objectPath(hash: string): string {
+    return path.join(this.storeDir, 'objects', hash);
+  }
+  
+  private removeUnusedObjects(): void {
+    const objectsDir = path.join(this.storeDir, 'objects');
+    if (!fs.existsSync(objectsDir)) {
+      return;
+    }
+    
+    const used = new Set(
+      Object.values(this.index.files).flatMap(status => (status.versions || []).map(version => version.hash))
+    );
+    for (const name of fs.readdirSync(objectsDir)) {
+      if (!used.has(name) && !name.endsWith('.tmp')) {
+        fs.rmSync(path.join(objectsDir, name), { force: true });
+      }
+    }
+  }
+  
+  private readIndex(): PolicyIndex {
+    try {
+      const index = JSON.parse(fs.readFileSync(path.join(this.storeDir, 'index.json'), 'utf-8'));
+      return { files: index.files && typeof index.files === 'object' ? index.files : {} };
+    } catch (error) {
+      return { files: {} };
+    }
+  }
+  
+  private writeIndex(): void {
+    try {
+      fs.mkdirSync(this.storeDir, { recursive: true });
+      fs.writeFileSync(path.join(this.storeDir, 'index.json'), JSON.stringify(this.index, null, 2));
+    } catch (error) {
+      console.error('Failed to write the file policy index:', error);
+    }
+  }
+}
@@ -1,14 +1,94 @@
 import chokidar, { FSWatcher } from 'chokidar';
-import { GitService } from './GitService';
+import { GitService, FileRename, DetectedChanges } from './GitService';
+import { IgnoreEngine, toLiteralPattern } from './IgnoreEngine';
+import { FilePolicyService, PolicyFileStatus } from './FilePolicyService';
+import { isCommitAllowed, getNextCommitTime } from './CommitSchedule';
+import type { FilePolicy, CommitStrategy, CommitSchedule, SymlinkPolicy } from './ConfigService';
 import * as path from 'path';
+import * as fs from 'fs';
+
+// How long a deleted path waits for a matching add before it counts as a deletion
+const RENAME_WINDOW_MS = 2000;
+
+export const DEFAULT_DEBOUNCE_SECONDS = 2;
+export const DEFAULT_STABILITY_THRESHOLD_MS = 500;
+export const DEFAULT_MAX_WAIT_SECONDS = 60;
+export const DEFAULT_IDLE_MINUTES = 5;
+export const DEFAULT_BURST_THRESHOLD = 200;
+
+// Status reports are sent at most this often
+const STATUS_REPORT_INTERVAL_MS = 1000;
+
+// Changes this soon after a held bulk change are part of it
+const BURST_JOIN_MS = 10000;
+const BULK_CHANGE_LABEL = 'Bulk change';
+const BULK_CHANGE_SAMPLE_SIZE = 10;
+
+// How often files are checked in polling mode
+const POLL_INTERVAL_MS = 1000;
 
 export interface FileWatcherOptions {
-  commitStrategy: 'on-save' | 'periodic';
+  commitStrategy: CommitStrategy;
   periodicInterval?: number; // in minutes
-  ignorePatterns?: string[];
+  idleMinutes?: number; // Quiet time before an on-idle commit
+  commitSchedule?: CommitSchedule; // Limits when periodic and on-idle commits happen
+  ignorePatterns?: string[]; // The folder's own patterns, on top of globalIgnorePatterns and its ignore files
+  globalIgnorePatterns?: string[]; // Defaults to DEFAULT_IGNORE_PATTERNS
   watchSubfolders?: boolean;
+  usePolling?: boolean; // For network and other filesystems without reliable change events
+  symlinkPolicy?: SymlinkPolicy; // Defaults to 'link-only'
+  debounceSeconds?: number; // Quiet time after the last change before an on-save commit
+  stabilityThresholdMs?: number; // How long a file's size must stay unchanged before it counts as written
+  maxWaitSeconds?: number; // Commit at least this often during continuous changes; 0 = no limit
+  burstThreshold?: number; // Hold commits of at least this many files for a decision; 0 = never
   onCommit?: (files: string[]) => void;
+  onStartupChanges?: (detected: DetectedChanges) => void; // Changes made while nothing was watching
   onError?: (error: Error) => void;
+  onUnavailable?: () => void; // The folder disappeared, e.g. its drive was disconnected
+  onFilesSkipped?: (files: PolicyFileStatus[]) => void; // Files the size or type policy kept out of the history
+  onBulkChange?: (change: BulkChange) => void; // A bulk change was held, or grew
+  onStatusChange?: (status: FolderStatus) => void;
+  journalPath?: string; // Pending paths are kept here so a crash does not lose them
+  filePolicy?: FilePolicy;
+  largeFileStoreDir?: string; // Enables the file policy; copies of stored files are kept here
+}
+
+/**
+ * Many files changed at once, e.g. by unzipping an archive or switching a
+ * branch. It is held back until the user decides what to do with it.
+ */
+export interface BulkChange {
+  fileCount: number;
+  samplePaths: string[];
+  detectedAt: Date;
+}
+
+/**
+ * What a folder's watcher is doing, for status displays. Folders without a
+ * watcher are 'stopped' or 'offline'.
+ */
+export interface FolderStatus {
+  state: 'starting' | 'watching' | 'error' | 'stopped' | 'offline';
+  watchedFiles: number | null; // Known once the initial scan is done
+  eventsPerMinute: number;
+  pendingChanges: number;
+  heldChanges: number; // Files in a held bulk change
+  lastCommitAt: Date | null;
+  lastError: { message: string; at: Date } | null;
+}
+
+interface HeldBurst {
+  paths: Set<string>;
+  renames: Map<string, string>; // new path -> old path
+  detectedAt: Date;
+  heldAt: number; // When changes were last added to it
+}
+
+interface PendingJournal {
+  paths: string[];
+  renames: FileRename[];
+  burst?: { paths: string[]; renames: FileRename[]; detectedAt: string }; // A held bulk change
+  discarded?: Record<string, string | null>; // Files of dropped bulk changes -> hash when dropped, null if deleted
 }
 
 export class FileWatcher {
@@ -16,29 +96,61 @@ export class FileWatcher {
   private gitService: GitService;
   private options: FileWatcherOptions;
   private watchPath: string;
+  private ignoreEngine: IgnoreEngine;
+  private filePolicy: FilePolicyService | null;
   private pendingChanges: Set<string> = new Set();
+  private pendingRenames: Map<string, string> = new Map(); // new path -> old path
+  private recentUnlinks: Map<string, number> = new Map(); // old path -> time of the unlink
   private debounceTimer: NodeJS.Timeout | null = null;
+  private firstPendingAt: number | null = null; // When the oldest uncommitted change arrived
+  private heldBurst: HeldBurst | null = null;
+  private discardedChanges: Map<string, string | null> = new Map(); // Left out of the startup catch-up until they change
+  private ignoredLinks: string[] = []; // Links left out when the folder ignores them
   private periodicTimer: NodeJS.Timeout | null = null;
-  private isCommitting: boolean = false;
+  private journalTimer: NodeJS.Timeout | null = null;
+  private statusTimer: NodeJS.Timeout | null = null;
+  private watchedFiles: number | null = null;
+  private recentEvents: number[] = []; // Times of file events in the last minute
+  private lastCommitAt: Date | null = null;
+  private lastError: { message: string; at: Date } | null = null;
+  private currentCommit: Promise<void> | null = null;
   
   constructor(watchPath: string, gitService: GitService, options: FileWatcherOptions) {
     this.watchPath = watchPath;
     this.gitService = gitService;
-    const defaultIgnorePatterns = [
-      '**/node_modules/**',
-      '**/.git/**',
-      '**/.DS_Store',
-      '**/*.tmp',
-      '**/*.log',
-      '**/.local-versioning/**'
-    ];
     this.options = {
       commitStrategy: options.commitStrategy || 'on-save',
       periodicInterval: options.periodicInterval || 5,
-      ignorePatterns: options.ignorePatterns || defaultIgnorePatterns,
+      idleMinutes: options.idleMinutes || DEFAULT_IDLE_MINUTES,
+      commitSchedule: options.commitSchedule,
+      ignorePatterns: options.ignorePatterns || [],
+      globalIgnorePatterns: options.globalIgnorePatterns,
+      watchSubfolders: options.watchSubfolders,
+      usePolling: options.usePolling,
+      symlinkPolicy: options.symlinkPolicy || 'link-only',
+      debounceSeconds: options.debounceSeconds ?? DEFAULT_DEBOUNCE_SECONDS,
+      stabilityThresholdMs: options.stabilityThresholdMs ?? DEFAULT_STABILITY_THRESHOLD_MS,
+      maxWaitSeconds: options.maxWaitSeconds ?? DEFAULT_MAX_WAIT_SECONDS,
+      burstThreshold: options.burstThreshold ?? DEFAULT_BURST_THRESHOLD,
       onCommit: options.onCommit,
-      onError: options.onError
+      onStartupChanges: options.onStartupChanges,
+      onError: options.onError,
+      onUnavailable: options.onUnavailable,
+      onFilesSkipped: options.onFilesSkipped,
+      onBulkChange: options.onBulkChange,
+      onStatusChange: options.onStatusChange,
+      journalPath: options.journalPath,
+      filePolicy: options.filePolicy,
+      largeFileStoreDir: options.largeFileStoreDir
     };
+    this.ignoreEngine = new IgnoreEngine(watchPath, {
+      globalPatterns: this.options.globalIgnorePatterns,
+      folderPatterns: this.options.ignorePatterns,
+      symlinkPolicy: this.options.symlinkPolicy
+    });
+    this.filePolicy = this.options.largeFileStoreDir
+      ? new FilePolicyService(watchPath, this.options.largeFileStoreDir, this.options.filePolicy, this.options.symlinkPolicy)
+      : null;
   }
   
   async start(): Promise<void> {
@@ -47,8 +159,26 @@ export class FileWatcher {
     }
     
     try {
-      // Initialize git repository
-      await this.gitService.initialize();
+      // Git would still store ignored links, and links that cannot be
+      // followed, as links, so they go in the exclude file
+      if (this.options.symlinkPolicy !== 'link-only') {
+        this.ignoredLinks = this.ignoreEngine.listSpecialEntries(Infinity)
+          .filter(entry => entry.type === 'symlink' && entry.handling !== 'follow')
+          .map(entry => entry.path);
+      }
+      
+      // Initialize git repository. The initial commit adds everything, so the
+      // file policy has to see the folder first.
+      if (!this.gitService.isInitialized()) {
+        await this.applyFilePolicy(this.ignoreEngine.listFiles(), false);
+      }
+      await this.gitService.initialize(this.getExcludePatterns());
+      this.lastCommitAt = await this.gitService.getLastCommitDate();
+      
+      // Changes still pending when the app last stopped come first, then
+      // events are only reported from now on, so version what changed while we were not watching
+      await this.replayJournal();
+      await this.catchUp();
       
       // Start watching
       console.log('Starting chokidar with patterns:', this.options.ignorePatterns);
@@ -58,13 +188,19 @@ export class FileWatcher {
       const watchDepth = this.options.watchSubfolders !== false ? undefined : 0;
       
       this.watcher = chokidar.watch(this.watchPath, {
-        ignored: this.options.ignorePatterns,
+        ignored: (filePath: string, stats?: fs.Stats) =>
+          this.isSkippedEntry(filePath, stats) ||
+          this.ignoreEngine.isIgnored(path.relative(this.watchPath, filePath), stats?.isDirectory()),
+        followSymlinks: this.options.symlinkPolicy === 'follow',
         persistent: true,
         ignoreInitial: true,
         depth: watchDepth, // undefined = infinite depth, 0 = only top level
+        usePolling: this.options.usePolling === true,
+        interval: POLL_INTERVAL_MS,
+        binaryInterval: POLL_INTERVAL_MS,
         awaitWriteFinish: {
-          stabilityThreshold: 500,
-          pollInterval: 100
+          stabilityThreshold: this.options.stabilityThresholdMs!,
+          pollInterval: Math.min(100, this.options.stabilityThresholdMs!)
         }
       });
       
@@ -73,7 +209,8 @@ export class FileWatcher {
       // Handle file events
       this.watcher.on('add', (filePath) => {
         console.log('Chokidar: file added:', filePath);
-        this.handleFileChange(filePath);
+        if (this.watchedFiles !== null) this.watchedFiles++;
+        this.handleFileAdd(filePath);
       });
       
       this.watcher.on('change', (filePath) => {
@@ -83,7 +220,8 @@ export class FileWatcher {
       
       this.watcher.on('unlink', (filePath) => {
         console.log('Chokidar: file deleted:', filePath);
-        this.handleFileChange(filePath);
+        if (this.watchedFiles !== null) this.watchedFiles = Math.max(0, this.watchedFiles - 1);
+        this.handleFileUnlink(filePath);
       });
       
       this.watcher.on('ready', () => {
@@ -97,14 +235,19 @@ export class FileWatcher {
           const watched = this.watcher.getWatched();
           const watchedCount = Object.keys(watched).reduce((sum, dir) => sum + watched[dir].length, 0);
           console.log('Currently watching', watchedCount, 'files in', Object.keys(watched).length, 'directories');
+          
+          // Entries that are directories themselves are not files
+          this.watchedFiles = Object.entries(watched).reduce(
+            (sum, [dir, entries]) => sum + entries.filter(entry => !(path.join(dir, entry) in watched)).length,
+            0
+          );
         }
+        this.scheduleStatusReport();
       });
       
       this.watcher.on('error', (error) => {
         console.error('Chokidar error:', error);
-        if (this.options.onError) {
-          this.options.onError(error);
-        }
+        this.reportError(error);
       });
       
       // Debug: Log all file system events
@@ -116,7 +259,10 @@ export class FileWatcher {
       if (this.options.commitStrategy === 'periodic' && this.options.periodicInterval) {
         const intervalMs = this.options.periodicInterval * 60 * 1000;
         this.periodicTimer = setInterval(() => {
-          this.commitPendingChanges();
+          // Outside the schedule, changes wait for a later tick
+          if (isCommitAllowed(this.options.commitSchedule, new Date())) {
+            this.commitPendingChanges();
+          }
         }, intervalMs);
       }
       
@@ -127,9 +273,218 @@ export class FileWatcher {
     }
   }
   
-  stop(): void {
+  private async catchUp(): Promise<void> {
+    try {
+      const topLevelOnly = this.options.watchSubfolders === false;
+      const changedPaths = await this.gitService.getChangedPaths(topLevelOnly);
+      // A held bulk change waits for the user's decision
+      const held = this.heldBurst ? this.heldBurst.paths : new Set<string>();
+      const candidates = await this.skipDiscardedChanges(changedPaths.filter(filePath => !held.has(filePath)));
+      
+      // A branch switch or unzip done while the app was closed is held like one seen live
+      const threshold = this.options.burstThreshold!;
+      if (threshold > 0 && candidates.length >= threshold) {
+        candidates.forEach(filePath => this.pendingChanges.add(filePath));
+        this.holdBurst();
+        return;
+      }
+      
+      const tracked = new Set(await this.applyFilePolicy(candidates));
+      const detected = await this.gitService.commitDetectedChanges(
+        topLevelOnly,
+        changedPaths.filter(filePath => !tracked.has(filePath))
+      );
+      if (!detected) {
+        return;
+      }
+      
+      console.log(`Caught up ${detected.changes.length} changes in ${this.watchPath}`);
+      if (this.options.onStartupChanges) {
+        this.options.onStartupChanges(detected);
+      }
+      this.reportCommit(detected.changes.map(change => change.path));
+    } catch (error) {
+      console.error('Failed to catch up on changes:', error);
+      this.reportError(error as Error);
+    }
+  }
+  
+  /**
+   * Leave out files of a dropped bulk change that are still as they were when
+   * it was dropped. The others changed again, or are no longer changed at
+   * all, and are forgotten.
+   */
+  private async skipDiscardedChanges(changedPaths: string[]): Promise<string[]> {
+    if (this.discardedChanges.size === 0) {
+      return changedPaths;
+    }
+    
+    const discarded = changedPaths.filter(filePath => this.discardedChanges.has(filePath));
+    const hashes = await this.gitService.hashWorkingFiles(discarded);
+    const unchanged = new Set(discarded.filter(filePath => (hashes.get(filePath) ?? null) === this.discardedChanges.get(filePath)));
+    
+    this.discardedChanges = new Map(Array.from(this.discardedChanges).filter(([filePath]) => unchanged.has(filePath)));
+    this.writeJournal();
+    return changedPaths.filter(filePath => !unchanged.has(filePath));
+  }
+  
+  /**
+   * Commit the changes recorded in the journal by a previous run that never
+   * got to commit them. Paths that are gone and were never versioned are skipped.
+   * A held bulk change is held again.
+   */
+  private async replayJournal(): Promise<void> {
+    const journal = this.readJournal();
+    if (!journal) {
+      return;
+    }
+    this.discardedChanges = new Map(Object.entries(journal.discarded || {}));
+    
+    try {
+      if (journal.burst) {
+        const changed = new Set(await this.gitService.getChangedPaths());
+        const paths = journal.burst.paths.filter(filePath => changed.has(filePath));
+        if (paths.length > 0) {
+          this.heldBurst = {
+            paths: new Set(paths),
+            renames: new Map(journal.burst.renames.filter(rename => changed.has(rename.to)).map(rename => [rename.to, rename.from])),
+            detectedAt: new Date(journal.burst.detectedAt),
+            heldAt: 0
+          };
+          this.reportBulkChange();
+        }
+      }
+      
+      const paths: string[] = [];
+      for (const filePath of journal.paths) {
+        if (fs.existsSync(path.join(this.watchPath, filePath)) || await this.gitService.getTreeEntry('HEAD', filePath)) {
+          paths.push(filePath);
+        }
+      }
+      const tracked = await this.applyFilePolicy(paths);
+      const renames = journal.renames.filter(rename => tracked.includes(rename.from) && tracked.includes(rename.to));
+      
+      console.log(`Replaying ${tracked.length} pending changes from the journal`);
+      const commitHash = await this.gitService.commit(tracked, renames);
+      if (commitHash) {
+        this.reportCommit(tracked);
+      }
+      this.writeJournal();
+    } catch (error) {
+      console.error('Failed to replay pending changes:', error);
+      this.reportError(error as Error);
+    }
+  }
+  
+  private readJournal(): PendingJournal | null {
+    if (!this.options.journalPath || !fs.existsSync(this.options.journalPath)) {
+      return null;
+    }
+    
+    try {
+      const journal = JSON.parse(fs.readFileSync(this.options.journalPath, 'utf-8'));
+      const burst = journal.burst;
+      return {
+        paths: Array.isArray(journal.paths) ? journal.paths : [],
+        renames: Array.isArray(journal.renames) ? journal.renames : [],
+        burst: burst && Array.isArray(burst.paths) && Array.isArray(burst.renames) ? burst : undefined,
+        discarded: typeof journal.discarded === 'object' && journal.discarded !== null ? journal.discarded : undefined
+      };
+    } catch (error) {
+      console.warn('Ignoring unreadable pending changes journal:', error);
+      return null;
+    }
+  }
+  
+  /**
+   * Record the current pending changes, held bulk change and dropped files,
+   * or remove the journal when there are none
+   */
+  private writeJournal(): void {
+    if (this.journalTimer) {
+      clearTimeout(this.journalTimer);
+      this.journalTimer = null;
+    }
+    
+    const journalPath = this.options.journalPath;
+    if (!journalPath) {
+      return;
+    }
+    
+    try {
+      if (this.pendingChanges.size === 0 && !this.heldBurst && this.discardedChanges.size === 0) {
+        fs.rmSync(journalPath, { force: true });
+        return;
+      }
+      
+      const journal: PendingJournal = {
+        paths: Array.from(this.pendingChanges),
+        renames: Array.from(this.pendingRenames).map(([to, from]) => ({ from, to }))
+      };
+      if (this.heldBurst) {
+        journal.burst = {
+          paths: Array.from(this.heldBurst.paths),
+          renames: Array.from(this.heldBurst.renames).map(([to, from]) => ({ from, to })),
+          detectedAt: this.heldBurst.detectedAt.toISOString()
+        };
+      }
+      if (this.discardedChanges.size > 0) {
+        journal.discarded = Object.fromEntries(this.discardedChanges);
+      }
+      fs.mkdirSync(path.dirname(journalPath), { recursive: true });
+      fs.writeFileSync(journalPath, JSON.stringify(journal));
+    } catch (error) {
+      console.warn('Failed to write pending changes journal:', error);
+    }
+  }
+  
+  // Bursts of events share one journal write
+  private scheduleJournalWrite(): void {
+    if (this.options.journalPath && !this.journalTimer) {
+      this.journalTimer = setTimeout(() => this.writeJournal(), 200);
+    }
+  }
+  
+  /**
+   * Stop watching and commit whatever is still pending, so nothing is lost
+   * when a folder is turned off, reconfigured or the app quits
+   */
+  async stop(): Promise<void> {
+    await this.close();
+    
+    if (this.currentCommit) {
+      await this.currentCommit;
+    }
+    await this.commitPendingChanges(true);
+    
+    // Whatever could not be committed stays in the journal for the next start
+    this.writeJournal();
+    
+    console.log(`Stopped watching: ${this.watchPath}`);
+  }
+  
+  /**
+   * Stop watching without committing, e.g. because the folder's drive is gone.
+   * Pending changes stay in the journal and are committed by the next start.
+   */
+  async pause(): Promise<void> {
+    await this.close();
+    
+    if (this.currentCommit) {
+      await this.currentCommit;
+    }
+    this.writeJournal();
+    
+    console.log(`Paused watching: ${this.watchPath}`);
+  }
+  
+  private async close(): Promise<void> {
+    if (this.statusTimer) {
+      clearTimeout(this.statusTimer);
+      this.statusTimer = null;
+    }
     if (this.watcher) {
-      this.watcher.close();
+      await this.watcher.close();
       this.watcher = null;
     }
     
@@ -142,67 +497,541 @@ export class FileWatcher {
       clearInterval(this.periodicTimer);
       this.periodicTimer = null;
     }
+  }
+  
+  /**
+   * A move shows up as an unlink followed by an add. Remember the unlink so
+   * the add can be paired with it.
+   */
+  private handleFileUnlink(filePath: string): void {
+    const relativePath = path.relative(this.watchPath, filePath);
     
-    console.log(`Stopped watching: ${this.watchPath}`);
+    // A file that was moved here and then deleted again is just a deletion of the original
+    this.pendingRenames.delete(relativePath);
+    this.recentUnlinks.set(relativePath, Date.now());
+    this.handleFileChange(filePath);
+  }
+  
+  private async handleFileAdd(filePath: string): Promise<void> {
+    const relativePath = path.relative(this.watchPath, filePath);
+    
+    try {
+      const movedFrom = await this.findMovedFrom(relativePath);
+      if (movedFrom) {
+        console.log('File moved:', movedFrom, '->', relativePath);
+        this.recentUnlinks.delete(movedFrom);
+        this.pendingRenames.set(relativePath, movedFrom);
+      }
+    } catch (error) {
+      console.warn('Could not check whether file was moved:', error);
+    }
+    
+    this.handleFileChange(filePath);
+  }
+  
+  /**
+   * The recently deleted path whose stored version has exactly the added
+   * file's content. Paths with the same file name are checked first.
+   */
+  private async findMovedFrom(relativePath: string): Promise<string | null> {
+    const now = Date.now();
+    const candidates = Array.from(this.recentUnlinks)
+      .filter(([, time]) => now - time <= RENAME_WINDOW_MS)
+      .map(([oldPath]) => oldPath)
+      .filter(oldPath => this.pendingChanges.has(oldPath));
+    
+    if (candidates.length === 0) {
+      return null;
+    }
+    
+    const fileName = path.basename(relativePath);
+    candidates.sort((a, b) => Number(path.basename(b) === fileName) - Number(path.basename(a) === fileName));
+    
+    const hash = await this.gitService.hashWorkingFile(relativePath);
+    for (const oldPath of candidates) {
+      const entry = await this.gitService.getTreeEntry('HEAD', oldPath);
+      if (entry && entry.hash === hash) {
+        return oldPath;
+      }
+    }
+    
+    return null;
+  }
+  
+  /**
+   * Time left until the newest unpaired unlink stops waiting for its add
+   */
+  private getRenameWaitMs(): number {
+    const now = Date.now();
+    let wait = 0;
+    
+    for (const [oldPath, time] of this.recentUnlinks) {
+      const remaining = RENAME_WINDOW_MS - (now - time);
+      if (remaining <= 0 || !this.pendingChanges.has(oldPath)) {
+        this.recentUnlinks.delete(oldPath);
+      } else {
+        wait = Math.max(wait, remaining);
+      }
+    }
+    
+    return wait;
   }
   
   private handleFileChange(filePath: string): void {
     // Convert absolute path to relative path
     const relativePath = path.relative(this.watchPath, filePath);
     
+    if (IgnoreEngine.isIgnoreFile(relativePath)) {
+      this.reloadIgnoreRules();
+    }
+    // Paths chokidar already watched can become ignored when the rules change
+    if (this.ignoreEngine.isIgnored(relativePath)) {
+      return;
+    }
+    
     console.log('File changed:', relativePath);
+    this.recordEvent();
     
     // Add to pending changes
+    if (this.pendingChanges.size === 0) {
+      this.firstPendingAt = Date.now();
+    }
     this.pendingChanges.add(relativePath);
     
     console.log('Pending changes:', Array.from(this.pendingChanges));
+    this.scheduleJournalWrite();
+    
+    // On-save and on-idle commit once changes stop; periodic waits for its timer
+    if (this.options.commitStrategy !== 'periodic') {
+      this.scheduleCommit();
+    }
+  }
+  
+  private reloadIgnoreRules(): void {
+    this.ignoreEngine.reload();
+    this.updateExcludeFile();
+  }
+  
+  /**
+   * Ignore rules, plus the files the file policy keeps out of the history
+   */
+  private getExcludePatterns(): string[] {
+    const policyPaths = this.filePolicy ? this.filePolicy.getExcludedPaths() : [];
+    return [
+      ...this.ignoreEngine.getExcludePatterns(),
+      ...policyPaths.map(toLiteralPattern),
+      ...this.ignoredLinks.map(toLiteralPattern)
+    ];
+  }
+  
+  /**
+   * Special files are never watched (reading a FIFO blocks), and neither are
+   * links the folder ignores or links that cannot be followed
+   */
+  private isSkippedEntry(filePath: string, stats?: fs.Stats): boolean {
+    if (this.ignoredLinks.includes(path.relative(this.watchPath, filePath).split(path.sep).join('/'))) {
+      return true;
+    }
+    
+    // Stats passed in describe the target of followed links
+    let linkStats: fs.Stats;
+    try {
+      linkStats = this.options.symlinkPolicy === 'follow' || !stats ? fs.lstatSync(filePath) : stats;
+    } catch (error) {
+      return false;
+    }
+    
+    if (linkStats.isSymbolicLink()) {
+      if (this.options.symlinkPolicy === 'ignore') return true;
+      return this.options.symlinkPolicy === 'follow' && this.isUnfollowableLink(filePath);
+    }
+    return !linkStats.isFile() && !linkStats.isDirectory();
+  }
+  
+  /**
+   * Links created while watching that point nowhere or back at a folder
+   * containing them, which would be followed forever
+   */
+  private isUnfollowableLink(filePath: string): boolean {
+    try {
+      const target = fs.realpathSync(filePath);
+      const linkDir = fs.realpathSync(path.dirname(filePath));
+      return linkDir === target || linkDir.startsWith(`${target}${path.sep}`);
+    } catch (error) {
+      return true;
+    }
+  }
+  
+  private updateExcludeFile(): void {
+    try {
+      this.gitService.writeExcludeFile(this.getExcludePatterns());
+    } catch (error) {
+      console.error('Failed to update the exclude file:', error);
+    }
+  }
+  
+  /**
+   * Run changed paths through the file policy and return the ones to commit.
+   * Git is told to leave the others alone before anything is staged.
+   */
+  private async applyFilePolicy(paths: string[], updateExclude: boolean = true): Promise<string[]> {
+    if (!this.filePolicy || paths.length === 0) {
+      return paths;
+    }
+    
+    const excludedBefore = this.filePolicy.getExcludedPaths().join('\0');
+    const result = await this.filePolicy.apply(paths);
+    if (updateExclude && this.filePolicy.getExcludedPaths().join('\0') !== excludedBefore) {
+      this.updateExcludeFile();
+    }
     
-    // If on-save strategy, debounce and commit
-    if (this.options.commitStrategy === 'on-save') {
+    if (result.newlySkipped.length > 0) {
+      console.warn('Skipped by the file policy:', result.newlySkipped.map(file => `${file.path} (${file.reason})`));
+      if (this.options.onFilesSkipped) {
+        this.options.onFilesSkipped(result.newlySkipped);
+      }
+    }
+    
+    return result.tracked;
+  }
+  
+  private scheduleCommit(): void {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+    }
+    
+    // On-idle waits out a whole working session
+    if (this.options.commitStrategy === 'on-idle') {
+      this.debounceTimer = setTimeout(() => {
+        console.log('Idle timer triggered, committing...');
+        this.commitWhenScheduled();
+      }, this.options.idleMinutes! * 60 * 1000);
+      return;
+    }
+    
+    // Wait for a quiet moment after the last change, but no longer than
+    // the max wait since the first uncommitted one
+    let delayMs = this.options.debounceSeconds! * 1000;
+    if (this.options.maxWaitSeconds && this.firstPendingAt !== null) {
+      const maxWaitLeftMs = this.firstPendingAt + this.options.maxWaitSeconds * 1000 - Date.now();
+      delayMs = Math.max(0, Math.min(delayMs, maxWaitLeftMs));
+    }
+    
+    this.debounceTimer = setTimeout(() => {
+      console.log('Debounce timer triggered, committing...');
+      this.commitPendingChanges();
+    }, delayMs);
+  }
+  
+  /**
+   * Commit now, or when the commit schedule next allows it
+   */
+  private commitWhenScheduled(): void {
+    const next = getNextCommitTime(this.options.commitSchedule, new Date());
+    if (!next) {
+      // Never allowed: changes stay pending until the watcher stops
+      return;
+    }
+    
+    const waitMs = next.getTime() - Date.now();
+    if (waitMs > 0) {
+      console.log('Outside the commit schedule, waiting until', next.toISOString());
+      this.debounceTimer = setTimeout(() => this.commitWhenScheduled(), waitMs);
+      return;
+    }
+    this.commitPendingChanges();
+  }
+  
+  /**
+   * With force, unlinks still waiting to be paired with an add are committed
+   * as they are. A label commits them as a resolved bulk change.
+   */
+  private async commitPendingChanges(force: boolean = false, label?: string): Promise<void> {
+    if (this.currentCommit || this.pendingChanges.size === 0) {
+      console.log('Skipping commit - isCommitting:', this.currentCommit !== null, 'pendingChanges:', this.pendingChanges.size);
+      return;
+    }
+    
+    // A folder whose drive went away would otherwise have every file committed as deleted
+    if (!fs.existsSync(this.watchPath)) {
+      console.warn(`Not committing, folder is unavailable: ${this.watchPath}`);
+      this.writeJournal();
+      if (this.options.onUnavailable) {
+        this.options.onUnavailable();
+      }
+      return;
+    }
+    
+    // Committing a deletion now would split a move that is still in progress
+    const renameWaitMs = force ? 0 : this.getRenameWaitMs();
+    if (renameWaitMs > 0) {
       if (this.debounceTimer) {
         clearTimeout(this.debounceTimer);
       }
-      
-      // Wait 2 seconds after last change before committing
       this.debounceTimer = setTimeout(() => {
-        console.log('Debounce timer triggered, committing...');
         this.commitPendingChanges();
-      }, 2000);
+      }, renameWaitMs);
+      return;
     }
-  }
-  
-  private async commitPendingChanges(): Promise<void> {
-    if (this.isCommitting || this.pendingChanges.size === 0) {
-      console.log('Skipping commit - isCommitting:', this.isCommitting, 'pendingChanges:', this.pendingChanges.size);
+    
+    // Unzipping an archive or switching a branch should not become an ordinary version
+    if (!label && this.isBurst()) {
+      this.holdBurst();
       return;
     }
     
-    this.isCommitting = true;
+    const batch = this.commitBatch(label);
+    this.currentCommit = batch.then(() => undefined);
+    let committed = false;
+    try {
+      committed = await batch;
+    } finally {
+      this.currentCommit = null;
+    }
+    
+    // Timers that fired during the commit were skipped, so pick up what arrived meanwhile
+    if (committed && this.watcher && this.options.commitStrategy !== 'periodic' && this.pendingChanges.size > 0) {
+      this.scheduleCommit();
+    }
+  }
+  
+  /**
+   * Commit everything pending. Returns false when the commit failed and the
+   * changes were put back.
+   */
+  private async commitBatch(label?: string): Promise<boolean> {
     console.log('Starting to commit pending changes...');
     
+    const filesToCommit = Array.from(this.pendingChanges);
+    const renames: FileRename[] = Array.from(this.pendingRenames).map(([to, from]) => ({ from, to }));
+    this.pendingChanges.clear();
+    this.pendingRenames.clear();
+    this.firstPendingAt = null;
+    
     try {
-      const filesToCommit = Array.from(this.pendingChanges);
-      this.pendingChanges.clear();
-      
       console.log('Files to commit:', filesToCommit);
       
+      const tracked = await this.applyFilePolicy(filesToCommit);
+      const trackedRenames = renames.filter(rename => tracked.includes(rename.from) && tracked.includes(rename.to));
+      
       // Commit the changes
-      const commitHash = await this.gitService.commit(filesToCommit);
+      const commitHash = await this.gitService.commit(tracked, trackedRenames, label);
       
       console.log('Commit hash received:', commitHash);
       
-      if (commitHash && this.options.onCommit) {
+      if (commitHash) {
         console.log('Calling onCommit callback');
-        this.options.onCommit(filesToCommit);
+        this.reportCommit(tracked);
       }
     } catch (error) {
       console.error('Failed to commit changes:', error);
-      if (this.options.onError) {
-        this.options.onError(error as Error);
+      
+      // Keep them pending (and journaled) so the next commit retries them. A path
+      // that is gone again is left to the startup catch-up, so it cannot fail every retry.
+      filesToCommit
+        .filter(file => fs.existsSync(path.join(this.watchPath, file)))
+        .forEach(file => this.pendingChanges.add(file));
+      if (this.pendingChanges.size > 0 && this.firstPendingAt === null) {
+        this.firstPendingAt = Date.now();
       }
-    } finally {
-      this.isCommitting = false;
+      renames.forEach(rename => {
+        if (this.pendingChanges.has(rename.to) && !this.pendingRenames.has(rename.to)) {
+          this.pendingRenames.set(rename.to, rename.from);
+        }
+      });
+      
+      this.reportError(error as Error);
+      
+      this.writeJournal();
+      return false;
+    }
+    
+    this.writeJournal();
+    return true;
+  }
+  
+  private isBurst(): boolean {
+    if (this.heldBurst && this.firstPendingAt !== null && this.firstPendingAt - this.heldBurst.heldAt < BURST_JOIN_MS) {
+      return true;
+    }
+    
+    const threshold = this.options.burstThreshold!;
+    return threshold > 0 && this.pendingChanges.size >= threshold;
+  }
+  
+  /**
+   * Move everything pending into the held bulk change
+   */
+  private holdBurst(): void {
+    if (!this.heldBurst) {
+      this.heldBurst = { paths: new Set(), renames: new Map(), detectedAt: new Date(), heldAt: 0 };
+    }
+    
+    const burst = this.heldBurst;
+    this.pendingChanges.forEach(filePath => burst.paths.add(filePath));
+    this.pendingRenames.forEach((from, to) => burst.renames.set(to, from));
+    burst.heldAt = Date.now();
+    this.pendingChanges.clear();
+    this.pendingRenames.clear();
+    this.firstPendingAt = null;
+    this.writeJournal();
+    this.scheduleStatusReport();
+    
+    console.warn(`Holding a bulk change of ${burst.paths.size} files in ${this.watchPath}`);
+    this.reportBulkChange();
+  }
+  
+  private reportBulkChange(): void {
+    const change = this.getBulkChange();
+    if (change && this.options.onBulkChange) {
+      this.options.onBulkChange(change);
+    }
+  }
+  
+  getBulkChange(): BulkChange | null {
+    if (!this.heldBurst) {
+      return null;
+    }
+    
+    return {
+      fileCount: this.heldBurst.paths.size,
+      samplePaths: Array.from(this.heldBurst.paths).slice(0, BULK_CHANGE_SAMPLE_SIZE),
+      detectedAt: this.heldBurst.detectedAt
+    };
+  }
+  
+  /**
+   * Ignore patterns covering the held bulk change: a whole folder where every
+   * file in it is part of the change, single files elsewhere
+   */
+  getBulkChangeExcludePatterns(): string[] {
+    if (!this.heldBurst) {
+      return [];
+    }
+    
+    const burstPaths = this.heldBurst.paths;
+    const foldersWithOtherFiles = new Set<string>();
+    for (const file of this.ignoreEngine.listFiles()) {
+      if (burstPaths.has(file)) continue;
+      let dir = path.posix.dirname(file);
+      while (dir !== '.' && !foldersWithOtherFiles.has(dir)) {
+        foldersWithOtherFiles.add(dir);
+        dir = path.posix.dirname(dir);
+      }
+    }
+    
+    const patterns = new Set<string>();
+    for (const filePath of burstPaths) {
+      // A deleted file has nothing left to ignore
+      if (!fs.existsSync(path.join(this.watchPath, filePath))) continue;
+      
+      const parts = filePath.split('/');
+      let pattern = toLiteralPattern(filePath);
+      for (let i = 1; i < parts.length; i++) {
+        const dir = parts.slice(0, i).join('/');
+        if (!foldersWithOtherFiles.has(dir)) {
+          pattern = `${toLiteralPattern(dir)}/`;
+          break;
+        }
+      }
+      patterns.add(pattern);
+    }
+    return Array.from(patterns);
+  }
+  
+  /**
+   * Commit the held bulk change as one labelled version, or drop it. Dropped
+   * files are versioned the next time they change.
+   */
+  async resolveBulkChange(action: 'commit' | 'discard'): Promise<void> {
+    const burst = this.heldBurst;
+    if (!burst) {
+      return;
     }
+    
+    // Remembered as they are now, so the next startup does not commit them anyway
+    const discardedHashes = action === 'discard' ? await this.gitService.hashWorkingFiles(Array.from(burst.paths)) : null;
+    this.heldBurst = null;
+    
+    if (discardedHashes) {
+      burst.paths.forEach(filePath => this.discardedChanges.set(filePath, discardedHashes.get(filePath) ?? null));
+    } else {
+      // Files created and removed again during the operation cannot be staged
+      const changed = new Set(await this.gitService.getChangedPaths());
+      burst.paths.forEach(filePath => {
+        if (changed.has(filePath)) this.pendingChanges.add(filePath);
+      });
+      burst.renames.forEach((from, to) => {
+        if (this.pendingChanges.has(to)) this.pendingRenames.set(to, from);
+      });
+      if (this.pendingChanges.size > 0 && this.firstPendingAt === null) {
+        this.firstPendingAt = Date.now();
+      }
+      
+      while (this.currentCommit) {
+        await this.currentCommit;
+      }
+      await this.commitPendingChanges(true, BULK_CHANGE_LABEL);
+    }
+    
+    this.writeJournal();
+    this.scheduleStatusReport();
+  }
+  
+  getStatus(): FolderStatus {
+    this.pruneEvents();
+    
+    // An error counts until a later commit succeeds
+    const failing = this.lastError !== null && (!this.lastCommitAt || this.lastError.at > this.lastCommitAt);
+    return {
+      state: failing ? 'error' : this.watchedFiles === null ? 'starting' : 'watching',
+      watchedFiles: this.watchedFiles,
+      eventsPerMinute: this.recentEvents.length,
+      pendingChanges: this.pendingChanges.size,
+      heldChanges: this.heldBurst ? this.heldBurst.paths.size : 0,
+      lastCommitAt: this.lastCommitAt,
+      lastError: this.lastError
+    };
+  }
+  
+  private recordEvent(): void {
+    this.recentEvents.push(Date.now());
+    this.pruneEvents();
+    this.scheduleStatusReport();
+  }
+  
+  private pruneEvents(): void {
+    const cutoff = Date.now() - 60 * 1000;
+    const firstRecent = this.recentEvents.findIndex(time => time > cutoff);
+    this.recentEvents.splice(0, firstRecent === -1 ? this.recentEvents.length : firstRecent);
+  }
+  
+  private reportCommit(files: string[]): void {
+    this.lastCommitAt = new Date();
+    this.scheduleStatusReport();
+    if (this.options.onCommit) {
+      this.options.onCommit(files);
+    }
+  }
+  
+  private reportError(error: Error): void {
+    this.lastError = { message: error.message, at: new Date() };
+    this.scheduleStatusReport();
+    if (this.options.onError) {
+      this.options.onError(error);
+    }
+  }
+  
+  // Bursts of events share one status report
+  private scheduleStatusReport(): void {
+    if (!this.options.onStatusChange || this.statusTimer) {
+      return;
+    }
+    
+    this.statusTimer = setTimeout(() => {
+      this.statusTimer = null;
+      this.options.onStatusChange!(this.getStatus());
+    }, STATUS_REPORT_INTERVAL_MS);
   }
   
   getPendingChanges(): string[] {
@@ -0,0 +1,168 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { WatchedFolder } from './ConfigService';
+
+// Kept in each repository's git directory, so the history knows which folder it belongs to
+const IDENTITY_FILE = 'local-versioning.json';
+
+// How far from the old location, and through how many folders, candidates are looked for
+const SEARCH_DEPTH = 3;
+const MAX_SEARCHED_DIRS = 5000;
+const SKIPPED_DIRS = new Set(['.git', 'node_modules', '.Trash', 'Library', 'AppData']);
+
+export const FOLDER_MISSING_REASON = 'The folder was moved, renamed or deleted';
+
+export interface RepositoryIdentity {
+  folderId: string;
+  folderPath: string; // Where the folder was when it was last watched
+  markedAt: string;
+}
+
+// A place a missing folder may have moved to, strongest match first
+export interface RelinkCandidate {
+  path: string;
+  match: 'identity' | 'repository' | 'name';
+  reason: string;
+}
+
+export interface MissingFolder {
+  folderId: string;
+  name: string;
+  path: string;
+  candidates: RelinkCandidate[];
+}
+
+const MATCH_ORDER: Record<RelinkCandidate['match'], number> = { identity: 0, repository: 1, name: 2 };
+
+/**
+ * The git directory of a folder: its .git directory, or where its .git file
+ * points when the history is kept elsewhere
+ */
+export function resolveGitDir(folderPath: string): string | null {
+  const dotGit = path.join(folderPath, '.git');
+  try {
+    const stats = fs.statSync(dotGit);
+    if (stats.isDirectory()) {
+      return dotGit;
+    }
+    
+    const match = /^gitdir:\s*(.+)$/m.exec(fs.readFileSync(dotGit, 'utf-8'));
+    return match ? path.resolve(folderPath, match[1].trim()) : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+export function readRepositoryIdentity(gitDir: string): RepositoryIdentity | null {
+  try {
+    const identity = JSON.parse(fs.readFileSync(path.join(gitDir, IDENTITY_FILE), 'utf-8'));
+    return typeof identity.folderId === 'string' ? identity : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Mark a repository as the history of a folder, unless it already is
+ */
+export function writeRepositoryIdentity(gitDir: string, folder: WatchedFolder): void {
+  const current = readRepositoryIdentity(gitDir);
+  if (current && current.folderId === folder.id && current.folderPath === folder.path) {
+    return;
+  }
+  
+  const identity: RepositoryIdentity = { folderId: folder.id, folderPath: folder.path, markedAt: new Date().toISOString() };
+  fs.writeFileSync(path.join(gitDir, IDENTITY_FILE), JSON.stringify(identity, null, 2));
+}
+
+/**
+ * Whether a folder is gone while the folder that held it is still there,
+ * as opposed to a drive or share that is not connected
+ */
+export function isFolderMissing(folderPath: string): boolean {
+  return !fs.existsSync(folderPath) && fs.existsSync(path.dirname(folderPath));
+}
+
+/**
+ * Why a folder cannot be relinked to a new location, or null when it can
+ */
+export function checkRelinkTarget(folder: WatchedFolder, newPath: string): string | null {
+  try {
+    if (!fs.statSync(newPath).isDirectory()) {
+      return 'The new location is not a folder';
+    }
+  } catch (error) {
+    return 'The new location does not exist';
+  }
+  
+  const gitDir = resolveGitDir(newPath);
+  if (!gitDir && !folder.customGitPath) {
+    return 'No version history was found in the new location';
+  }
+  
+  const identity = gitDir ? readRepositoryIdentity(gitDir) : null;
+  if (identity && identity.folderId !== folder.id) {
+    return `The history in the new location belongs to another folder (${identity.folderPath})`;
+  }
+  return null;
+}
+
+function describeCandidate(folder: WatchedFolder, dir: string): RelinkCandidate | null {
+  const gitDir = resolveGitDir(dir);
+  const identity = gitDir ? readRepositoryIdentity(gitDir) : null;
+  if (identity && identity.folderId === folder.id) {
+    return { path: dir, match: 'identity', reason: 'Its version history belongs to this folder' };
+  }
+  if (identity) {
+    return null; // Another folder's history
+  }
+  if (gitDir && folder.customGitPath && path.resolve(gitDir) === path.resolve(folder.customGitPath)) {
+    return { path: dir, match: 'repository', reason: "It uses this folder's history" };
+  }
+  if (path.basename(dir) === path.basename(folder.path)) {
+    return { path: dir, match: 'name', reason: 'It has the same name' };
+  }
+  return null;
+}
+
+/**
+ * Look around the old location, and in the home folder, for where a missing
+ * folder went
+ */
+export async function findRelinkCandidates(folder: WatchedFolder, watchedPaths: string[]): Promise<RelinkCandidate[]> {
+  const parent = path.dirname(folder.path);
+  const roots = Array.from(new Set([parent, path.dirname(parent), os.homedir()]));
+  const candidates = new Map<string, RelinkCandidate>();
+  const visited = new Set<string>();
+  
+  // Breadth first, so nearby folders are found before the search gives up
+  const queue: Array<{ dir: string; depth: number }> = roots.map(dir => ({ dir, depth: 0 }));
+  while (queue.length > 0 && visited.size < MAX_SEARCHED_DIRS) {
+    const { dir, depth } = queue.shift()!;
+    if (visited.has(dir)) continue;
+    visited.add(dir);
+    
+    let entries: fs.Dirent[];
+    try {
+      entries = await fs.promises.readdir(dir, { withFileTypes: true });
+    } catch (error) {
+      continue;
+    }
+    
+    for (const entry of entries) {
+      if (!entry.isDirectory() || SKIPPED_DIRS.has(entry.name)) continue;
+      
+      const child = path.join(dir, entry.name);
+      if (!watchedPaths.includes(child) && !candidates.has(child)) {
+        const candidate = describeCandidate(folder, child);
+        if (candidate) candidates.set(child, candidate);
+      }
+      if (depth + 1 < SEARCH_DEPTH && !entry.name.startsWith('.')) {
+        queue.push({ dir: child, depth: depth + 1 });
+      }
+    }
+  }
+  
+  return Array.from(candidates.values()).sort((a, b) => MATCH_ORDER[a.match] - MATCH_ORDER[b.match]);
+}
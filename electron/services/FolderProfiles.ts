@@ -0,0 +1,82 @@
+import { DEFAULT_RETENTION_BUCKETS } from './RetentionService';
+import type { FolderProfile, FolderProfileSettings, SavedFolder, WatchedFolder } from './ConfigService';
+
+// Settings a profile carries and folders inherit from the global defaults;
+// paths, names and on/off state stay with the folder
+export const PROFILE_SETTING_KEYS: Array<keyof FolderProfileSettings> = [
+  'commitStrategy',
+  'periodicInterval',
+  'idleMinutes',
+  'commitSchedule',
+  'ignorePatterns',
+  'watchSubfolders',
+  'usePolling',
+  'symlinkPolicy',
+  'debounceSeconds',
+  'stabilityThresholdMs',
+  'maxWaitSeconds',
+  'burstThreshold',
+  'retention',
+  'filePolicy'
+];
+
+// What a folder gets for settings that neither it nor the global defaults set
+export const BASE_FOLDER_SETTINGS: FolderProfileSettings = {
+  commitStrategy: 'on-save',
+  periodicInterval: 5,
+  ignorePatterns: [],
+  watchSubfolders: true
+};
+
+// Offered to everyone; cannot be changed or deleted
+export const BUILT_IN_PROFILES: FolderProfile[] = [
+  {
+    id: 'built-in:notes',
+    name: 'Notes vault',
+    builtIn: true,
+    settings: {
+      commitStrategy: 'on-idle',
+      idleMinutes: 5,
+      ignorePatterns: ['.obsidian/workspace*.json', '.trash/'],
+      retention: { enabled: true, buckets: DEFAULT_RETENTION_BUCKETS }
+    }
+  },
+  {
+    id: 'built-in:code',
+    name: 'Code project',
+    builtIn: true,
+    settings: {
+      commitStrategy: 'on-save',
+      ignorePatterns: ['node_modules/', 'dist/', 'build/', 'target/', '.venv/', '*.log'],
+      symlinkPolicy: 'link-only',
+      burstThreshold: 200,
+      filePolicy: { maxFileSizeMB: 50, rules: [] }
+    }
+  }
+];
+
+/**
+ * The profile settings of a folder, e.g. to save them as a new profile
+ */
+export function getProfileSettings(folder: Partial<WatchedFolder> | Partial<SavedFolder>): FolderProfileSettings {
+  const settings: Record<string, unknown> = {};
+  for (const key of PROFILE_SETTING_KEYS) {
+    if (folder[key] !== undefined) {
+      settings[key] = folder[key];
+    }
+  }
+  return settings as FolderProfileSettings;
+}
+
+/**
+ * A saved folder with the settings it doesn't override filled in from the
+ * global defaults
+ */
+export function resolveFolder(folder: SavedFolder, folderDefaults?: FolderProfileSettings): WatchedFolder {
+  return {
+    ...BASE_FOLDER_SETTINGS,
+    ...folderDefaults,
+    ...folder,
+    overriddenSettings: PROFILE_SETTING_KEYS.filter(key => folder[key] !== undefined)
+  } as WatchedFolder;
+}
@@ -1,23 +1,298 @@
-import simpleGit, { SimpleGit, LogResult } from 'simple-git';
+import simpleGit, { SimpleGit } from 'simple-git';
 import * as path from 'path';
 import * as fs from 'fs';
 import * as os from 'os';
 import * as crypto from 'crypto';
 
+export interface FileChange {
+  path: string;
+  status: 'added' | 'modified' | 'deleted' | 'renamed';
+  oldPath?: string; // Previous path when status is 'renamed'
+}
+
+export interface FileRename {
+  from: string;
+  to: string;
+}
+
 export interface Commit {
   hash: string;
   message: string;
   date: Date;
   author: string;
   changedFiles: string[];
+  fileChanges?: FileChange[];
+}
+
+export interface DetectedChanges {
+  commitHash: string;
+  date: Date;
+  changes: FileChange[];
+}
+
+export interface LogOptions {
+  cursor?: string; // Opaque cursor returned by a previous page
+  limit?: number;
+}
+
+export interface HistoryCommit {
+  hash: string;
+  tree: string;
+  parent?: string;
+  authorName: string;
+  authorEmail: string;
+  authorDate: string;
+  committerName: string;
+  committerEmail: string;
+  committerDate: string;
+  message: string;
+}
+
+export interface CommitRewrite {
+  drop?: boolean; // Leave the commit out; its changes fold into the next kept commit
+  tree?: string; // Replacement tree for the commit
+}
+
+export interface TreeEntry {
+  mode: string;
+  hash: string;
+}
+
+export interface FileHistoryOptions extends LogOptions {
+  followRenames?: boolean;
+}
+
+export interface CommitPage {
+  commits: Commit[];
+  nextCursor?: string; // Undefined when there are no more commits
+}
+
+export interface Bookmark {
+  id: string;
+  name: string;
+  description?: string;
+  commitHash: string;
+  createdAt: Date;
+}
+
+export interface TreeFile {
+  path: string;
+  mode: string;
+  hash: string;
+  size: number;
+}
+
+export interface TreeSnapshot {
+  commitHash: string;
+  commitDate: Date;
+  files: TreeFile[];
+}
+
+export interface GrepOptions {
+  regex: boolean; // Extended regular expression, otherwise a literal string
+  ignoreCase: boolean;
+}
+
+export interface GrepMatch {
+  revision: string;
+  path: string;
+  lineNumber: number;
+  text: string;
+}
+
+export interface FolderRestorePreview {
+  commitHash: string; // Version being restored
+  commitDate: Date;
+  subpath?: string; // Restricts the restore to this directory
+  added: string[]; // Missing now, brought back by the restore
+  modified: string[];
+  removed: string[]; // Present now, not in the restored version
+}
+
+export interface FolderRestoreResult {
+  preview: FolderRestorePreview;
+  commitHash: string; // The restore commit; its parent is the undo point
 }
 
 export interface DiffResult {
   oldContent: string;
   newContent: string;
   fileName: string;
+  filePath?: string; // Path relative to the watched folder
   oldCommit?: string;
   newCommit?: string;
+  baseHash?: string; // Blob hash of the file on disk when newContent was read from it
+}
+
+export interface DiffHunk {
+  index: number;
+  header: string; // The @@ line
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: string[]; // Patch lines, keeping their ' ', '-', '+' or '\' prefix
+}
+
+export interface FileHunks {
+  filePath: string;
+  commitHash: string;
+  baseHash: string; // Blob hash of the file on disk when the hunks were computed
+  hunks: DiffHunk[];
+}
+
+// Fields are separated by \x1f and commits by \x1e so that subjects and
+// paths (read with -z) never need any unquoting
+const LOG_FORMAT = '%x1e%H%x1f%an%x1f%aI%x1f%s';
+const HISTORY_FORMAT = '%x1e%H%x1f%T%x1f%P%x1f%an%x1f%ae%x1f%aI%x1f%cn%x1f%ce%x1f%cI%x1f%B';
+
+// Bookmarks are annotated tags: name on the first line, description below
+const BOOKMARK_TAG_PREFIX = 'bookmarks/';
+
+// Files hashed per git invocation, to stay below command line limits
+const HASH_BATCH_SIZE = 200;
+
+interface LogCursor {
+  from: string; // Commit the listing started at, so new commits don't shift pages
+  skip: number;
+}
+
+function encodeCursor(cursor: LogCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64');
+}
+
+function decodeCursor(cursor: string): LogCursor {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, 'base64').toString('utf-8'));
+    if (typeof parsed.from === 'string' && typeof parsed.skip === 'number') {
+      return parsed;
+    }
+  } catch (error) {
+    // Fall through to the error below
+  }
+  throw new Error('Invalid history cursor');
+}
+
+function toFileStatus(code: string): FileChange['status'] {
+  switch (code.charAt(0)) {
+    case 'A':
+    case 'C':
+      return 'added';
+    case 'D':
+      return 'deleted';
+    case 'R':
+      return 'renamed';
+    default:
+      return 'modified';
+  }
+}
+
+/**
+ * Parse `--name-status -z` tokens: a status code followed by one path, or two
+ * for renames and copies
+ */
+function parseNameStatus(tokens: string[]): FileChange[] {
+  const fileChanges: FileChange[] = [];
+  
+  for (let i = 0; i < tokens.length; i++) {
+    const code = tokens[i].replace(/^\n/, '');
+    if (!code) continue;
+    
+    const status = toFileStatus(code);
+    if (code.startsWith('R') || code.startsWith('C')) {
+      const oldPath = tokens[++i];
+      const newPath = tokens[++i];
+      fileChanges.push(status === 'renamed' ? { path: newPath, status, oldPath } : { path: newPath, status });
+    } else {
+      fileChanges.push({ path: tokens[++i], status });
+    }
+  }
+  
+  return fileChanges;
+}
+
+/**
+ * Parse `git log -z --name-status` output produced with LOG_FORMAT
+ */
+function parseLog(output: string): Commit[] {
+  const commits: Commit[] = [];
+  
+  for (const record of output.split('\x1e')) {
+    if (!record.trim()) continue;
+    
+    const [header, ...tokens] = record.split('\0');
+    const [hash, author, date, message] = header.split('\x1f');
+    const fileChanges = parseNameStatus(tokens);
+    
+    commits.push({
+      hash,
+      message,
+      date: new Date(date),
+      author,
+      changedFiles: fileChanges.map(change => change.path),
+      fileChanges
+    });
+  }
+  
+  return commits;
+}
+
+/**
+ * Split single-file `git diff` output into the file header and its hunks
+ */
+function parsePatch(output: string): { header: string[]; hunks: DiffHunk[] } {
+  const header: string[] = [];
+  const hunks: DiffHunk[] = [];
+  const lines = output.split('\n');
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  
+  for (const line of lines) {
+    const match = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/.exec(line);
+    if (match) {
+      hunks.push({
+        index: hunks.length,
+        header: line,
+        oldStart: parseInt(match[1], 10),
+        oldLines: match[2] === undefined ? 1 : parseInt(match[2], 10),
+        newStart: parseInt(match[3], 10),
+        newLines: match[4] === undefined ? 1 : parseInt(match[4], 10),
+        lines: []
+      });
+    } else if (hunks.length > 0) {
+      hunks[hunks.length - 1].lines.push(line);
+    } else {
+      header.push(line);
+    }
+  }
+  
+  return { header, hunks };
+}
+
+function parseHistory(output: string): HistoryCommit[] {
+  const commits: HistoryCommit[] = [];
+  
+  for (const record of output.split('\x1e')) {
+    if (!record.trim()) continue;
+    
+    const [hash, tree, parents, authorName, authorEmail, authorDate, committerName, committerEmail, committerDate, body] =
+      record.split('\x1f');
+    commits.push({
+      hash,
+      tree,
+      parent: parents.split(' ')[0] || undefined,
+      authorName,
+      authorEmail,
+      authorDate,
+      committerName,
+      committerEmail,
+      committerDate,
+      message: body.replace(/\n+$/, '')
+    });
+  }
+  
+  return commits;
 }
 
 export class GitService {
@@ -49,7 +324,12 @@ export class GitService {
     });
   }
   
-  async initialize(): Promise<void> {
+  /**
+   * Set up the repository if needed. Paths matching excludePatterns (the
+   * folder's ignore rules beyond its own .gitignore files) are kept out of
+   * every commit through the repository's info/exclude file.
+   */
+  async initialize(excludePatterns?: string[]): Promise<void> {
     try {
       console.log('Initializing git repository for:', this.workingDir);
       console.log('Git directory will be at:', this.repoPath);
@@ -90,18 +370,8 @@ export class GitService {
           console.log('Git user already configured or error:', error);
         }
         
-        // Create .gitignore if it doesn't exist
-        const gitignorePath = path.join(this.workingDir, '.gitignore');
-        if (!fs.existsSync(gitignorePath)) {
-          const defaultIgnores = [
-            '.DS_Store',
-            'node_modules/',
-            '.git/',
-            '*.tmp',
-            '*.log'
-          ].join('\n');
-          fs.writeFileSync(gitignorePath, defaultIgnores);
-          console.log('Created .gitignore');
+        if (excludePatterns) {
+          this.writeExcludeFile(excludePatterns);
         }
         
         // Check what files exist before initial commit
@@ -112,7 +382,7 @@ export class GitService {
         const status = await this.git.status();
         console.log('Initial git status:', status);
         
-        if (files.length > 1) { // More than just .gitignore
+        if (files.some(file => file !== '.git')) {
           await this.git.add('.');
           const statusAfterAdd = await this.git.status();
           console.log('Status after add:', statusAfterAdd);
@@ -128,6 +398,9 @@ export class GitService {
         }
       } else {
         console.log('Git already initialized');
+        if (excludePatterns) {
+          this.writeExcludeFile(excludePatterns);
+        }
       }
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
@@ -136,7 +409,30 @@ export class GitService {
     }
   }
   
-  async commit(changedFiles: string[]): Promise<string> {
+  /**
+   * Replace the repository's info/exclude file, which git applies like a
+   * .gitignore at the top of the folder without touching the folder itself
+   */
+  writeExcludeFile(patterns: string[]): void {
+    const infoDir = path.join(this.repoPath, 'info');
+    if (!fs.existsSync(infoDir)) {
+      fs.mkdirSync(infoDir, { recursive: true });
+    }
+    
+    const content = [
+      '# Written by Local Versioning from its ignore settings and .lvignore',
+      ...patterns
+    ].join('\n');
+    fs.writeFileSync(path.join(infoDir, 'exclude'), `${content}\n`);
+  }
+  
+  /**
+   * Commit the given files. Renames are staged as both halves (the old path's
+   * removal and the new path) in the same commit, so git records a rename and
+   * the file's history continues under its new name. A label replaces the
+   * file list in the message, e.g. for bulk changes.
+   */
+  async commit(changedFiles: string[], renames: FileRename[] = [], label?: string): Promise<string> {
     try {
       if (changedFiles.length === 0) {
         console.log('No files to commit');
@@ -166,7 +462,8 @@ export class GitService {
         await this.git.add('.');
       } else {
         // Subsequent commits - add specific files
-        await this.git.add(changedFiles);
+        const renamePaths = renames.flatMap(rename => [rename.from, rename.to]);
+        await this.git.add(Array.from(new Set([...changedFiles, ...renamePaths])));
       }
       
       // Check if there are changes to commit
@@ -180,10 +477,17 @@ export class GitService {
       
       // Create commit message
       const timestamp = new Date().toISOString().replace('T', ' ').substring(0, 19);
-      const fileList = changedFiles.map(f => path.basename(f)).join(', ');
-      const message = hasCommits 
-        ? `Auto-commit: ${timestamp} - [${fileList}]`
-        : `Initial commit: ${timestamp}`;
+      const movedFrom = new Set(renames.map(rename => rename.from));
+      const movedTo = new Map(renames.map(rename => [rename.to, rename.from]));
+      const fileList = changedFiles
+        .filter(f => !movedFrom.has(f))
+        .map(f => movedTo.has(f) ? `${movedTo.get(f)} → ${f}` : path.basename(f))
+        .join(', ');
+      const message = !hasCommits
+        ? `Initial commit: ${timestamp}`
+        : label
+        ? `${label}: ${timestamp} - [${changedFiles.length} files]`
+        : `Auto-commit: ${timestamp} - [${fileList}]`;
       
       console.log('Creating commit:', message);
       
@@ -198,61 +502,201 @@ export class GitService {
     }
   }
   
-  async getCommits(limit: number = 50): Promise<Commit[]> {
+  /**
+   * Where the repository lives, inside the folder or at its custom git path
+   */
+  getGitDir(): string {
+    return this.repoPath;
+  }
+  
+  isInitialized(): boolean {
+    return fs.existsSync(this.repoPath);
+  }
+  
+  /**
+   * Paths that differ from the last commit, including untracked files
+   */
+  async getChangedPaths(topLevelOnly: boolean = false): Promise<string[]> {
+    if (!(await this.getHeadHash())) {
+      return [];
+    }
+    
+    const dirty = await this.git.raw(['diff', '--name-only', '-z', 'HEAD']);
+    const untracked = await this.git.raw(['ls-files', '--others', '--exclude-standard', '-z']);
+    return `${dirty}${untracked}`.split('\0')
+      .filter(filePath => filePath.length > 0)
+      .filter(filePath => !topLevelOnly || !filePath.includes('/'));
+  }
+  
+  /**
+   * Commit whatever changed in the working tree since the last commit, e.g.
+   * edits made while the app was not running. With topLevelOnly, changes in
+   * subfolders are left alone, and excludePaths are never staged. Returns
+   * null when nothing changed.
+   */
+  async commitDetectedChanges(topLevelOnly: boolean = false, excludePaths: string[] = []): Promise<DetectedChanges | null> {
     try {
-      const log: LogResult = await this.git.log({ maxCount: limit });
+      const excluded = new Set(excludePaths);
+      const paths = (await this.getChangedPaths(topLevelOnly)).filter(filePath => !excluded.has(filePath));
       
-      const commits: Commit[] = [];
+      if (paths.length === 0) {
+        return null;
+      }
       
-      for (let i = 0; i < log.all.length; i++) {
-        const entry = log.all[i];
-        let changedFiles: string[] = [];
-        
-        try {
-          // Get files changed in this commit
-          // For the first commit, compare with empty tree
-          // For other commits, compare with parent
-          if (i === log.all.length - 1) {
-            // This is the first commit (oldest), show all files
-            const showResult = await this.git.show(['--name-only', '--pretty=format:', entry.hash]);
-            changedFiles = showResult.split('\n').filter(f => f.trim().length > 0);
-          } else {
-            // Compare with parent commit
-            const diffSummary = await this.git.diffSummary([`${entry.hash}^`, entry.hash]);
-            changedFiles = diffSummary.files.map(f => f.file);
-          }
-        } catch (error) {
-          // If diff fails, try to get files another way
-          console.log('Failed to get diff for commit, trying alternative method:', entry.hash);
-          try {
-            const showResult = await this.git.show(['--name-only', '--pretty=format:', entry.hash]);
-            changedFiles = showResult.split('\n').filter(f => f.trim().length > 0);
-          } catch (innerError) {
-            console.error('Failed to get files for commit:', entry.hash, innerError);
-            changedFiles = [];
-          }
-        }
-        
-        commits.push({
-          hash: entry.hash,
-          message: entry.message,
-          date: new Date(entry.date),
-          author: entry.author_name,
-          changedFiles
-        });
+      const pathspecs = topLevelOnly || excluded.size > 0 ? paths : ['.'];
+      await this.git.raw(['--literal-pathspecs', 'add', '-A', '--', ...pathspecs]);
+      const changes = parseNameStatus(
+        (await this.git.raw(['diff', '--cached', '--name-status', '--find-renames', '-z', 'HEAD'])).split('\0')
+      );
+      if (changes.length === 0) {
+        return null;
       }
       
-      return commits;
+      const date = new Date();
+      const timestamp = date.toISOString().replace('T', ' ').substring(0, 19);
+      const fileList = changes.map(change => path.basename(change.path)).join(', ');
+      const result = await this.git.commit(`Changes detected at startup: ${timestamp} - [${fileList}]`);
+      
+      return { commitHash: result.commit, date, changes };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to commit changes detected at startup: ${errorMessage}`);
+    }
+  }
+  
+  /**
+   * Get one page of the folder's history, newest first. Hashes, metadata and
+   * name-status for the whole page come from a single git invocation.
+   */
+  async getCommitLog(options: LogOptions = {}): Promise<CommitPage> {
+    try {
+      return await this.readLog(options);
     } catch (error) {
-      // If there are no commits yet, return empty array
       const errorMessage = error instanceof Error ? error.message : String(error);
-      if (errorMessage.includes('does not have any commits yet')) {
-        return [];
-      }
       throw new Error(`Failed to get commits: ${errorMessage}`);
     }
   }
   
+  async getCommits(limit: number = 50): Promise<Commit[]> {
+    const page = await this.getCommitLog({ limit });
+    return page.commits;
+  }
+  
+  /**
+   * Get the versions of a single file, newest first, using git's path-limited
+   * log. With followRenames the history continues past renames, and each
+   * commit's fileChanges holds the path the file had in that version.
+   */
+  async getFileHistory(filePath: string, options: FileHistoryOptions = {}): Promise<CommitPage> {
+    try {
+      if (options.followRenames === false) {
+        return await this.readLog(options, ['--', filePath]);
+      }
+      
+      // git stops following renames when combined with --skip, so the
+      // followed log is read whole and paged here
+      const cursor = await this.startCursor(options);
+      if (!cursor) {
+        return { commits: [] };
+      }
+      
+      const commits = await this.readFollowedLog(cursor.from, filePath);
+      const end = cursor.skip + (options.limit || 50);
+      return {
+        commits: commits.slice(cursor.skip, end),
+        nextCursor: commits.length > end ? encodeCursor({ from: cursor.from, skip: end }) : undefined
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to get file history: ${errorMessage}`);
+    }
+  }
+  
+  /**
+   * Run a single `git log` for one page and build the cursor for the next.
+   * The limit + 1th commit is only fetched to know whether more pages exist.
+   */
+  private async readLog(options: LogOptions, extraArgs: string[] = []): Promise<CommitPage> {
+    const limit = options.limit || 50;
+    const cursor = await this.startCursor(options);
+    if (!cursor) {
+      return { commits: [] };
+    }
+    
+    const commits = parseLog(await this.git.raw([
+      'log',
+      cursor.from,
+      `--skip=${cursor.skip}`,
+      `--max-count=${limit + 1}`,
+      '-z',
+      '--name-status',
+      '--find-renames',
+      `--format=${LOG_FORMAT}`,
+      ...extraArgs
+    ]));
+    const hasMore = commits.length > limit;
+    
+    return {
+      commits: commits.slice(0, limit),
+      nextCursor: hasMore ? encodeCursor({ from: cursor.from, skip: cursor.skip + limit }) : undefined
+    };
+  }
+  
+  /**
+   * Where a page starts: the given cursor, or HEAD for the first page.
+   * Null when there are no commits yet.
+   */
+  private async startCursor(options: LogOptions): Promise<LogCursor | null> {
+    if (options.cursor) {
+      return decodeCursor(options.cursor);
+    }
+    
+    const head = await this.getHeadHash();
+    return head ? { from: head, skip: 0 } : null;
+  }
+  
+  /**
+   * Every version of a file from a commit back, following renames
+   */
+  private async readFollowedLog(from: string, filePath: string): Promise<Commit[]> {
+    return parseLog(await this.git.raw([
+      'log',
+      from,
+      '-z',
+      '--name-status',
+      '--find-renames',
+      `--format=${LOG_FORMAT}`,
+      '--follow',
+      '--',
+      filePath
+    ]));
+  }
+  
+  private async getAllFileHistory(filePath: string): Promise<Commit[]> {
+    const head = await this.getHeadHash();
+    return head ? this.readFollowedLog(head, filePath) : [];
+  }
+  
+  /**
+   * When the latest version was made, or null before the first one
+   */
+  async getLastCommitDate(): Promise<Date | null> {
+    if (!(await this.getHeadHash())) {
+      return null;
+    }
+    return new Date((await this.git.raw(['log', '-1', '--format=%cI'])).trim());
+  }
+  
+  private async getHeadHash(): Promise<string | null> {
+    try {
+      const head = await this.git.raw(['rev-parse', '--verify', 'HEAD']);
+      return head.trim() || null;
+    } catch (error) {
+      // No commits yet
+      return null;
+    }
+  }
+  
   async getFileContent(commitHash: string, filePath: string): Promise<string> {
     try {
       const content = await this.git.show([`${commitHash}:${filePath}`]);
@@ -271,34 +715,27 @@ export class GitService {
       // Try to get content from specified commit
       return await this.getFileContent(commitHash, filePath);
     } catch (error) {
-      // File doesn't exist in this commit (probably deleted)
-      // Get all commits that touched this file and find the next one
-      console.log(`File not found in commit ${commitHash}, searching previous commits...`);
+      // File doesn't exist in this commit under this path (deleted or renamed).
+      // Walk the file's history from that commit towards older versions.
+      console.log(`File not found in commit ${commitHash}, searching file history...`);
       
       try {
-        const commits = await this.getCommits(100);
-        
-        // Find commits where this file was changed
-        const commitsWithFile: string[] = [];
-        for (const commit of commits) {
-          const changedFiles = commit.changedFiles || [];
-          if (changedFiles.some((f: string) => f === filePath)) {
-            commitsWithFile.push(commit.hash);
-          }
-        }
-        
-        // Find the index of the requested commit
-        const commitIndex = commitsWithFile.indexOf(commitHash);
+        const history = await this.getAllFileHistory(filePath);
+        const commitIndex = history.findIndex(commit => commit.hash === commitHash);
         
         if (commitIndex === -1) {
           throw new Error(`Commit ${commitHash} not found in file history`);
         }
         
-        // Try subsequent commits (older ones) until we find the file
-        for (let i = commitIndex + 1; i < commitsWithFile.length; i++) {
+        for (let i = commitIndex; i < history.length; i++) {
+          const change = history[i].fileChanges?.[0];
+          if (!change || change.status === 'deleted') {
+            continue;
+          }
+          
           try {
-            console.log(`Trying commit ${i}: ${commitsWithFile[i]}`);
-            return await this.getFileContent(commitsWithFile[i], filePath);
+            console.log(`Trying commit ${i}: ${history[i].hash} (${change.path})`);
+            return await this.getFileContent(history[i].hash, change.path);
           } catch (err) {
             // Continue to next commit
             continue;
@@ -319,6 +756,7 @@ export class GitService {
       const oldContent = await this.getFileContentSafe(oldCommit, filePath);
       
       let newContent: string;
+      let baseHash: string | undefined;
       if (newCommit) {
         // Use safe method for the new commit too
         newContent = await this.getFileContentSafe(newCommit, filePath);
@@ -326,6 +764,8 @@ export class GitService {
         // Try to read current file content from disk
         const fullPath = path.join(this.workingDir, filePath);
         if (fs.existsSync(fullPath)) {
+          // Hashed first, so an edit made while reading makes a later hunk restore refuse
+          baseHash = await this.hashWorkingFile(filePath);
           newContent = fs.readFileSync(fullPath, 'utf-8');
         } else {
           // File deleted from disk, show empty content
@@ -337,8 +777,10 @@ export class GitService {
         oldContent,
         newContent,
         fileName: path.basename(filePath),
+        filePath,
         oldCommit,
-        newCommit: newCommit || 'current'
+        newCommit: newCommit || 'current',
+        baseHash
       };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
@@ -372,6 +814,316 @@ export class GitService {
     }
   }
   
+  /**
+   * The changes between a stored version and the file on disk, split into
+   * hunks that can be put back one by one with restoreHunks. `baseHash` is the
+   * file's hash from the diff the user was shown; refuses when it has changed since.
+   */
+  async getDiffHunks(filePath: string, commitHash: string, baseHash: string): Promise<FileHunks> {
+    if (!fs.existsSync(path.join(this.workingDir, filePath))) {
+      throw new Error('The file no longer exists; restore the whole version instead');
+    }
+    if (await this.hashWorkingFile(filePath) !== baseHash) {
+      throw new Error('The file changed on disk after the diff was computed; reload the diff and try again');
+    }
+    
+    const { hunks } = await this.readPatch(filePath, commitHash);
+    return { filePath, commitHash, baseHash, hunks };
+  }
+  
+  /**
+   * Put the selected hunks of a stored version back into the file on disk and
+   * commit the result. Refuses when the file no longer has the content the
+   * hunks were computed from.
+   */
+  async restoreHunks(filePath: string, commitHash: string, hunkIndexes: number[], baseHash: string): Promise<string> {
+    const fullPath = path.join(this.workingDir, filePath);
+    if (!fs.existsSync(fullPath) || await this.hashWorkingFile(filePath) !== baseHash) {
+      throw new Error('The file changed on disk after the diff was computed; reload the diff and try again');
+    }
+    
+    const { header, hunks } = await this.readPatch(filePath, commitHash);
+    const selected = hunks.filter(hunk => hunkIndexes.includes(hunk.index));
+    if (selected.length === 0) {
+      throw new Error('No changes selected');
+    }
+    
+    // The hunks turn the stored version into the current file, so apply them in reverse
+    const patch = [...header, ...selected.flatMap(hunk => [hunk.header, ...hunk.lines])].join('\n') + '\n';
+    const patchFile = path.join(os.tmpdir(), `local-versioning-patch-${crypto.randomUUID()}`);
+    
+    try {
+      fs.writeFileSync(patchFile, patch);
+      await this.git.raw(['apply', '-R', '--whitespace=nowarn', patchFile]);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to restore changes: ${errorMessage}`);
+    } finally {
+      fs.rmSync(patchFile, { force: true });
+    }
+    
+    await this.git.raw(['--literal-pathspecs', 'add', '--', filePath]);
+    const timestamp = new Date().toISOString().replace('T', ' ').substring(0, 19);
+    const result = await this.git.commit(
+      `Restored ${selected.length} of ${hunks.length} changes in ${path.basename(filePath)} from ${commitHash.substring(0, 7)} at ${timestamp}`
+    );
+    return result.commit;
+  }
+  
+  /**
+   * The diff from a stored version to the file on disk. The stored side is
+   * read from the path the file had in that version, so versions from before
+   * a rename compare against their own content.
+   */
+  private async readPatch(filePath: string, commitHash: string): Promise<{ header: string[]; hunks: DiffHunk[] }> {
+    const versionPath = await this.findVersionPath(commitHash, filePath);
+    const entry = versionPath ? await this.getTreeEntry(commitHash, versionPath) : null;
+    if (!entry) {
+      throw new Error('This version of the file could not be found; restore the whole version instead');
+    }
+    
+    // A throwaway index holding only the stored version under the current name
+    const output = await this.withThrowawayIndex(async indexGit => {
+      await indexGit.raw(['update-index', '--add', '--cacheinfo', `${entry.mode},${entry.hash},${filePath}`]);
+      return indexGit.raw(['--literal-pathspecs', 'diff', '--no-color', '--no-ext-diff', '--no-renames', '--', filePath]);
+    });
+    
+    if (/^Binary files .* differ$/m.test(output)) {
+      throw new Error('Binary files can only be restored as a whole');
+    }
+    
+    return parsePatch(output);
+  }
+  
+  /**
+   * The path a file had in a version of it, following renames, or null when
+   * that version did not store it
+   */
+  async findVersionPath(commitHash: string, filePath: string): Promise<string | null> {
+    if (await this.getTreeEntry(commitHash, filePath)) {
+      return filePath;
+    }
+    
+    const version = (await this.getAllFileHistory(filePath)).find(commit => commit.hash === commitHash);
+    const change = version?.fileChanges?.[0];
+    return change && change.status !== 'deleted' ? change.path : null;
+  }
+  
+  /**
+   * Resolve a commit hash (or any revision) or a timestamp to a commit. For
+   * timestamps this is the last version at or before that moment.
+   */
+  async resolveCommit(target: string): Promise<string> {
+    try {
+      const hash = await this.git.raw(['rev-parse', '--verify', '--quiet', `${target}^{commit}`]);
+      if (hash.trim()) {
+        return hash.trim();
+      }
+    } catch (error) {
+      // Not a revision, try it as a timestamp
+    }
+    
+    const time = new Date(target);
+    if (isNaN(time.getTime())) {
+      throw new Error(`Unknown version: ${target}`);
+    }
+    
+    const head = await this.getHeadHash();
+    const hash = head
+      ? (await this.git.raw(['rev-list', '-1', '--first-parent', `--before=${time.toISOString()}`, head])).trim()
+      : '';
+    if (!hash) {
+      throw new Error(`No version exists at or before ${time.toLocaleString()}`);
+    }
+    return hash;
+  }
+  
+  /**
+   * Every commit reachable from HEAD with its changed files, newest first.
+   * With `pickaxe`, only commits (and files) where matches of the pattern
+   * were added or removed are listed.
+   */
+  async getChangeLog(pickaxe?: { pattern: string } & GrepOptions): Promise<Commit[]> {
+    const head = await this.getHeadHash();
+    if (!head) {
+      return [];
+    }
+    
+    const args = ['log', '-z', '--name-status', '--no-renames', `--format=${LOG_FORMAT}`];
+    if (pickaxe) {
+      args.push(pickaxe.regex ? `-G${pickaxe.pattern}` : `-S${pickaxe.pattern}`);
+      if (pickaxe.regex) {
+        args.push('--extended-regexp');
+      }
+      if (pickaxe.ignoreCase) {
+        args.push('--regexp-ignore-case');
+      }
+    }
+    args.push(head);
+    
+    return parseLog(await this.git.raw(args));
+  }
+  
+  /**
+   * Matching lines of `paths` in each of the given revisions (binary files skipped)
+   */
+  async grepRevisions(revisions: string[], paths: string[], pattern: string, options: GrepOptions): Promise<GrepMatch[]> {
+    if (revisions.length === 0 || paths.length === 0) {
+      return [];
+    }
+    
+    const args = ['--literal-pathspecs', 'grep', '-z', '-n', '-I', options.regex ? '-E' : '-F'];
+    if (options.ignoreCase) {
+      args.push('-i');
+    }
+    args.push('-e', pattern, ...revisions, '--', ...paths);
+    
+    let output: string;
+    try {
+      output = await this.git.raw(args);
+    } catch (error) {
+      // git grep exits with 1 when nothing matches
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      if (errorMessage.trim()) {
+        throw error;
+      }
+      return [];
+    }
+    
+    const matches: GrepMatch[] = [];
+    for (const line of output.split('\n')) {
+      // <revision>:<path>\0<line number>\0<text>
+      const [location, lineNumber, ...text] = line.split('\0');
+      if (!location || lineNumber === undefined) continue;
+      
+      const separator = location.indexOf(':');
+      matches.push({
+        revision: location.substring(0, separator),
+        path: location.substring(separator + 1),
+        lineNumber: parseInt(lineNumber, 10),
+        text: text.join('\0')
+      });
+    }
+    
+    return matches;
+  }
+  
+  /**
+   * All files in the tree of `commitHash`, optionally limited to `subpath`
+   */
+  async listTreeAt(commitHash: string, subpath?: string): Promise<TreeFile[]> {
+    const args = ['--literal-pathspecs', 'ls-tree', '-r', '-z', '--long', commitHash];
+    if (subpath) {
+      args.push('--', subpath.replace(/\/+$/, ''));
+    }
+    
+    const output = await this.git.raw(args);
+    const files: TreeFile[] = [];
+    
+    for (const record of output.split('\0')) {
+      if (!record) continue;
+      
+      // <mode> <type> <hash> <size>\t<path>
+      const tabIndex = record.indexOf('\t');
+      const [mode, type, hash, size] = record.substring(0, tabIndex).split(/\s+/);
+      if (type !== 'blob') continue;
+      
+      files.push({ path: record.substring(tabIndex + 1), mode, hash, size: parseInt(size, 10) || 0 });
+    }
+    
+    return files;
+  }
+  
+  /**
+   * The tree as of a commit hash or timestamp (see `resolveCommit`)
+   */
+  async getTreeSnapshot(target: string, subpath?: string): Promise<TreeSnapshot> {
+    const commitHash = await this.resolveCommit(target);
+    const commitDate = new Date((await this.git.raw(['show', '-s', '--format=%aI', commitHash])).trim());
+    return { commitHash, commitDate, files: await this.listTreeAt(commitHash, subpath) };
+  }
+  
+  /**
+   * What restoring the folder (or `subpath`) to `target` would change in the
+   * working directory, including uncommitted and untracked files
+   */
+  async previewFolderRestore(target: string, subpath?: string): Promise<FolderRestorePreview> {
+    const commitHash = await this.resolveCommit(target);
+    const pathspec = subpath ? subpath.replace(/\/+$/, '') : '.';
+    const preview: FolderRestorePreview = {
+      commitHash,
+      commitDate: new Date((await this.git.raw(['show', '-s', '--format=%aI', commitHash])).trim()),
+      subpath: subpath || undefined,
+      added: [],
+      modified: [],
+      removed: []
+    };
+    
+    // Changes from the target version to the working tree, so the restore undoes them
+    const diff = await this.git.raw([
+      '--literal-pathspecs', 'diff', '--name-status', '--no-renames', '-z', commitHash, '--', pathspec
+    ]);
+    const tokens = diff.split('\0');
+    for (let i = 0; i + 1 < tokens.length; i += 2) {
+      const status = tokens[i].trim();
+      const filePath = tokens[i + 1];
+      if (status === 'A') {
+        preview.removed.push(filePath);
+      } else if (status === 'D') {
+        preview.added.push(filePath);
+      } else {
+        preview.modified.push(filePath);
+      }
+    }
+    
+    const untracked = await this.git.raw([
+      '--literal-pathspecs', 'ls-files', '--others', '--exclude-standard', '-z', '--', pathspec
+    ]);
+    preview.removed.push(...untracked.split('\0').filter(filePath => filePath.length > 0));
+    
+    return preview;
+  }
+  
+  /**
+   * Restore the folder (or `subpath`) to `target` as a single labelled commit.
+   * Pending changes are committed first, so the restore commit's parent always
+   * holds the state from just before the restore.
+   */
+  async restoreFolderTo(target: string, subpath?: string): Promise<FolderRestoreResult> {
+    try {
+      const preview = await this.previewFolderRestore(target, subpath);
+      if (preview.added.length + preview.modified.length + preview.removed.length === 0) {
+        throw new Error('The folder already matches this version');
+      }
+      
+      const pathspec = subpath ? subpath.replace(/\/+$/, '') : '.';
+      const dirty = await this.git.raw(['--literal-pathspecs', 'diff', '--name-only', '-z', 'HEAD', '--', pathspec]);
+      const untracked = await this.git.raw([
+        '--literal-pathspecs', 'ls-files', '--others', '--exclude-standard', '-z', '--', pathspec
+      ]);
+      const pending = `${dirty}${untracked}`.split('\0').filter(filePath => filePath.length > 0);
+      if (pending.length > 0) {
+        await this.commit(pending);
+      }
+      
+      // Tracked paths missing from the source are deleted, so this covers removals too
+      await this.git.raw([
+        '--literal-pathspecs', 'restore', `--source=${preview.commitHash}`, '--staged', '--worktree', '--', pathspec
+      ]);
+      
+      const label = subpath ? pathspec : 'folder';
+      const timestamp = preview.commitDate.toISOString().replace('T', ' ').substring(0, 19);
+      const result = await this.git.commit(
+        `Restored ${label} to ${preview.commitHash.substring(0, 7)} (${timestamp})`
+      );
+      
+      return { preview, commitHash: result.commit };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to restore folder: ${errorMessage}`);
+    }
+  }
+  
   async getFileStorageInfo(filePath: string): Promise<any> {
     try {
       const fullPath = path.join(this.workingDir, filePath);
@@ -382,20 +1134,18 @@ export class GitService {
         currentSize = fs.statSync(fullPath).size;
       }
       
-      // Get all commits that modified this file
-      const allCommits = await this.getCommits(1000);
-      const commitsWithFile = allCommits.filter(commit =>
-        commit.changedFiles.includes(filePath)
-      );
+      // Get all commits that modified this file (following renames)
+      const commitsWithFile = await this.getAllFileHistory(filePath);
       
       // Get size of each version in Git
       const sizeByCommit: Array<{ hash: string; size: number }> = [];
       let versionsSize = 0;
       
       for (const commit of commitsWithFile) {
+        const versionPath = commit.fileChanges?.[0]?.path || filePath;
         try {
           // Get size of file at this commit
-          const sizeStr = await this.git.raw(['cat-file', '-s', `${commit.hash}:${filePath}`]);
+          const sizeStr = await this.git.raw(['cat-file', '-s', `${commit.hash}:${versionPath}`]);
           const size = parseInt(sizeStr.trim(), 10);
           sizeByCommit.push({ hash: commit.hash, size });
           versionsSize += size;
@@ -418,50 +1168,435 @@ export class GitService {
     }
   }
   
-  async cleanupOldCommits(filePath: string, commitsToDelete: string[]): Promise<void> {
-    try {
-      console.log(`Cleaning up ${commitsToDelete.length} commits for file: ${filePath}`);
+  /**
+   * Read the first-parent history of HEAD, oldest first, with everything
+   * needed to recreate each commit.
+   */
+  async getHistoryCommits(): Promise<HistoryCommit[]> {
+    const head = await this.getHeadHash();
+    if (!head) {
+      return [];
+    }
+    
+    const output = await this.git.raw(['log', '--first-parent', '--reverse', `--format=${HISTORY_FORMAT}`, head]);
+    return parseHistory(output);
+  }
+  
+  /**
+   * Create a commit with the author, committer and message of `commit`
+   */
+  private async createCommit(writer: SimpleGit, commit: HistoryCommit, tree: string, parent?: string): Promise<string> {
+    const args = ['commit-tree', tree, '-m', commit.message];
+    if (parent) {
+      args.push('-p', parent);
+    }
+    
+    const hash = await writer.env({
+      ...process.env,
+      GIT_AUTHOR_NAME: commit.authorName,
+      GIT_AUTHOR_EMAIL: commit.authorEmail,
+      GIT_AUTHOR_DATE: commit.authorDate,
+      GIT_COMMITTER_NAME: commit.committerName,
+      GIT_COMMITTER_EMAIL: commit.committerEmail,
+      GIT_COMMITTER_DATE: commit.committerDate
+    }).raw(args);
+    return hash.trim();
+  }
+  
+  /**
+   * Rebuild the first-parent history of HEAD. `transform` is called oldest
+   * first and may drop a commit or replace its tree. Commits before the first
+   * change keep their hashes, tags are moved onto the rewritten commits, and
+   * the branch is only updated if HEAD has not moved in the meantime.
+   * Returns the mapping from old to new hashes of the kept commits.
+   */
+  async rewriteHistory(
+    transform: (commit: HistoryCommit) => CommitRewrite | Promise<CommitRewrite>,
+    reason: string
+  ): Promise<Map<string, string>> {
+    const commits = await this.getHistoryCommits();
+    const commitMap = new Map<string, string>();
+    if (commits.length === 0) {
+      return commitMap;
+    }
+    
+    const oldHead = commits[commits.length - 1].hash;
+    const branch = (await this.git.raw(['symbolic-ref', 'HEAD'])).trim();
+    
+    // Dedicated instance: author/committer are passed through its environment
+    const writer = simpleGit({ baseDir: this.workingDir, binary: 'git' });
+    const dropped = new Set<string>();
+    let newParent: string | undefined;
+    
+    for (const commit of commits) {
+      const rewrite = await transform(commit);
+      if (rewrite.drop) {
+        dropped.add(commit.hash);
+        continue;
+      }
       
-      // Simple approach: Keep only the most recent commit by using filter-branch
-      // This will rewrite history to remove all but the most recent version
+      const tree = rewrite.tree || commit.tree;
+      let newHash: string;
       
-      if (commitsToDelete.length === 0) {
-        return;
+      if (tree === commit.tree && newParent === commit.parent) {
+        // Nothing changed up to here, keep the original commit
+        newHash = commit.hash;
+      } else {
+        newHash = await this.createCommit(writer, commit, tree, newParent);
       }
       
-      // Get all commits
-      const allCommits = await this.getCommits(1000);
-      const commitsWithFile = allCommits.filter(c =>
-        c.changedFiles.includes(filePath)
-      );
-      
-      if (commitsWithFile.length <= 1) {
-        console.log('Only one version exists, nothing to cleanup');
-        return;
+      commitMap.set(commit.hash, newHash);
+      newParent = newHash;
+    }
+    
+    if (!newParent) {
+      throw new Error('Rewrite would leave the history empty');
+    }
+    if (newParent === oldHead) {
+      return commitMap;
+    }
+    
+    // Compare-and-swap: fails if a commit landed while we were rewriting
+    await this.git.raw(['update-ref', '-m', `Local Versioning: ${reason}`, branch, newParent, oldHead]);
+    
+    await this.moveTags(commitMap, dropped, writer);
+    
+    return commitMap;
+  }
+  
+  /**
+   * Commits pointed at by tags (bookmarks), which history rewrites must keep
+   */
+  async getTaggedCommits(): Promise<Set<string>> {
+    const output = await this.git.raw(['for-each-ref', '--format=%(objectname) %(*objectname)', 'refs/tags']);
+    const hashes = new Set<string>();
+    
+    for (const line of output.split('\n')) {
+      const [objectName, targetName] = line.trim().split(' ');
+      if (objectName) {
+        hashes.add(targetName || objectName);
       }
+    }
+    
+    return hashes;
+  }
+  
+  async getBookmarks(): Promise<Bookmark[]> {
+    const output = await this.git.raw([
+      'for-each-ref',
+      '--format=%(refname:lstrip=2)%1f%(objectname)%1f%(*objectname)%1f%(creatordate:iso-strict)%1f%(contents)%1e',
+      `refs/tags/${BOOKMARK_TAG_PREFIX}`
+    ]);
+    const bookmarks: Bookmark[] = [];
+    
+    for (const record of output.split('\x1e')) {
+      if (!record.trim()) continue;
+      
+      const [tagName, objectName, targetName, createdAt, contents] = record.replace(/^\n/, '').split('\x1f');
+      const [name, ...description] = contents.replace(/\n+$/, '').split('\n');
+      bookmarks.push({
+        id: tagName.slice(BOOKMARK_TAG_PREFIX.length),
+        name: name || tagName,
+        description: description.join('\n').trim() || undefined,
+        commitHash: targetName || objectName,
+        createdAt: new Date(createdAt)
+      });
+    }
+    
+    return bookmarks.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+  
+  async addBookmark(commitHash: string, name: string, description?: string): Promise<Bookmark> {
+    const trimmedName = name.trim().split('\n')[0];
+    if (!trimmedName) {
+      throw new Error('Bookmark name is required');
+    }
+    
+    const id = Date.now().toString(36);
+    const message = description?.trim() ? `${trimmedName}\n\n${description.trim()}` : trimmedName;
+    await this.git.raw(['tag', '-a', `${BOOKMARK_TAG_PREFIX}${id}`, '-m', message, commitHash]);
+    
+    const bookmark = (await this.getBookmarks()).find(b => b.id === id);
+    if (!bookmark) {
+      throw new Error('Failed to create bookmark');
+    }
+    return bookmark;
+  }
+  
+  async removeBookmark(id: string): Promise<void> {
+    await this.git.raw(['tag', '-d', `${BOOKMARK_TAG_PREFIX}${id}`]);
+  }
+  
+  /**
+   * Point tags at the rewritten commits. Tags on dropped commits are deleted;
+   * callers only drop tagged commits when the user asked for it.
+   */
+  private async moveTags(commitMap: Map<string, string>, dropped: Set<string>, writer: SimpleGit): Promise<void> {
+    const output = await this.git.raw([
+      'for-each-ref',
+      '--format=%(refname)%1f%(objecttype)%1f%(objectname)%1f%(*objectname)%1f%(taggername)%1f%(taggeremail)%1f%(taggerdate:iso-strict)%1f%(contents)%1e',
+      'refs/tags'
+    ]);
+    
+    for (const record of output.split('\x1e')) {
+      if (!record.trim()) continue;
       
-      // Keep only the most recent commit
-      // Use filter-branch to rewrite history
-      const mostRecentCommit = commitsWithFile[0];
+      const [refName, objectType, objectName, targetName, taggerName, taggerEmail, taggerDate, contents] =
+        record.replace(/^\n/, '').split('\x1f');
+      const target = objectType === 'tag' ? targetName : objectName;
+      if (dropped.has(target)) {
+        await this.git.raw(['update-ref', '-d', refName]);
+        continue;
+      }
       
-      // Alternative: Just delete old commits using git filter-branch
-      // This is destructive but simpler than interactive rebase
-      await this.git.raw([
-        'filter-branch',
-        '--force',
-        '--index-filter',
-        `git ls-files -s | grep -v "${filePath}" | git update-index --index-info || true`,
-        '--prune-empty',
-        '--',
-        `${commitsToDelete[commitsToDelete.length - 1]}..HEAD`
-      ]);
+      const newTarget = commitMap.get(target);
+      if (!newTarget || newTarget === target) continue;
       
-      console.log(`Successfully cleaned up old versions`);
+      if (objectType === 'tag') {
+        // Recreate annotated tags with their original tagger and message
+        await writer.env({
+          ...process.env,
+          GIT_COMMITTER_NAME: taggerName,
+          GIT_COMMITTER_EMAIL: taggerEmail.replace(/^<|>$/g, ''),
+          GIT_COMMITTER_DATE: taggerDate
+        }).raw(['tag', '-f', '-a', refName.replace(/^refs\/tags\//, ''), '-m', contents.replace(/\n+$/, ''), newTarget]);
+      } else {
+        await this.git.raw(['update-ref', refName, newTarget, target]);
+      }
+    }
+  }
+  
+  /**
+   * The entry a path has after each first-parent commit that touched it,
+   * oldest first. A null entry means the commit deleted the path.
+   */
+  async getPathChanges(filePath: string): Promise<Map<string, TreeEntry | null>> {
+    const changes = new Map<string, TreeEntry | null>();
+    const head = await this.getHeadHash();
+    if (!head) {
+      return changes;
+    }
+    
+    const output = await this.git.raw([
+      '--literal-pathspecs',
+      'log',
+      '--first-parent',
+      '--reverse',
+      '--raw',
+      '--no-abbrev',
+      '--no-renames',
+      '-z',
+      '--format=%x1e%H',
+      head,
+      '--',
+      filePath
+    ]);
+    
+    for (const record of output.split('\x1e')) {
+      if (!record.trim()) continue;
       
+      const [hash, ...tokens] = record.split('\0');
+      for (let i = 0; i + 1 < tokens.length; i += 2) {
+        // :<old mode> <new mode> <old hash> <new hash> <status>
+        const [, newMode, , newHash, status] = tokens[i].replace(/^\n/, '').split(' ');
+        if (tokens[i + 1] !== filePath) continue;
+        changes.set(hash, status === 'D' ? null : { mode: newMode, hash: newHash });
+      }
+    }
+    
+    return changes;
+  }
+  
+  async getTreeEntry(commitish: string, filePath: string): Promise<TreeEntry | null> {
+    const output = await this.git.raw(['--literal-pathspecs', 'ls-tree', '-z', commitish, '--', filePath]);
+    const [info] = output.split('\0');
+    if (!info) {
+      return null;
+    }
+    
+    const [mode, , hash] = info.split('\t')[0].split(' ');
+    return { mode, hash };
+  }
+  
+  /**
+   * Blob hash the working tree file would get, to compare with stored versions
+   */
+  async hashWorkingFile(filePath: string): Promise<string> {
+    const hash = await this.git.raw(['hash-object', '--', filePath]);
+    return hash.trim();
+  }
+  
+  /**
+   * Blob hashes of many working tree files at once. Files that do not exist
+   * are left out.
+   */
+  async hashWorkingFiles(filePaths: string[]): Promise<Map<string, string>> {
+    const hashes = new Map<string, string>();
+    const existing = filePaths.filter(filePath => fs.existsSync(path.join(this.workingDir, filePath)));
+    
+    for (let i = 0; i < existing.length; i += HASH_BATCH_SIZE) {
+      const batch = existing.slice(i, i + HASH_BATCH_SIZE);
+      const output = await this.git.raw(['hash-object', '--', ...batch]);
+      output.trim().split('\n').forEach((hash, index) => hashes.set(batch[index], hash));
+    }
+    return hashes;
+  }
+  
+  async getObjectSize(hash: string): Promise<number> {
+    const size = await this.git.raw(['cat-file', '-s', hash]);
+    return parseInt(size.trim(), 10) || 0;
+  }
+  
+  /**
+   * Write a copy of `baseTree` with the given paths replaced (or removed when
+   * the entry is null). Uses a throwaway index, so the real index and working
+   * tree are never touched and paths are never passed through a shell.
+   */
+  async writeTreeWith(baseTree: string, entries: Map<string, TreeEntry | null>): Promise<string> {
+    return this.withThrowawayIndex(async indexGit => {
+      await indexGit.raw(['read-tree', baseTree]);
+      for (const [filePath, entry] of entries) {
+        if (entry) {
+          await indexGit.raw(['update-index', '--add', '--cacheinfo', `${entry.mode},${entry.hash},${filePath}`]);
+        } else {
+          await indexGit.raw(['update-index', '--force-remove', '--', filePath]);
+        }
+      }
+      return (await indexGit.raw(['write-tree'])).trim();
+    });
+  }
+  
+  private async withThrowawayIndex<T>(run: (indexGit: SimpleGit) => Promise<T>): Promise<T> {
+    const indexFile = path.join(os.tmpdir(), `local-versioning-index-${crypto.randomUUID()}`);
+    const indexGit = simpleGit({ baseDir: this.workingDir, binary: 'git' }).env({
+      ...process.env,
+      GIT_INDEX_FILE: indexFile
+    });
+    
+    try {
+      return await run(indexGit);
+    } finally {
+      if (fs.existsSync(indexFile)) {
+        fs.unlinkSync(indexFile);
+      }
+    }
+  }
+  
+  async getRefs(prefix: string): Promise<Array<{ name: string; hash: string }>> {
+    const output = await this.git.raw(['for-each-ref', '--format=%(refname) %(objectname)', prefix]);
+    return output
+      .split('\n')
+      .filter(line => line.trim().length > 0)
+      .map(line => {
+        const [name, hash] = line.trim().split(' ');
+        return { name, hash };
+      });
+  }
+  
+  async setRef(refName: string, hash: string, reason: string): Promise<void> {
+    await this.git.raw(['update-ref', '-m', `Local Versioning: ${reason}`, refName, hash]);
+  }
+  
+  async isAncestor(ancestor: string, commitish: string): Promise<boolean> {
+    try {
+      await this.git.raw(['merge-base', '--is-ancestor', ancestor, commitish]);
+      return true;
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      throw new Error(`Failed to cleanup commits: ${errorMessage}`);
+      return false;
+    }
+  }
+  
+  async deleteRef(refName: string): Promise<void> {
+    await this.git.raw(['update-ref', '-d', refName]);
+  }
+  
+  /**
+   * Pair the first-parent commits of a rewritten history with the originals
+   * they were made from, by author, dates and message. Both are walked in
+   * order, so originals the rewrite dropped are skipped over. Returns a
+   * mapping from rewritten to original hashes.
+   */
+  async matchRewrittenCommits(original: string, rewritten: string): Promise<Map<string, string>> {
+    const read = async (commitish: string) =>
+      parseHistory(await this.git.raw(['log', '--first-parent', '--reverse', `--format=${HISTORY_FORMAT}`, commitish]));
+    const originals = await read(original);
+    const describe = (commit: HistoryCommit) =>
+      [commit.authorName, commit.authorEmail, commit.authorDate, commit.committerDate, commit.message].join('\x1f');
+    
+    const matches = new Map<string, string>();
+    let index = 0;
+    for (const commit of await read(rewritten)) {
+      const key = describe(commit);
+      while (index < originals.length && describe(originals[index]) !== key) {
+        index++;
+      }
+      if (index === originals.length) break;
+      
+      matches.set(commit.hash, originals[index].hash);
+      index++;
+    }
+    return matches;
+  }
+  
+  /**
+   * Recreate the first-parent commits after `since` (exclusive) up to HEAD on
+   * top of `onto`, and move the branch there. Used to undo a rewrite while
+   * keeping the versions committed after it. Tags on the replayed commits
+   * follow them, and tags on commits in `rewound` move to the commit it maps
+   * them to. Returns the mapping from old to new hashes.
+   */
+  async replayCommitsOnto(
+    since: string,
+    onto: string,
+    reason: string,
+    rewound: Map<string, string> = new Map()
+  ): Promise<Map<string, string>> {
+    const head = await this.getHeadHash();
+    if (!head) {
+      throw new Error('Repository has no commits');
+    }
+    
+    const branch = (await this.git.raw(['symbolic-ref', 'HEAD'])).trim();
+    const output = await this.git.raw(['log', '--first-parent', '--reverse', `--format=${HISTORY_FORMAT}`, `${since}..${head}`]);
+    const writer = simpleGit({ baseDir: this.workingDir, binary: 'git' });
+    const commitMap = new Map(rewound);
+    let newHead = onto;
+    
+    for (const commit of parseHistory(output)) {
+      newHead = await this.createCommit(writer, commit, commit.tree, newHead);
+      commitMap.set(commit.hash, newHead);
+    }
+    
+    await this.git.raw(['update-ref', '-m', `Local Versioning: ${reason}`, branch, newHead, head]);
+    await this.moveTags(commitMap, new Set(), writer);
+    return commitMap;
+  }
+  
+  /**
+   * Size of the object database (loose objects and packs) in bytes
+   */
+  async getRepositorySize(): Promise<number> {
+    const output = await this.git.raw(['count-objects', '-v']);
+    let kib = 0;
+    
+    for (const line of output.split('\n')) {
+      const [key, value] = line.split(':').map(part => part.trim());
+      if (key === 'size' || key === 'size-pack' || key === 'size-garbage') {
+        kib += parseInt(value, 10) || 0;
+      }
     }
+    
+    return kib * 1024;
+  }
+  
+  /**
+   * Drop objects that are no longer reachable after a history rewrite.
+   * Objects younger than an hour are kept so an auto-commit that is being
+   * written at the same time cannot lose its blobs.
+   */
+  async reclaimSpace(): Promise<void> {
+    await this.git.raw(['reflog', 'expire', '--expire-unreachable=now', '--all']);
+    await this.git.raw(['gc', '--quiet', '--prune=1.hour.ago']);
   }
   
   async hasUncommittedChanges(): Promise<boolean> {
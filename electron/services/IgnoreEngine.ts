@@ -0,0 +1,506 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { SymlinkPolicy } from './ConfigService';
+
+export const LVIGNORE_FILE = '.lvignore';
+
+// Applied to every folder unless the global list is changed in the settings
+export const DEFAULT_IGNORE_PATTERNS = [
+  'node_modules/',
+  '.DS_Store',
+  '*.tmp',
+  '*.log',
+  '.local-versioning/'
+];
+
+// Previews for the settings stop looking after this many entries. Listing
+// the files to version never stops early.
+const MAX_LISTED_ENTRIES = 50000;
+
+export type IgnoreSource = 'global' | 'gitignore' | 'lvignore' | 'folder';
+
+interface IgnoreRule {
+  pattern: string; // As written, for explaining matches
+  source: IgnoreSource;
+  file?: string; // Ignore file the rule came from, relative to the folder
+  baseDir: string; // Rules from nested .gitignore files only apply below their directory
+  negated: boolean;
+  dirOnly: boolean;
+  regex: RegExp;
+}
+
+export interface IgnoreMatch {
+  pattern: string;
+  source: IgnoreSource;
+  file?: string;
+  path: string; // The path or parent directory the pattern matched
+}
+
+export interface IgnoreEngineOptions {
+  globalPatterns?: string[];
+  folderPatterns?: string[];
+  symlinkPolicy?: SymlinkPolicy; // Defaults to 'link-only'
+}
+
+/**
+ * A symbolic link or a file that is neither a regular file nor a directory,
+ * and what versioning does with it
+ */
+export interface SpecialEntry {
+  path: string;
+  type: 'symlink' | 'fifo' | 'socket' | 'device';
+  target?: string; // Where a link points, as written in the link
+  handling: SymlinkPolicy | 'skipped';
+  reason?: string; // Why it is skipped
+}
+
+interface WalkState {
+  count: number;
+  maxEntries: number; // Entries looked at before the walk gives up
+  onSpecial?: (entry: SpecialEntry) => void;
+}
+
+export interface IgnoredEntry {
+  path: string; // Directories end with '/'
+  match: IgnoreMatch;
+}
+
+function escapeRegex(char: string): string {
+  return /[.*+?^${}()|[\]\\/]/.test(char) ? `\\${char}` : char;
+}
+
+/**
+ * Translate the body of a gitignore pattern (no '!' or trailing '/') into a
+ * regular expression source
+ */
+function globToRegex(glob: string): string {
+  let regex = '';
+  
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    
+    if (char === '*') {
+      if (glob[i + 1] === '*' && (i === 0 || glob[i - 1] === '/')) {
+        if (glob[i + 2] === '/') {
+          regex += '(?:.*/)?'; // "**/" matches zero or more directories
+          i += 2;
+          continue;
+        }
+        if (i + 2 === glob.length) {
+          regex += '.*'; // Trailing "**" matches everything inside
+          i += 1;
+          continue;
+        }
+      }
+      while (glob[i + 1] === '*') i++;
+      regex += '[^/]*';
+    } else if (char === '?') {
+      regex += '[^/]';
+    } else if (char === '[') {
+      const end = glob.indexOf(']', i + 2);
+      if (end === -1) {
+        regex += '\\[';
+        continue;
+      }
+      let range = glob.slice(i + 1, end).replace(/\\/g, '\\\\');
+      if (range.startsWith('!')) {
+        range = `^${range.slice(1)}`;
+      }
+      regex += `[${range}]`;
+      i = end;
+    } else if (char === '\\' && i + 1 < glob.length) {
+      regex += escapeRegex(glob[++i]);
+    } else {
+      regex += escapeRegex(char);
+    }
+  }
+  
+  return regex;
+}
+
+function compileRule(line: string, source: IgnoreSource, baseDir: string = '', file?: string): IgnoreRule | null {
+  // Trailing spaces are ignored unless escaped
+  let pattern = line.replace(/(?<!\\)\s+$/, '');
+  if (!pattern || pattern.startsWith('#')) {
+    return null;
+  }
+  
+  const written = pattern;
+  const negated = pattern.startsWith('!');
+  if (negated) {
+    pattern = pattern.slice(1);
+  } else if (pattern.startsWith('\\!') || pattern.startsWith('\\#')) {
+    pattern = pattern.slice(1);
+  }
+  
+  const dirOnly = pattern.endsWith('/');
+  pattern = pattern.replace(/\/+$/, '');
+  if (!pattern) {
+    return null;
+  }
+  
+  // A slash anywhere but the end ties the pattern to the directory of its source
+  const anchored = pattern.includes('/');
+  pattern = pattern.replace(/^\/+/, '');
+  
+  const body = globToRegex(pattern);
+  return {
+    pattern: written,
+    source,
+    file,
+    baseDir,
+    negated,
+    dirOnly,
+    regex: new RegExp(anchored ? `^${body}$` : `^(?:.*/)?${body}$`)
+  };
+}
+
+function compileLines(lines: string[], source: IgnoreSource, baseDir: string = '', file?: string): IgnoreRule[] {
+  return lines
+    .map(line => compileRule(line, source, baseDir, file))
+    .filter((rule): rule is IgnoreRule => rule !== null);
+}
+
+function readLines(filePath: string): string[] | null {
+  try {
+    return fs.readFileSync(filePath, 'utf-8').split(/\r?\n/);
+  } catch (error) {
+    return null;
+  }
+}
+
+function toPosix(relativePath: string): string {
+  return relativePath.split(path.sep).join('/').replace(/^\.\/+/, '').replace(/\/+$/, '');
+}
+
+/**
+ * A pattern matching exactly one path relative to the folder
+ */
+export function toLiteralPattern(relativePath: string): string {
+  return `/${toPosix(relativePath).replace(/[\\*?[\]!#]/g, '\\$&').replace(/ $/, '\\ ')}`;
+}
+
+/**
+ * Test for a single pattern in .gitignore syntax. As with ignore rules, a
+ * pattern matching a directory matches everything inside it.
+ */
+export function createPathMatcher(pattern: string): (relativePath: string) => boolean {
+  const rule = compileRule(pattern, 'folder');
+  
+  return (relativePath: string) => {
+    if (!rule || rule.negated) {
+      return false;
+    }
+    
+    const segments = toPosix(relativePath).split('/');
+    return segments.some((_, index) => {
+      const isDirectory = index < segments.length - 1;
+      return (isDirectory || !rule.dirOnly) && rule.regex.test(segments.slice(0, index + 1).join('/'));
+    });
+  };
+}
+
+/**
+ * Decides which paths of a watched folder are left out of versioning. Rules
+ * use .gitignore syntax and are read from, in increasing precedence: the
+ * global default list, the folder's .lvignore file, the patterns configured
+ * for the folder and the folder's .gitignore files (deeper ones last). This is
+ * the order git applies info/exclude and .gitignore files in, so commits made
+ * by git agree. The last matching rule wins, and nothing inside an ignored
+ * directory can be re-included.
+ */
+export class IgnoreEngine {
+  private rootDir: string;
+  private globalRules: IgnoreRule[];
+  private folderRules: IgnoreRule[];
+  private lvignoreRules: IgnoreRule[] = [];
+  private gitignoreRules: Map<string, IgnoreRule[]> = new Map(); // directory -> rules of its .gitignore
+  private lvignoreLines: string[] = [];
+  private symlinkPolicy: SymlinkPolicy;
+  
+  constructor(rootDir: string, options: IgnoreEngineOptions = {}) {
+    this.rootDir = rootDir;
+    this.symlinkPolicy = options.symlinkPolicy || 'link-only';
+    this.globalRules = compileLines(options.globalPatterns || DEFAULT_IGNORE_PATTERNS, 'global');
+    this.folderRules = compileLines(options.folderPatterns || [], 'folder');
+    this.reload();
+  }
+  
+  static isIgnoreFile(relativePath: string): boolean {
+    const name = path.basename(relativePath);
+    return name === '.gitignore' || name === LVIGNORE_FILE;
+  }
+  
+  /**
+   * Forget cached ignore files, e.g. after a .gitignore or .lvignore changed
+   */
+  reload(): void {
+    this.gitignoreRules.clear();
+    this.lvignoreLines = readLines(path.join(this.rootDir, LVIGNORE_FILE)) || [];
+    this.lvignoreRules = compileLines(this.lvignoreLines, 'lvignore', '', LVIGNORE_FILE);
+  }
+  
+  isIgnored(relativePath: string, isDirectory?: boolean): boolean {
+    return this.explain(relativePath, isDirectory) !== null;
+  }
+  
+  /**
+   * The rule that ignores a path, either directly or through one of its
+   * parent directories, or null when the path is versioned
+   */
+  explain(relativePath: string, isDirectory?: boolean): IgnoreMatch | null {
+    const posixPath = toPosix(relativePath);
+    if (!posixPath || posixPath.startsWith('../')) {
+      return null;
+    }
+    
+    const segments = posixPath.split('/');
+    
+    // Git's own directory is never versioned, whatever the rules say
+    if (segments.includes('.git')) {
+      return { pattern: '.git', source: 'global', path: segments.slice(0, segments.indexOf('.git') + 1).join('/') };
+    }
+    
+    for (let depth = 1; depth <= segments.length; depth++) {
+      const candidate = segments.slice(0, depth).join('/');
+      const candidateIsDir = depth < segments.length ? true : isDirectory;
+      const match = this.matchPath(candidate, candidateIsDir);
+      if (match) {
+        return match;
+      }
+    }
+    
+    return null;
+  }
+  
+  /**
+   * Rules git does not read from the folder itself, in order, for the
+   * repository's info/exclude file
+   */
+  getExcludePatterns(): string[] {
+    return [
+      ...this.globalRules.map(rule => rule.pattern),
+      ...this.lvignoreLines.filter(line => line.trim() && !line.startsWith('#')),
+      ...this.folderRules.map(rule => rule.pattern)
+    ];
+  }
+  
+  /**
+   * Every versioned file in the folder, relative to it. Ignored directories
+   * are not descended into. Links count as files unless they are followed.
+   */
+  listFiles(): string[] {
+    const files: string[] = [];
+    this.walk('', (relativePath, isDirectory) => {
+      if (this.matchPath(relativePath, isDirectory)) {
+        return false;
+      }
+      if (!isDirectory) {
+        files.push(relativePath);
+      }
+      return true;
+    });
+    return files;
+  }
+  
+  /**
+   * Ignored files and directories with the rule that ignores each of them.
+   * Contents of an ignored directory are not listed separately.
+   */
+  listIgnored(limit: number = 200): { entries: IgnoredEntry[]; truncated: boolean } {
+    const entries: IgnoredEntry[] = [];
+    const state: WalkState = { count: 0, maxEntries: MAX_LISTED_ENTRIES };
+    let truncated = false;
+    
+    this.walk('', (relativePath, isDirectory) => {
+      if (truncated) {
+        return false;
+      }
+      
+      const match = this.matchPath(relativePath, isDirectory);
+      if (!match) {
+        return true;
+      }
+      
+      if (entries.length >= limit) {
+        truncated = true;
+      } else {
+        entries.push({ path: isDirectory ? `${relativePath}/` : relativePath, match });
+      }
+      return false;
+    }, state);
+    
+    return { entries, truncated: truncated || state.count > state.maxEntries };
+  }
+  
+  /**
+   * Links and special files outside ignored paths. Special files are always
+   * skipped: reading a FIFO blocks, and git cannot store any of them. Only an
+   * unlimited listing looks through the whole of a very large folder.
+   */
+  listSpecialEntries(limit: number = 200): SpecialEntry[] {
+    const special: SpecialEntry[] = [];
+    const state: WalkState = {
+      count: 0,
+      maxEntries: limit === Infinity ? Infinity : MAX_LISTED_ENTRIES,
+      onSpecial: entry => {
+        if (special.length < limit && !this.matchPath(entry.path, false)) {
+          special.push(entry);
+        }
+      }
+    };
+    
+    this.walk('', (relativePath, isDirectory) => !this.matchPath(relativePath, isDirectory), state);
+    return special;
+  }
+  
+  private walk(
+    dir: string,
+    visit: (relativePath: string, isDirectory: boolean) => boolean,
+    state: WalkState = { count: 0, maxEntries: Infinity },
+    ancestors: string[] = [] // Real paths of followed directories above, to stop link loops
+  ): void {
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(path.join(this.rootDir, dir), { withFileTypes: true });
+    } catch (error) {
+      console.warn('Error reading directory:', dir, error);
+      return;
+    }
+    
+    for (const entry of entries) {
+      if (entry.name === '.git' || ++state.count > state.maxEntries) continue;
+      
+      const relativePath = dir ? `${dir}/${entry.name}` : entry.name;
+      let isDirectory = entry.isDirectory();
+      let realPath: string | undefined;
+      
+      if (entry.isSymbolicLink()) {
+        const link = this.inspectLink(relativePath, ancestors);
+        if (state.onSpecial) state.onSpecial(link.entry);
+        if (link.entry.handling === 'ignore' || link.entry.handling === 'skipped') continue;
+        isDirectory = link.isDirectory;
+        realPath = link.realPath;
+      } else if (!isDirectory && !entry.isFile()) {
+        if (state.onSpecial) {
+          state.onSpecial({
+            path: relativePath,
+            type: entry.isFIFO() ? 'fifo' : entry.isSocket() ? 'socket' : 'device',
+            handling: 'skipped',
+            reason: 'Not a regular file'
+          });
+        }
+        continue;
+      }
+      
+      if (visit(relativePath, isDirectory) && isDirectory) {
+        // Loops are only possible through followed links
+        const followedAncestors = this.symlinkPolicy === 'follow'
+          ? [...ancestors, realPath || fs.realpathSync(path.join(this.rootDir, relativePath))]
+          : ancestors;
+        this.walk(relativePath, visit, state, followedAncestors);
+      }
+    }
+  }
+  
+  /**
+   * What the link policy does with a link. Followed links that point nowhere,
+   * at a special file or at a folder containing them are skipped.
+   */
+  private inspectLink(relativePath: string, ancestors: string[]): { entry: SpecialEntry; isDirectory: boolean; realPath?: string } {
+    const fullPath = path.join(this.rootDir, relativePath);
+    const entry: SpecialEntry = { path: relativePath, type: 'symlink', handling: this.symlinkPolicy };
+    try {
+      entry.target = fs.readlinkSync(fullPath);
+    } catch (error) {
+      // Described without a target
+    }
+    
+    if (this.symlinkPolicy !== 'follow') {
+      return { entry, isDirectory: false };
+    }
+    
+    let stats: fs.Stats;
+    let realPath: string;
+    try {
+      stats = fs.statSync(fullPath);
+      realPath = fs.realpathSync(fullPath);
+    } catch (error) {
+      return { entry: { ...entry, handling: 'skipped', reason: 'The link points nowhere' }, isDirectory: false };
+    }
+    
+    if (stats.isDirectory()) {
+      const rootPath = fs.realpathSync(this.rootDir);
+      const containsLink = [rootPath, ...ancestors].some(dir => dir === realPath || dir.startsWith(`${realPath}${path.sep}`));
+      if (containsLink) {
+        return { entry: { ...entry, handling: 'skipped', reason: 'The link loops back to a folder containing it' }, isDirectory: false };
+      }
+      return { entry, isDirectory: true, realPath };
+    }
+    
+    if (!stats.isFile()) {
+      return { entry: { ...entry, handling: 'skipped', reason: 'The link points at a special file' }, isDirectory: false };
+    }
+    return { entry, isDirectory: false };
+  }
+  
+  private matchPath(posixPath: string, isDirectory?: boolean): IgnoreMatch | null {
+    return this.matchRules(this.rulesFor(posixPath), posixPath, isDirectory);
+  }
+  
+  private matchRules(rules: IgnoreRule[], posixPath: string, isDirectory?: boolean): IgnoreMatch | null {
+    let directory = isDirectory;
+    
+    for (let i = rules.length - 1; i >= 0; i--) {
+      const rule = rules[i];
+      if (rule.baseDir && !posixPath.startsWith(`${rule.baseDir}/`)) continue;
+      
+      const target = rule.baseDir ? posixPath.slice(rule.baseDir.length + 1) : posixPath;
+      if (!rule.regex.test(target)) continue;
+      
+      if (rule.dirOnly) {
+        if (directory === undefined) {
+          directory = this.isDirectoryOnDisk(posixPath);
+        }
+        if (!directory) continue;
+      }
+      
+      return rule.negated ? null : { pattern: rule.pattern, source: rule.source, file: rule.file, path: posixPath };
+    }
+    
+    return null;
+  }
+  
+  /**
+   * Rules that can apply to a path, lowest precedence first
+   */
+  private rulesFor(posixPath: string): IgnoreRule[] {
+    const rules = [...this.globalRules, ...this.lvignoreRules, ...this.folderRules];
+    const segments = posixPath.split('/');
+    
+    for (let depth = 0; depth < segments.length; depth++) {
+      rules.push(...this.getGitignoreRules(segments.slice(0, depth).join('/')));
+    }
+    
+    return rules;
+  }
+  
+  private getGitignoreRules(dir: string): IgnoreRule[] {
+    let rules = this.gitignoreRules.get(dir);
+    if (!rules) {
+      const file = dir ? `${dir}/.gitignore` : '.gitignore';
+      const lines = readLines(path.join(this.rootDir, file));
+      rules = lines ? compileLines(lines, 'gitignore', dir, file) : [];
+      this.gitignoreRules.set(dir, rules);
+    }
+    return rules;
+  }
+  
+  private isDirectoryOnDisk(posixPath: string): boolean {
+    try {
+      return fs.statSync(path.join(this.rootDir, posixPath)).isDirectory();
+    } catch (error) {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,344 @@
+import { GitService, TreeEntry } from './GitService';
+import type { WatchedFolder } from './ConfigService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const BACKUP_PREFIX = 'refs/local-versioning/purge-backups/';
+
+export interface PurgeVersion {
+  hash: string;
+  date: string;
+  message: string;
+  size: number;
+}
+
+export interface PurgePreview {
+  filePath: string;
+  versions: PurgeVersion[];
+  refused: Array<{ hash: string; reason: string; bookmarked?: boolean }>;
+  rewrittenCommits: number;
+  bytesAffected: number;
+}
+
+export interface PurgeBackup {
+  id: string;
+  folderId: string;
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+export interface PurgeResult {
+  preview: PurgePreview;
+  backup?: PurgeBackup;
+}
+
+export interface PurgeServiceOptions {
+  getFolders: () => WatchedFolder[];
+  getGitService: (folderId: string) => GitService;
+  checkIntervalHours?: number;
+  onError?: (folderId: string, error: Error) => void;
+}
+
+function sameEntry(a: TreeEntry | null, b: TreeEntry | null): boolean {
+  return a === b || (!!a && !!b && a.mode === b.mode && a.hash === b.hash);
+}
+
+/**
+ * Backup ids are `<created ms>-<expires ms>`, so the refs alone describe them
+ */
+function parseBackupId(folderId: string, id: string): PurgeBackup | null {
+  const match = /^(\d+)-(\d+)$/.exec(id);
+  if (!match) {
+    return null;
+  }
+  
+  return {
+    id,
+    folderId,
+    createdAt: new Date(parseInt(match[1], 10)),
+    expiresAt: new Date(parseInt(match[2], 10))
+  };
+}
+
+/**
+ * Removes chosen versions of a single file from a folder's history. Every
+ * commit from the first purged version onwards is rewritten; the file keeps
+ * its previous content in the commits that used to contain a purged version.
+ * The old history is kept under a backup ref until it expires.
+ */
+export class PurgeService {
+  private options: PurgeServiceOptions;
+  private timer: NodeJS.Timeout | null = null;
+  private running: Set<string> = new Set();
+  
+  constructor(options: PurgeServiceOptions) {
+    this.options = options;
+  }
+  
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    
+    this.expireAll();
+    
+    const intervalMs = (this.options.checkIntervalHours || 6) * 60 * 60 * 1000;
+    this.timer = setInterval(() => {
+      this.expireAll();
+    }, intervalMs);
+  }
+  
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+  
+  /**
+   * Dry run: which versions would be removed, which are refused and why.
+   * Bookmarked versions are refused unless `includeBookmarked` is set.
+   */
+  async previewPurge(
+    folderId: string,
+    filePath: string,
+    commitHashes: string[],
+    includeBookmarked: boolean = false
+  ): Promise<PurgePreview> {
+    const gitService = this.options.getGitService(folderId);
+    const changes = await gitService.getPathChanges(filePath);
+    const commits = await gitService.getHistoryCommits();
+    const tagged = includeBookmarked ? new Set<string>() : await gitService.getTaggedCommits();
+    const commitsByHash = new Map(commits.map(commit => [commit.hash, commit]));
+    
+    const changeHashes = Array.from(changes.keys());
+    const latestChange = changeHashes[changeHashes.length - 1];
+    const refused: PurgePreview['refused'] = [];
+    const selected = new Set<string>();
+    
+    for (const hash of commitHashes) {
+      const entry = changes.get(hash);
+      if (!entry) {
+        // Purging rewrites one path, so versions from before a rename are out of reach
+        const versionPath = await gitService.findVersionPath(hash, filePath).catch(() => null);
+        refused.push({
+          hash,
+          reason: versionPath && versionPath !== filePath
+            ? `Stored under a previous name (${versionPath})`
+            : 'Not a stored version of this file'
+        });
+      } else if (hash === latestChange) {
+        refused.push({ hash, reason: 'The current version cannot be purged' });
+      } else if (tagged.has(hash)) {
+        refused.push({ hash, reason: 'Bookmarked version', bookmarked: true });
+      } else {
+        selected.add(hash);
+      }
+    }
+    
+    // Blobs still used by a kept version are not freed by the purge
+    const keptBlobs = new Set<string>();
+    for (const [hash, entry] of changes) {
+      if (entry && !selected.has(hash)) {
+        keptBlobs.add(entry.hash);
+      }
+    }
+    
+    const versions: PurgeVersion[] = [];
+    const countedBlobs = new Set<string>();
+    let bytesAffected = 0;
+    
+    for (const [hash, entry] of changes) {
+      if (!entry || !selected.has(hash)) continue;
+      
+      const size = await gitService.getObjectSize(entry.hash);
+      if (!keptBlobs.has(entry.hash) && !countedBlobs.has(entry.hash)) {
+        countedBlobs.add(entry.hash);
+        bytesAffected += size;
+      }
+      
+      const commit = commitsByHash.get(hash);
+      versions.push({
+        hash,
+        date: commit ? commit.committerDate : '',
+        message: commit ? commit.message : '',
+        size
+      });
+    }
+    
+    const firstIndex = commits.findIndex(commit => selected.has(commit.hash));
+    
+    return {
+      filePath,
+      versions,
+      refused,
+      rewrittenCommits: firstIndex === -1 ? 0 : commits.length - firstIndex,
+      bytesAffected
+    };
+  }
+  
+  /**
+   * Remove exactly the given versions of a file. With `backupDays` > 0 the
+   * previous history stays restorable for that long; with 0 the space is
+   * reclaimed immediately.
+   */
+  async purgeVersions(
+    folderId: string,
+    filePath: string,
+    commitHashes: string[],
+    backupDays: number = 7,
+    includeBookmarked: boolean = false
+  ): Promise<PurgeResult> {
+    if (this.running.has(folderId)) {
+      throw new Error('A purge is already running for this folder');
+    }
+    
+    this.running.add(folderId);
+    try {
+      const preview = await this.previewPurge(folderId, filePath, commitHashes, includeBookmarked);
+      if (preview.versions.length === 0) {
+        throw new Error('None of the selected versions can be purged');
+      }
+      
+      const gitService = this.options.getGitService(folderId);
+      const changes = await gitService.getPathChanges(filePath);
+      const purged = new Set(preview.versions.map(version => version.hash));
+      const tagged = await gitService.getTaggedCommits();
+      const oldHead = (await gitService.getHistoryCommits()).pop()!.hash;
+      
+      let originalEntry: TreeEntry | null = null;
+      let newEntry: TreeEntry | null = null;
+      let previousTree: string | undefined;
+      
+      const commitMap = await gitService.rewriteHistory(async commit => {
+        if (changes.has(commit.hash)) {
+          originalEntry = changes.get(commit.hash)!;
+          if (!purged.has(commit.hash)) {
+            newEntry = originalEntry;
+          }
+        }
+        
+        let tree = commit.tree;
+        if (!sameEntry(originalEntry, newEntry)) {
+          tree = await gitService.writeTreeWith(commit.tree, new Map([[filePath, newEntry]]));
+        }
+        
+        // A commit that only stored the purged version has nothing left to record.
+        // Bookmarked ones are kept (with the previous content) so the bookmark survives.
+        if (purged.has(commit.hash) && tree === previousTree && !tagged.has(commit.hash)) {
+          return { drop: true };
+        }
+        
+        previousTree = tree;
+        return { tree };
+      }, `purge ${preview.versions.length} version(s) of ${filePath}`);
+      
+      const newHead = Array.from(commitMap.values()).pop()!;
+      let backup: PurgeBackup | undefined;
+      
+      if (backupDays > 0) {
+        const createdAt = Date.now();
+        const id = `${createdAt}-${createdAt + backupDays * DAY_MS}`;
+        await gitService.setRef(`${BACKUP_PREFIX}${id}/before`, oldHead, 'purge backup');
+        await gitService.setRef(`${BACKUP_PREFIX}${id}/after`, newHead, 'purge backup');
+        backup = parseBackupId(folderId, id)!;
+      } else {
+        await gitService.reclaimSpace();
+      }
+      
+      console.log(`Purged ${preview.versions.length} version(s) of ${filePath} in folder ${folderId}`);
+      return { preview, backup };
+    } finally {
+      this.running.delete(folderId);
+    }
+  }
+  
+  async listBackups(folderId: string): Promise<PurgeBackup[]> {
+    const gitService = this.options.getGitService(folderId);
+    const refs = await gitService.getRefs(BACKUP_PREFIX);
+    const backups = new Map<string, PurgeBackup>();
+    
+    for (const ref of refs) {
+      const id = ref.name.slice(BACKUP_PREFIX.length).split('/')[0];
+      const backup = parseBackupId(folderId, id);
+      if (backup) {
+        backups.set(id, backup);
+      }
+    }
+    
+    return Array.from(backups.values()).sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+  
+  /**
+   * Put the purged versions back. Versions committed after the purge are
+   * replayed on top of the restored history, so nothing newer is lost.
+   */
+  async restoreBackup(folderId: string, backupId: string): Promise<void> {
+    if (this.running.has(folderId)) {
+      throw new Error('A purge is already running for this folder');
+    }
+    
+    this.running.add(folderId);
+    try {
+      const gitService = this.options.getGitService(folderId);
+      const refs = await gitService.getRefs(`${BACKUP_PREFIX}${backupId}/`);
+      const before = refs.find(ref => ref.name.endsWith('/before'));
+      const after = refs.find(ref => ref.name.endsWith('/after'));
+      
+      if (!before || !after) {
+        throw new Error('Purge backup not found');
+      }
+      
+      const head = (await gitService.getHistoryCommits()).pop();
+      if (!head || !(await gitService.isAncestor(after.hash, head.hash))) {
+        throw new Error('History was rewritten again after this purge; the backup can no longer be restored');
+      }
+      
+      // Tags moved onto the purged history go back to the commits they came from
+      const rewound = await gitService.matchRewrittenCommits(before.hash, after.hash);
+      await gitService.replayCommitsOnto(after.hash, before.hash, 'restore purge backup', rewound);
+      await this.deleteBackup(gitService, backupId);
+    } finally {
+      this.running.delete(folderId);
+    }
+  }
+  
+  async expireBackups(folderId: string): Promise<number> {
+    const gitService = this.options.getGitService(folderId);
+    const now = Date.now();
+    let expired = 0;
+    
+    for (const backup of await this.listBackups(folderId)) {
+      if (backup.expiresAt.getTime() <= now) {
+        await this.deleteBackup(gitService, backup.id);
+        expired++;
+      }
+    }
+    
+    if (expired > 0) {
+      await gitService.reclaimSpace();
+    }
+    
+    return expired;
+  }
+  
+  private async expireAll(): Promise<void> {
+    for (const folder of this.options.getFolders()) {
+      if (this.running.has(folder.id)) continue;
+      
+      try {
+        await this.expireBackups(folder.id);
+      } catch (error) {
+        console.error(`Failed to expire purge backups for ${folder.path}:`, error);
+        if (this.options.onError) {
+          this.options.onError(folder.id, error as Error);
+        }
+      }
+    }
+  }
+  
+  private async deleteBackup(gitService: GitService, backupId: string): Promise<void> {
+    for (const ref of await gitService.getRefs(`${BACKUP_PREFIX}${backupId}/`)) {
+      await gitService.deleteRef(ref.name);
+    }
+  }
+}
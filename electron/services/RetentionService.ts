@@ -0,0 +1,180 @@
+import { GitService, HistoryCommit } from './GitService';
+import type { WatchedFolder, RetentionBucket, RetentionPolicy } from './ConfigService';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Keep everything for 24 hours, hourly for a week, daily for a month, weekly after that
+export const DEFAULT_RETENTION_BUCKETS: RetentionBucket[] = [
+  { maxAgeHours: 24, intervalHours: 0 },
+  { maxAgeHours: 24 * 7, intervalHours: 1 },
+  { maxAgeHours: 24 * 30, intervalHours: 24 },
+  { intervalHours: 24 * 7 }
+];
+
+export interface ThinningReport {
+  folderId: string;
+  keptCount: number;
+  removedCount: number;
+  bytesBefore: number;
+  bytesAfter: number;
+  reclaimedBytes: number;
+  date: Date;
+}
+
+export interface RetentionServiceOptions {
+  getFolders: () => WatchedFolder[];
+  getGitService: (folderId: string) => GitService;
+  checkIntervalHours?: number;
+  onThinned?: (report: ThinningReport) => void;
+  onError?: (folderId: string, error: Error) => void;
+}
+
+/**
+ * Decide which commits a retention policy keeps. Within each bucket only the
+ * newest commit of every interval slot survives; the newest commit overall and
+ * protected commits (bookmarks) are always kept.
+ */
+export function selectCommitsToKeep(
+  commits: HistoryCommit[],
+  buckets: RetentionBucket[],
+  protectedHashes: Set<string>,
+  now: Date = new Date()
+): Set<string> {
+  const keep = new Set<string>();
+  const seenSlots = new Set<string>();
+  
+  // Walk newest first so the first commit seen in a slot is the one kept
+  for (let i = commits.length - 1; i >= 0; i--) {
+    const commit = commits[i];
+    const time = new Date(commit.committerDate).getTime();
+    const ageHours = (now.getTime() - time) / HOUR_MS;
+    
+    if (i === commits.length - 1 || protectedHashes.has(commit.hash)) {
+      keep.add(commit.hash);
+      continue;
+    }
+    
+    const bucketIndex = buckets.findIndex(bucket =>
+      bucket.maxAgeHours === undefined || ageHours < bucket.maxAgeHours
+    );
+    const bucket = buckets[bucketIndex];
+    
+    if (!bucket || bucket.intervalHours <= 0) {
+      keep.add(commit.hash);
+      continue;
+    }
+    
+    const slot = `${bucketIndex}:${Math.floor(time / (bucket.intervalHours * HOUR_MS))}`;
+    if (!seenSlots.has(slot)) {
+      seenSlots.add(slot);
+      keep.add(commit.hash);
+    }
+  }
+  
+  return keep;
+}
+
+export class RetentionService {
+  private options: RetentionServiceOptions;
+  private timer: NodeJS.Timeout | null = null;
+  private startupTimer: NodeJS.Timeout | null = null;
+  private running: Set<string> = new Set();
+  
+  constructor(options: RetentionServiceOptions) {
+    this.options = options;
+  }
+  
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    
+    // First pass shortly after launch, then on a fixed schedule
+    this.startupTimer = setTimeout(() => {
+      this.startupTimer = null;
+      this.runAll();
+    }, 10 * 60 * 1000);
+    
+    const intervalMs = (this.options.checkIntervalHours || 6) * HOUR_MS;
+    this.timer = setInterval(() => {
+      this.runAll();
+    }, intervalMs);
+    
+    console.log(`Retention thinning scheduled every ${intervalMs / HOUR_MS} hours`);
+  }
+  
+  stop(): void {
+    if (this.startupTimer) {
+      clearTimeout(this.startupTimer);
+      this.startupTimer = null;
+    }
+    
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+  
+  async runAll(): Promise<void> {
+    for (const folder of this.options.getFolders()) {
+      if (!folder.retention?.enabled) continue;
+      
+      try {
+        await this.thinFolder(folder.id, folder.retention);
+      } catch (error) {
+        console.error(`Retention thinning failed for ${folder.path}:`, error);
+        if (this.options.onError) {
+          this.options.onError(folder.id, error as Error);
+        }
+      }
+    }
+  }
+  
+  /**
+   * Thin one folder's history according to its policy and reclaim the space.
+   * Bookmarked versions are kept unless `includeBookmarked` is set, in which
+   * case thinned bookmarks are deleted with their versions.
+   */
+  async thinFolder(folderId: string, policy: RetentionPolicy, includeBookmarked: boolean = false): Promise<ThinningReport> {
+    if (this.running.has(folderId)) {
+      throw new Error('Thinning is already running for this folder');
+    }
+    
+    this.running.add(folderId);
+    try {
+      const gitService = this.options.getGitService(folderId);
+      const buckets = policy.buckets.length > 0 ? policy.buckets : DEFAULT_RETENTION_BUCKETS;
+      
+      const bytesBefore = await gitService.getRepositorySize();
+      const commits = await gitService.getHistoryCommits();
+      const protectedHashes = includeBookmarked ? new Set<string>() : await gitService.getTaggedCommits();
+      const keep = selectCommitsToKeep(commits, buckets, protectedHashes);
+      const removedCount = commits.length - keep.size;
+      
+      if (removedCount > 0) {
+        console.log(`Thinning ${removedCount} of ${commits.length} commits for folder ${folderId}`);
+        await gitService.rewriteHistory(commit => ({ drop: !keep.has(commit.hash) }), 'retention thinning');
+        await gitService.reclaimSpace();
+      }
+      
+      const bytesAfter = await gitService.getRepositorySize();
+      const report: ThinningReport = {
+        folderId,
+        keptCount: keep.size,
+        removedCount,
+        bytesBefore,
+        bytesAfter,
+        reclaimedBytes: Math.max(0, bytesBefore - bytesAfter),
+        date: new Date()
+      };
+      
+      if (this.options.onThinned) {
+        this.options.onThinned(report);
+      }
+      
+      return report;
+    } finally {
+      this.running.delete(folderId);
+    }
+  }
+}
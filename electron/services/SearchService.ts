@@ -0,0 +1,253 @@
+import { GitService, Commit, GrepMatch } from './GitService';
+import type { WatchedFolder } from './ConfigService';
+
+// Commits searched per git grep call; results are streamed after each batch
+const BATCH_SIZE = 20;
+const MAX_LINES_PER_RESULT = 5;
+const MAX_LINE_LENGTH = 200;
+
+export interface SearchQuery {
+  pattern: string;
+  mode: 'content' | 'changes'; // Versions containing a match, or versions that added/removed one
+  regex: boolean;
+  caseSensitive: boolean;
+  folderIds?: string[]; // Defaults to every watched folder
+  maxResults?: number;
+}
+
+export interface SearchLine {
+  lineNumber: number;
+  text: string;
+}
+
+export interface SearchResult {
+  folderId: string;
+  folderName: string;
+  filePath: string;
+  commitHash: string;
+  date: Date;
+  message: string;
+  kind: 'match' | 'introduced' | 'removed';
+  lines: SearchLine[];
+}
+
+export interface SearchSummary {
+  resultCount: number;
+  cancelled: boolean;
+  truncated: boolean; // Stopped at maxResults
+  error?: string;
+}
+
+export interface SearchServiceOptions {
+  getFolders: () => WatchedFolder[];
+  getGitService: (folderId: string) => GitService;
+}
+
+function toLines(matches: GrepMatch[]): SearchLine[] {
+  return matches.slice(0, MAX_LINES_PER_RESULT).map(match => ({
+    lineNumber: match.lineNumber,
+    text: match.text.length > MAX_LINE_LENGTH ? `${match.text.substring(0, MAX_LINE_LENGTH)}…` : match.text
+  }));
+}
+
+function groupMatches(matches: GrepMatch[]): Map<string, GrepMatch[]> {
+  const groups = new Map<string, GrepMatch[]>();
+  for (const match of matches) {
+    const key = `${match.revision}\0${match.path}`;
+    groups.set(key, [...(groups.get(key) || []), match]);
+  }
+  return groups;
+}
+
+/**
+ * Searches file contents across the history of the watched folders. Searches
+ * run in the background, deliver results batch by batch and can be cancelled.
+ */
+export class SearchService {
+  private options: SearchServiceOptions;
+  private cancelled: Set<string> = new Set();
+  private running: Set<string> = new Set();
+  
+  constructor(options: SearchServiceOptions) {
+    this.options = options;
+  }
+  
+  start(
+    searchId: string,
+    query: SearchQuery,
+    onResults: (results: SearchResult[]) => void,
+    onDone: (summary: SearchSummary) => void
+  ): void {
+    if (!query.pattern) {
+      throw new Error('Search pattern is required');
+    }
+    if (this.running.has(searchId)) {
+      throw new Error(`Search already running: ${searchId}`);
+    }
+    
+    this.running.add(searchId);
+    this.run(searchId, query, onResults)
+      .then(summary => onDone(summary))
+      .catch(error => onDone({
+        resultCount: 0,
+        cancelled: false,
+        truncated: false,
+        error: error instanceof Error ? error.message : String(error)
+      }))
+      .finally(() => {
+        this.running.delete(searchId);
+        this.cancelled.delete(searchId);
+      });
+  }
+  
+  cancel(searchId: string): void {
+    if (this.running.has(searchId)) {
+      this.cancelled.add(searchId);
+    }
+  }
+  
+  private async run(searchId: string, query: SearchQuery, onResults: (results: SearchResult[]) => void): Promise<SearchSummary> {
+    const maxResults = query.maxResults || 500;
+    const folders = this.options.getFolders().filter(folder =>
+      !query.folderIds || query.folderIds.includes(folder.id)
+    );
+    let resultCount = 0;
+    
+    for (const folder of folders) {
+      const gitService = this.options.getGitService(folder.id);
+      const grepOptions = { regex: query.regex, ignoreCase: !query.caseSensitive };
+      let commits: Commit[];
+      
+      try {
+        commits = query.mode === 'changes'
+          ? await gitService.getChangeLog({ pattern: query.pattern, ...grepOptions })
+          : await gitService.getChangeLog();
+      } catch (error) {
+        console.error(`Search skipped folder ${folder.path}:`, error);
+        continue;
+      }
+      
+      for (let i = 0; i < commits.length; i += BATCH_SIZE) {
+        if (this.cancelled.has(searchId)) {
+          return { resultCount, cancelled: true, truncated: false };
+        }
+        
+        const batch = commits.slice(i, i + BATCH_SIZE);
+        const results = query.mode === 'changes'
+          ? await this.searchChanges(gitService, folder, batch, query)
+          : await this.searchContent(gitService, folder, batch, query);
+        if (results.length === 0) continue;
+        
+        const remaining = results.slice(0, maxResults - resultCount);
+        resultCount += remaining.length;
+        onResults(remaining);
+        
+        if (resultCount >= maxResults) {
+          return { resultCount, cancelled: false, truncated: true };
+        }
+      }
+    }
+    
+    return { resultCount, cancelled: false, truncated: false };
+  }
+  
+  /**
+   * Versions (files as written by a commit) whose content matches
+   */
+  private async searchContent(
+    gitService: GitService,
+    folder: WatchedFolder,
+    commits: Commit[],
+    query: SearchQuery
+  ): Promise<SearchResult[]> {
+    const written = new Set<string>();
+    const paths = new Set<string>();
+    for (const commit of commits) {
+      for (const change of commit.fileChanges || []) {
+        if (change.status === 'deleted') continue;
+        written.add(`${commit.hash}\0${change.path}`);
+        paths.add(change.path);
+      }
+    }
+    
+    const matches = await gitService.grepRevisions(
+      commits.map(commit => commit.hash),
+      Array.from(paths),
+      query.pattern,
+      { regex: query.regex, ignoreCase: !query.caseSensitive }
+    );
+    const commitsByHash = new Map(commits.map(commit => [commit.hash, commit]));
+    const results: SearchResult[] = [];
+    
+    // Unchanged files in these commits would only repeat an older version
+    for (const [key, group] of groupMatches(matches)) {
+      if (!written.has(key)) continue;
+      
+      const commit = commitsByHash.get(group[0].revision)!;
+      results.push(this.toResult(folder, commit, group[0].path, 'match', group));
+    }
+    
+    return results;
+  }
+  
+  /**
+   * Versions where matching lines were introduced or removed, compared with
+   * the previous version of the file
+   */
+  private async searchChanges(
+    gitService: GitService,
+    folder: WatchedFolder,
+    commits: Commit[],
+    query: SearchQuery
+  ): Promise<SearchResult[]> {
+    const grepOptions = { regex: query.regex, ignoreCase: !query.caseSensitive };
+    const results: SearchResult[] = [];
+    
+    for (const commit of commits) {
+      const changes = commit.fileChanges || [];
+      const current = changes.filter(change => change.status !== 'deleted').map(change => change.path);
+      const previous = changes.filter(change => change.status !== 'added').map(change => change.path);
+      
+      const after = groupMatches(await gitService.grepRevisions([commit.hash], current, query.pattern, grepOptions));
+      const before = groupMatches(await gitService.grepRevisions([`${commit.hash}^`], previous, query.pattern, grepOptions));
+      
+      for (const change of changes) {
+        const afterMatches = after.get(`${commit.hash}\0${change.path}`) || [];
+        const beforeMatches = before.get(`${commit.hash}^\0${change.path}`) || [];
+        const beforeText = new Set(beforeMatches.map(match => match.text));
+        const afterText = new Set(afterMatches.map(match => match.text));
+        
+        const introduced = afterMatches.filter(match => !beforeText.has(match.text));
+        const removed = beforeMatches.filter(match => !afterText.has(match.text));
+        
+        if (introduced.length > 0) {
+          results.push(this.toResult(folder, commit, change.path, 'introduced', introduced));
+        }
+        if (removed.length > 0) {
+          results.push(this.toResult(folder, commit, change.path, 'removed', removed));
+        }
+      }
+    }
+    
+    return results;
+  }
+  
+  private toResult(
+    folder: WatchedFolder,
+    commit: Commit,
+    filePath: string,
+    kind: SearchResult['kind'],
+    matches: GrepMatch[]
+  ): SearchResult {
+    return {
+      folderId: folder.id,
+      folderName: folder.name,
+      filePath,
+      commitHash: commit.hash,
+      date: commit.date,
+      message: commit.message,
+      kind,
+      lines: toLines(matches)
+    };
+  }
+}
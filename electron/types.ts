@@ -1,14 +1,120 @@
 // Shared type definitions for Electron process
+export interface RetentionBucket {
+  maxAgeHours?: number; // Applies to versions younger than this; undefined = all older versions
+  intervalHours: number; // Keep one version per interval; 0 = keep every version
+}
+
+export interface RetentionPolicy {
+  enabled: boolean;
+  buckets: RetentionBucket[];
+}
+
+export type FilePolicyAction = 'skip' | 'latest-only' | 'large-file-store';
+
+export interface FilePolicyRule {
+  pattern: string; // .gitignore syntax
+  action: FilePolicyAction;
+}
+
+export interface FilePolicy {
+  maxFileSizeMB?: number; // Files over this are skipped unless a rule matches; 0 = no limit
+  rules: FilePolicyRule[];
+}
+
+export type CommitStrategy = 'on-save' | 'periodic' | 'on-idle';
+
+export interface QuietHours {
+  enabled: boolean;
+  startTime: string; // 'HH:MM'
+  endTime: string; // Before startTime runs past midnight
+}
+
+export interface CommitSchedule {
+  enabled: boolean;
+  days: number[]; // Days commits may happen on, 0 = Sunday
+  startTime: string; // 'HH:MM'; the same start and end time allows the whole day
+  endTime: string; // Before startTime runs past midnight
+  quietHours?: QuietHours; // No commits during these hours, even inside the window
+}
+
+// How links inside a watched folder are versioned
+export type SymlinkPolicy = 'link-only' | 'follow' | 'ignore';
+
 export interface WatchedFolder {
   id: string;
   path: string;
   name: string;
-  commitStrategy: 'on-save' | 'periodic';
+  commitStrategy: CommitStrategy;
   periodicInterval?: number;
+  idleMinutes?: number; // Quiet time before an on-idle commit
+  commitSchedule?: CommitSchedule; // When periodic and on-idle commits may happen (any time when undefined)
   ignorePatterns: string[];
   isActive: boolean;
   watchSubfolders: boolean;
+  usePolling?: boolean; // Poll for changes where native file events are unreliable, e.g. network drives
+  symlinkPolicy?: SymlinkPolicy; // 'link-only' when undefined
+  debounceSeconds?: number; // Quiet time after the last change before an on-save commit
+  stabilityThresholdMs?: number; // How long a file must stay unchanged before it counts as written
+  maxWaitSeconds?: number; // Commit at least this often during continuous changes; 0 = no limit
+  burstThreshold?: number; // Changes to at least this many files wait for a decision; 0 = never
   customGitPath?: string; // Custom location for .git directory
+  retention?: RetentionPolicy; // Thinning of old versions (disabled when undefined)
+  filePolicy?: FilePolicy; // Size limit and per-type handling (100 MB limit when undefined)
+  overriddenSettings?: Array<keyof FolderProfileSettings>; // Set on the folder itself; the rest are inherited from the global defaults
+}
+
+export interface FileChange {
+  path: string;
+  status: 'added' | 'modified' | 'deleted' | 'renamed';
+  oldPath?: string; // Previous path when status is 'renamed'
+}
+
+export interface FolderAvailability {
+  online: boolean;
+  since: Date;
+  reason?: string; // Why the folder is offline
+  missing?: boolean; // Moved, renamed or deleted, rather than on a drive that is gone
+}
+
+// A place a missing folder may have moved to, strongest match first
+export interface RelinkCandidate {
+  path: string;
+  match: 'identity' | 'repository' | 'name';
+  reason: string;
+}
+
+// A watched folder that is no longer where it was
+export interface MissingFolder {
+  folderId: string;
+  name: string;
+  path: string;
+  candidates: RelinkCandidate[];
+}
+
+// Many files changed at once, held back until the user decides what to do
+export interface BulkChange {
+  fileCount: number;
+  samplePaths: string[];
+  detectedAt: Date;
+}
+
+export type BulkChangeAction = 'commit' | 'exclude' | 'discard';
+
+// What a folder's watcher is doing; folders without one are 'stopped' or 'offline'
+export interface FolderStatus {
+  state: 'starting' | 'watching' | 'error' | 'stopped' | 'offline';
+  watchedFiles: number | null; // Known once the initial scan is done
+  eventsPerMinute: number;
+  pendingChanges: number;
+  heldChanges: number; // Files in a held bulk change
+  lastCommitAt: Date | null;
+  lastError: { message: string; at: Date } | null;
+}
+
+export interface DetectedChanges {
+  commitHash: string;
+  date: Date;
+  changes: FileChange[];
 }
 
 export interface Commit {
@@ -17,18 +123,137 @@ export interface Commit {
   date: Date;
   author: string;
   changedFiles: string[];
+  fileChanges?: FileChange[];
+}
+
+export interface LogOptions {
+  cursor?: string;
+  limit?: number;
+}
+
+export interface FileHistoryOptions extends LogOptions {
+  followRenames?: boolean;
+}
+
+export interface CommitPage {
+  commits: Commit[];
+  nextCursor?: string;
 }
 
 export interface DiffResult {
   oldContent: string;
   newContent: string;
   fileName: string;
+  filePath?: string; // Path relative to the watched folder
   oldCommit?: string;
   newCommit?: string;
+  baseHash?: string; // Blob hash of the file on disk when newContent was read from it
+}
+
+export interface DiffHunk {
+  index: number;
+  header: string; // The @@ line
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: string[]; // Patch lines, keeping their ' ', '-', '+' or '\' prefix
+}
+
+export interface FileHunks {
+  filePath: string;
+  commitHash: string;
+  baseHash: string; // Blob hash of the file on disk when the hunks were computed
+  hunks: DiffHunk[];
+}
+
+export interface ThinningReport {
+  folderId: string;
+  keptCount: number;
+  removedCount: number;
+  bytesBefore: number;
+  bytesAfter: number;
+  reclaimedBytes: number;
+  date: Date;
+}
+
+export interface SearchQuery {
+  pattern: string;
+  mode: 'content' | 'changes'; // Versions containing a match, or versions that added/removed one
+  regex: boolean;
+  caseSensitive: boolean;
+  folderIds?: string[]; // Defaults to every watched folder
+  maxResults?: number;
+}
+
+export interface SearchLine {
+  lineNumber: number;
+  text: string;
+}
+
+export interface SearchResult {
+  folderId: string;
+  folderName: string;
+  filePath: string;
+  commitHash: string;
+  date: Date;
+  message: string;
+  kind: 'match' | 'introduced' | 'removed';
+  lines: SearchLine[];
+}
+
+export interface SearchSummary {
+  resultCount: number;
+  cancelled: boolean;
+  truncated: boolean; // Stopped at maxResults
+  error?: string;
+}
+
+export interface StoredVersion {
+  hash: string; // sha256 of the content
+  size: number;
+  date: string;
+}
+
+// A file a policy keeps out of the version history, and why
+export interface PolicyFileStatus {
+  path: string;
+  action: FilePolicyAction;
+  reason: string;
+  size: number;
+  versions?: StoredVersion[]; // Copies kept in the large-file store, newest first
+}
+
+export interface IgnoreMatch {
+  pattern: string;
+  source: 'global' | 'gitignore' | 'lvignore' | 'folder';
+  file?: string; // Ignore file the pattern came from
+  path: string; // The path or parent directory the pattern matched
+}
+
+// A link or special file found while scanning a folder, and how it is handled
+export interface SpecialEntry {
+  path: string;
+  type: 'symlink' | 'fifo' | 'socket' | 'device';
+  target?: string; // Where a link points, as written in the link
+  handling: SymlinkPolicy | 'skipped';
+  reason?: string; // Why it is skipped
+}
+
+export interface IgnoredEntry {
+  path: string; // Directories end with '/'
+  match: IgnoreMatch;
+}
+
+export interface IgnoreTestResult {
+  entries: IgnoredEntry[];
+  truncated: boolean;
+  sample?: { path: string; match: IgnoreMatch | null };
 }
 
 export interface AppConfig {
-  watchedFolders: WatchedFolder[];
+  version?: number; // Schema version of the config file
+  watchedFolders: SavedFolder[];
   windowBounds?: {
     x: number;
     y: number;
@@ -38,5 +263,66 @@ export interface AppConfig {
   theme: 'light' | 'dark';
   defaultGitLocation?: 'watched-folder' | 'custom';
   defaultCustomGitPath?: string;
+  globalIgnorePatterns?: string[]; // Applied to every folder before its own patterns
+  folderProfiles?: FolderProfile[]; // Saved by the user, besides the built-in profiles
+  defaultProfileId?: string; // Applied to folders as they are added
+  folderDefaults?: FolderProfileSettings; // Inherited by every folder that doesn't override them
+}
+
+// A config file that could not be used as it was; the original is kept in quarantine
+export interface ConfigRecovery {
+  kind: 'unreadable' | 'repaired';
+  message: string;
+  problems: string[]; // Settings that were reset or dropped while repairing
+  quarantinedPath: string | null; // null when the file could not be moved aside
+  at: Date;
+}
+
+export type FolderProfileSettings = Partial<Pick<WatchedFolder,
+  'commitStrategy' | 'periodicInterval' | 'idleMinutes' | 'commitSchedule' | 'ignorePatterns' | 'watchSubfolders' |
+  'usePolling' | 'symlinkPolicy' | 'debounceSeconds' | 'stabilityThresholdMs' | 'maxWaitSeconds' | 'burstThreshold' |
+  'retention' | 'filePolicy'>>;
+
+export interface FolderProfile {
+  id: string;
+  name: string;
+  settings: FolderProfileSettings;
+  builtIn?: boolean; // Shipped with the app; cannot be changed or removed
+}
+
+// A folder as saved: settings it does not override are left out and inherited
+export type SavedFolder = Omit<WatchedFolder, keyof FolderProfileSettings | 'overriddenSettings'> & FolderProfileSettings;
+
+// Replaces a leading path, e.g. the home folder of another machine
+export interface PathRemap {
+  from: string;
+  to: string;
+}
+
+export interface ConfigImportOptions {
+  folderIds: string[]; // Folders of the imported config to add
+  pathRemaps: PathRemap[]; // First match wins
+  includeGlobalSettings: boolean; // Global ignore patterns, git location defaults and profiles
+}
+
+// What an export file holds, before importing it
+export interface ConfigImportPreview {
+  filePath: string;
+  folders: Array<{ id: string; name: string; path: string; customGitPath?: string; alreadyWatched: boolean }>;
+  profiles: string[];
+}
+
+export interface ConfigImportResult {
+  added: WatchedFolder[];
+  skipped: Array<{ path: string; reason: string }>;
+  paused: string[]; // Added but not watched because the path does not exist here
+}
+
+// An earlier config file, summarized by the folders it watches
+export interface ConfigBackup {
+  id: string; // File name in the backups directory
+  createdAt: Date;
+  folders: Array<{ name: string; path: string }>;
+  error?: string; // Why the backup cannot be restored
 }
 
@@ -4,7 +4,30 @@ import DiffViewer from './components/DiffViewer';
 import Settings from './components/Settings';
 import GitMigration from './components/GitMigration';
 import FolderFileTree from './components/FolderFileTree';
-import type { WatchedFolder, Commit, DiffResult, FileStorageInfo } from './types';
+import Timeline from './components/Timeline';
+import FolderRestore from './components/FolderRestore';
+import SearchPanel from './components/SearchPanel';
+import StartupChanges from './components/StartupChanges';
+import type {
+  WatchedFolder,
+  Commit,
+  DiffResult,
+  FileStorageInfo,
+  PurgePreview,
+  PurgeBackup,
+  Bookmark,
+  TreeSnapshot,
+  SearchResult,
+  DetectedChanges,
+  PolicyFileStatus,
+  StoredVersion,
+  FolderAvailability,
+  BulkChange,
+  BulkChangeAction,
+  SpecialEntry,
+  ConfigRecovery,
+  MissingFolder
+} from './types';
 
 // Helper function to format file sizes
 function formatSize(bytes: number): string {
@@ -19,18 +42,47 @@ function App() {
   const [folders, setFolders] = useState<WatchedFolder[]>([]);
   const [selectedFolder, setSelectedFolder] = useState<WatchedFolder | null>(null);
   const [commits, setCommits] = useState<Commit[]>([]);
+  const [commitsCursor, setCommitsCursor] = useState<string | undefined>(undefined);
+  const [loadingMoreCommits, setLoadingMoreCommits] = useState(false);
+  const [timelineScope, setTimelineScope] = useState<'current' | 'all'>('current');
+  const [allFoldersCommits, setAllFoldersCommits] = useState<Array<{ commit: Commit; folderName: string; folderId: string }>>([]);
+  const [allFoldersCursors, setAllFoldersCursors] = useState<Record<string, string>>({});
+  const [allFoldersHeldCommits, setAllFoldersHeldCommits] = useState<Array<{ commit: Commit; folderName: string; folderId: string }>>([]); // Loaded, but older entries of other folders may still be missing
   const [allFiles, setAllFiles] = useState<string[]>([]);
   const [allFoldersFiles, setAllFoldersFiles] = useState<Record<string, string[]>>({}); // Current files
   const [allFoldersDeletedFiles, setAllFoldersDeletedFiles] = useState<Record<string, string[]>>({}); // Deleted files
+  const [filePolicyStatuses, setFilePolicyStatuses] = useState<Record<string, Record<string, PolicyFileStatus>>>({}); // folderId -> filePath -> status
+  const [specialEntries, setSpecialEntries] = useState<Record<string, SpecialEntry[]>>({}); // folderId -> links and special files
+  const [folderAvailability, setFolderAvailability] = useState<Record<string, FolderAvailability>>({}); // folderId -> reachable or not
+  const [bulkChanges, setBulkChanges] = useState<Record<string, BulkChange>>({}); // folderId -> bulk change waiting for a decision
+  const [configRecovery, setConfigRecovery] = useState<ConfigRecovery | null>(null);
+  const [missingFolders, setMissingFolders] = useState<Record<string, MissingFolder>>({}); // folderId -> where it may have moved
+  const [skippedFiles, setSkippedFiles] = useState<Record<string, PolicyFileStatus[]>>({}); // folderId -> files skipped since last dismissed
   const [showDeletedFiles, setShowDeletedFiles] = useState(false); // Toggle for showing deleted files
   const [fileVersionCounts, setFileVersionCounts] = useState<Record<string, Record<string, number>>>({}); // folderId -> filePath -> version count
   const [selectedFile, setSelectedFile] = useState<string | null>(null);
   const [fileCommits, setFileCommits] = useState<Commit[]>([]);
+  const [fileHistoryCursor, setFileHistoryCursor] = useState<string | undefined>(undefined);
+  const [loadingMoreVersions, setLoadingMoreVersions] = useState(false);
   const [fileStorageInfo, setFileStorageInfo] = useState<FileStorageInfo | null>(null);
+  const [purgeMode, setPurgeMode] = useState(false); // Selecting versions to purge
+  const [purgeSelection, setPurgeSelection] = useState<Set<string>>(new Set());
+  const [purgePreview, setPurgePreview] = useState<PurgePreview | null>(null);
+  const [purgeBackupDays, setPurgeBackupDays] = useState(7);
+  const [purgeBackups, setPurgeBackups] = useState<PurgeBackup[]>([]);
+  const [purgeIncludeBookmarked, setPurgeIncludeBookmarked] = useState(false);
+  const [bookmarksByFolder, setBookmarksByFolder] = useState<Record<string, Bookmark[]>>({});
+  const [treeSnapshots, setTreeSnapshots] = useState<Record<string, TreeSnapshot>>({}); // folderId -> "view as of" tree
+  const [folderRestore, setFolderRestore] = useState<{ initialTarget?: string } | null>(null);
+  const [bookmarkDialog, setBookmarkDialog] = useState<{ folderId: string; commit: Commit } | null>(null);
+  const [bookmarkName, setBookmarkName] = useState('');
+  const [bookmarkDescription, setBookmarkDescription] = useState('');
   const [selectedCommit, setSelectedCommit] = useState<Commit | null>(null);
   const [compareCommit, setCompareCommit] = useState<Commit | null>(null);
   const [diffResult, setDiffResult] = useState<DiffResult | null>(null);
   const [showSettings, setShowSettings] = useState(false);
+  const [showSearch, setShowSearch] = useState(false);
+  const [startupChanges, setStartupChanges] = useState<Record<string, DetectedChanges>>({});
   const [loading, setLoading] = useState(false);
   const [autoRefresh, setAutoRefresh] = useState(true);
   const [defaultGitLocation, setDefaultGitLocation] = useState<'watched-folder' | 'custom'>('watched-folder');
@@ -177,6 +229,128 @@ function App() {
     }
   }, [commits]);
 
+  // Changes caught up at startup may be reported before this window was listening
+  useEffect(() => {
+    window.electronAPI.getStartupChanges?.()
+      .then(detected => setStartupChanges(prev => ({ ...detected, ...prev })))
+      .catch(error => console.error('Failed to load startup changes:', error));
+    
+    const cleanup = window.electronAPI.onStartupChangesDetected?.((folderId, detected) => {
+      setStartupChanges(prev => ({ ...prev, [folderId]: detected }));
+    });
+    
+    return () => {
+      if (cleanup) cleanup();
+    };
+  }, []);
+
+  // Show folders on unplugged or disconnected drives as offline
+  useEffect(() => {
+    window.electronAPI.getFolderAvailability?.()
+      .then(setFolderAvailability)
+      .catch(error => console.error('Failed to load folder availability:', error));
+    
+    const cleanup = window.electronAPI.onFolderAvailabilityChanged?.((folderId, availability) => {
+      setFolderAvailability(prev => ({ ...prev, [folderId]: availability }));
+      if (availability.online) {
+        setMissingFolders(prev => {
+          const { [folderId]: _found, ...rest } = prev;
+          return rest;
+        });
+        loadAllFoldersFiles();
+      }
+    });
+    
+    return () => {
+      if (cleanup) cleanup();
+    };
+  }, [folders]);
+
+  // Folders found missing at startup may be reported before this window was listening
+  useEffect(() => {
+    window.electronAPI.getMissingFolders?.()
+      .then(missing => setMissingFolders(prev => ({
+        ...Object.fromEntries(missing.map(folder => [folder.folderId, folder])),
+        ...prev
+      })))
+      .catch(error => console.error('Failed to load missing folders:', error));
+    
+    const cleanup = window.electronAPI.onFolderMissing?.(folder => {
+      setMissingFolders(prev => ({ ...prev, [folder.folderId]: folder }));
+    });
+    
+    return () => {
+      if (cleanup) cleanup();
+    };
+  }, []);
+
+  // A settings file that could not be used is reported once at startup
+  useEffect(() => {
+    window.electronAPI.getConfigRecovery?.()
+      .then(setConfigRecovery)
+      .catch(error => console.error('Failed to load config recovery:', error));
+  }, []);
+
+  // Bulk changes held at startup may be reported before this window was listening
+  useEffect(() => {
+    window.electronAPI.getBulkChanges?.()
+      .then(changes => setBulkChanges(prev => ({ ...changes, ...prev })))
+      .catch(error => console.error('Failed to load bulk changes:', error));
+    
+    const cleanup = window.electronAPI.onBulkChangeDetected?.((folderId, change) => {
+      setBulkChanges(prev => ({ ...prev, [folderId]: change }));
+    });
+    
+    return () => {
+      if (cleanup) cleanup();
+    };
+  }, []);
+
+  // Warn about files the size or type policy kept out of the history
+  useEffect(() => {
+    const cleanup = window.electronAPI.onFilesSkipped?.((folderId, files) => {
+      setSkippedFiles(prev => {
+        const skippedPaths = new Set(files.map(file => file.path));
+        const earlier = (prev[folderId] || []).filter(file => !skippedPaths.has(file.path));
+        return { ...prev, [folderId]: [...earlier, ...files] };
+      });
+      loadAllFoldersFiles();
+    });
+    
+    return () => {
+      if (cleanup) cleanup();
+    };
+  }, [folders]);
+
+  // Reload history after a retention pass thinned the selected folder
+  useEffect(() => {
+    const cleanup = window.electronAPI.onRetentionCompleted?.((folderId, report) => {
+      console.log(`Retention thinning removed ${report.removedCount} versions from folder:`, folderId);
+      if (selectedFolder && selectedFolder.id === folderId && report.removedCount > 0) {
+        loadCommits(folderId);
+      }
+    });
+    
+    return () => {
+      if (cleanup) cleanup();
+    };
+  }, [selectedFolder]);
+
+  // Leave purge selection when another file is opened
+  useEffect(() => {
+    setPurgeMode(false);
+    setPurgeSelection(new Set());
+    setPurgePreview(null);
+    setPurgeIncludeBookmarked(false);
+  }, [selectedFile, selectedFolder]);
+
+  // Load the all-folders timeline when that scope is selected
+  useEffect(() => {
+    if (timelineScope === 'all' && folders.length > 0) {
+      loadAllFoldersCommits();
+    }
+  }, [timelineScope, folders.length]);
+
   // Listen for new commits
   useEffect(() => {
     const handleCommitCreated = (folderId: string) => {
@@ -205,7 +379,8 @@ function App() {
     try {
       setLoading(true);
       console.log('Loading commits for folder:', folderId);
-      const loadedCommits = await window.electronAPI.getCommits(folderId, 100);
+      const page = await window.electronAPI.getCommitLog(folderId, { limit: 100 });
+      const loadedCommits = page.commits;
       console.log('Loaded commits for folder:', folderId, '- Count:', loadedCommits.length);
       
       // Log first few commits to verify
@@ -214,27 +389,9 @@ function App() {
       }
       
       setCommits(loadedCommits);
-      
-      // Extract all unique files from all commits AND count versions
-      const uniqueFiles = new Set<string>();
-      const versionCounts: Record<string, number> = {};
-      
-      loadedCommits.forEach(commit => {
-        commit.changedFiles.forEach(file => {
-          uniqueFiles.add(file);
-          versionCounts[file] = (versionCounts[file] || 0) + 1;
-        });
-      });
-      
-      const filesArray = Array.from(uniqueFiles).sort();
-      console.log('All unique files for this folder:', filesArray);
-      setAllFiles(filesArray);
-      
-      // Update version counts for this folder
-      setFileVersionCounts(prev => ({
-        ...prev,
-        [folderId]: versionCounts
-      }));
+      setCommitsCursor(page.nextCursor);
+      updateVersionCounts(folderId, loadedCommits);
+      await loadBookmarks(folderId);
       
       // Note: Don't update allFoldersFiles here - it's managed by loadAllFoldersFiles()
       // which reads from the file system directly, not just from commits
@@ -245,15 +402,142 @@ function App() {
     }
   };
   
+  // Load the next page of the selected folder's history (infinite scroll)
+  const loadMoreCommits = async () => {
+    if (!selectedFolder || !commitsCursor || loadingMoreCommits) return;
+    
+    try {
+      setLoadingMoreCommits(true);
+      const page = await window.electronAPI.getCommitLog(selectedFolder.id, {
+        cursor: commitsCursor,
+        limit: 100
+      });
+      const loadedCommits = [...commits, ...page.commits];
+      setCommits(loadedCommits);
+      setCommitsCursor(page.nextCursor);
+      updateVersionCounts(selectedFolder.id, loadedCommits);
+    } catch (error) {
+      console.error('Failed to load more commits:', error);
+    } finally {
+      setLoadingMoreCommits(false);
+    }
+  };
+  
+  // Count versions per file from the commits loaded so far
+  const updateVersionCounts = (folderId: string, loadedCommits: Commit[]) => {
+    const versionCounts: Record<string, number> = {};
+    
+    // Commits are newest first; versions from before a rename count towards the current path
+    const currentPaths: Record<string, string> = {};
+    loadedCommits.forEach(commit => {
+      const changes = commit.fileChanges || commit.changedFiles.map(path => ({ path, oldPath: undefined }));
+      changes.forEach(change => {
+        const file = currentPaths[change.path] || change.path;
+        versionCounts[file] = (versionCounts[file] || 0) + 1;
+        if (change.oldPath) {
+          currentPaths[change.oldPath] = file;
+        }
+      });
+    });
+    
+    setFileVersionCounts(prev => ({
+      ...prev,
+      [folderId]: versionCounts
+    }));
+  };
+  
+  const loadBookmarks = async (folderId: string) => {
+    if (!window.electronAPI.getBookmarks) return;
+    
+    try {
+      const folderBookmarks = await window.electronAPI.getBookmarks(folderId);
+      setBookmarksByFolder(prev => ({ ...prev, [folderId]: folderBookmarks }));
+    } catch (error) {
+      console.error('Failed to load bookmarks:', error);
+    }
+  };
+
+  // Load the timeline across all folders. Each folder keeps its own cursor;
+  // pages are merged by date. Entries older than the oldest loaded entry of a
+  // folder with more pages are held back until that folder has caught up.
+  const loadAllFoldersCommits = async (loadMore: boolean = false) => {
+    if (loadMore && (loadingMoreCommits || Object.keys(allFoldersCursors).length === 0)) return;
+    
+    try {
+      setLoadingMoreCommits(true);
+      const targetFolders = loadMore
+        ? folders.filter(folder => allFoldersCursors[folder.id])
+        : folders;
+      
+      const loaded: Array<{ commit: Commit; folderName: string; folderId: string }> = [];
+      const cursors: Record<string, string> = loadMore ? { ...allFoldersCursors } : {};
+      let shownUntil = -Infinity;
+      
+      for (const folder of targetFolders) {
+        try {
+          const page = await window.electronAPI.getCommitLog(folder.id, {
+            cursor: loadMore ? allFoldersCursors[folder.id] : undefined,
+            limit: 50
+          });
+          page.commits.forEach(commit => loaded.push({ commit, folderName: folder.name, folderId: folder.id }));
+          if (!loadMore) {
+            await loadBookmarks(folder.id);
+          }
+          
+          if (page.nextCursor) {
+            cursors[folder.id] = page.nextCursor;
+            const oldestLoaded = page.commits[page.commits.length - 1];
+            if (oldestLoaded) {
+              shownUntil = Math.max(shownUntil, new Date(oldestLoaded.date).getTime());
+            }
+          } else {
+            delete cursors[folder.id];
+          }
+        } catch (err) {
+          console.warn(`Failed to load commits for folder ${folder.name}:`, err);
+          delete cursors[folder.id];
+        }
+      }
+      
+      const merged = [...(loadMore ? [...allFoldersCommits, ...allFoldersHeldCommits] : []), ...loaded];
+      merged.sort((a, b) => new Date(b.commit.date).getTime() - new Date(a.commit.date).getTime());
+      
+      setAllFoldersCommits(merged.filter(entry => new Date(entry.commit.date).getTime() >= shownUntil));
+      setAllFoldersHeldCommits(merged.filter(entry => new Date(entry.commit.date).getTime() < shownUntil));
+      setAllFoldersCursors(cursors);
+    } finally {
+      setLoadingMoreCommits(false);
+    }
+  };
+  
   // Load files for all folders
   const loadAllFoldersFiles = async (foldersToLoad?: WatchedFolder[]) => {
     const targetFolders = foldersToLoad || folders;
     
     const filesMap: Record<string, string[]> = {};
     const deletedFilesMap: Record<string, string[]> = {};
+    const policyMap: Record<string, Record<string, PolicyFileStatus>> = {};
+    const specialMap: Record<string, SpecialEntry[]> = {};
     
     for (const folder of targetFolders) {
       try {
+        if (window.electronAPI.getFilePolicyStatuses) {
+          try {
+            const statuses = await window.electronAPI.getFilePolicyStatuses(folder.id);
+            policyMap[folder.id] = Object.fromEntries(statuses.map(status => [status.path, status]));
+          } catch (err) {
+            console.warn(`Failed to load file policy statuses for folder ${folder.name}:`, err);
+          }
+        }
+        
+        if (window.electronAPI.listSpecialEntries) {
+          try {
+            specialMap[folder.id] = await window.electronAPI.listSpecialEntries(folder.id);
+          } catch (err) {
+            console.warn(`Failed to list links and special files for folder ${folder.name}:`, err);
+          }
+        }
+        
         let realFiles: string[] = [];
         
         // Get real files from file system (current state)
@@ -271,16 +555,28 @@ function App() {
         
         // Get deleted files (files in commit history but not in current file system)
         try {
-          const loadedCommits = await window.electronAPI.getCommits(folder.id, 100);
           const historicalFiles = new Set<string>();
+          const movedFiles = new Set<string>();
+          let cursor: string | undefined;
           
-          loadedCommits.forEach((commit: Commit) => {
-            commit.changedFiles.forEach((file: string) => historicalFiles.add(file));
-          });
+          // The whole history, page by page. Newest first: a path whose last
+          // change was a move lives on under its new name.
+          do {
+            const page = await window.electronAPI.getCommitLog(folder.id, { cursor, limit: 500 });
+            page.commits.forEach((commit: Commit) => {
+              commit.fileChanges?.forEach(change => {
+                if (change.oldPath && !historicalFiles.has(change.oldPath)) {
+                  movedFiles.add(change.oldPath);
+                }
+              });
+              commit.changedFiles.forEach((file: string) => historicalFiles.add(file));
+            });
+            cursor = page.nextCursor;
+          } while (cursor);
           
           // Deleted files = files in history but not in current file system
           const currentFilesSet = new Set(realFiles);
-          const deletedFiles = Array.from(historicalFiles).filter(file => !currentFilesSet.has(file));
+          const deletedFiles = Array.from(historicalFiles).filter(file => !currentFilesSet.has(file) && !movedFiles.has(file));
           deletedFilesMap[folder.id] = deletedFiles.sort();
         } catch (err) {
           console.warn(`Failed to load commits for folder ${folder.name}:`, err);
@@ -295,6 +591,96 @@ function App() {
     
     setAllFoldersFiles(filesMap);
     setAllFoldersDeletedFiles(deletedFilesMap);
+    setFilePolicyStatuses(policyMap);
+    setSpecialEntries(specialMap);
+  };
+  
+  const handleDismissConfigRecovery = async () => {
+    try {
+      await window.electronAPI.dismissConfigRecovery?.();
+      setConfigRecovery(null);
+    } catch (error) {
+      console.error('Failed to dismiss config recovery:', error);
+    }
+  };
+  
+  const handleReloadQuarantinedConfig = async () => {
+    if (!window.electronAPI.reloadQuarantinedConfig) return;
+    
+    try {
+      await window.electronAPI.reloadQuarantinedConfig();
+      setConfigRecovery(null);
+      const updatedFolders = await loadFolders();
+      await loadAllFoldersFiles(updatedFolders);
+    } catch (error) {
+      console.error('Failed to reload quarantined config:', error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      alert(`The settings file still cannot be loaded:\n\n${errorMessage}`);
+    }
+  };
+  
+  const dismissMissingFolder = (folderId: string) => {
+    setMissingFolders(prev => {
+      const { [folderId]: _dismissed, ...rest } = prev;
+      return rest;
+    });
+  };
+  
+  const handleRelinkFolder = async (folderId: string, newPath?: string) => {
+    if (!window.electronAPI.relinkFolder) return;
+    
+    try {
+      const targetPath = newPath || await window.electronAPI.selectFolder();
+      if (!targetPath) return;
+      
+      const relinked = await window.electronAPI.relinkFolder(folderId, targetPath);
+      dismissMissingFolder(folderId);
+      const updatedFolders = await loadFolders();
+      if (selectedFolder && selectedFolder.id === folderId) {
+        setSelectedFolder(relinked);
+      }
+      await loadAllFoldersFiles(updatedFolders);
+    } catch (error) {
+      console.error('Failed to relink folder:', error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      alert(`Failed to relink the folder:\n\n${errorMessage}`);
+    }
+  };
+  
+  const handleResolveBulkChange = async (folderId: string, action: BulkChangeAction) => {
+    if (!window.electronAPI.resolveBulkChange) return;
+    
+    try {
+      await window.electronAPI.resolveBulkChange(folderId, action);
+      setBulkChanges(prev => {
+        const { [folderId]: _resolved, ...rest } = prev;
+        return rest;
+      });
+      await loadAllFoldersFiles();
+      if (selectedFolder && selectedFolder.id === folderId) {
+        await loadCommits(folderId);
+      }
+    } catch (error) {
+      console.error('Failed to resolve bulk change:', error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      alert(`Failed to handle the bulk change:\n\n${errorMessage}`);
+    }
+  };
+  
+  const handleRestoreStoredVersion = async (folderId: string, filePath: string, version: StoredVersion) => {
+    if (!window.electronAPI.restoreStoredVersion) return;
+    if (!confirm(`Replace ${filePath} with the copy stored on ${new Date(version.date).toLocaleString()}?`)) {
+      return;
+    }
+    
+    try {
+      await window.electronAPI.restoreStoredVersion(folderId, filePath, version.hash);
+      await loadAllFoldersFiles();
+    } catch (error) {
+      console.error('Failed to restore stored version:', error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      alert(`Failed to restore the stored copy:\n\n${errorMessage}`);
+    }
   };
   
 
@@ -432,6 +818,7 @@ function App() {
     setSelectedFolder(folder);
     setSelectedFile(null);
     setFileCommits([]);
+    setFileHistoryCursor(undefined);
     setSelectedCommit(null);
     setDiffResult(null);
     setCompareCommit(null);
@@ -446,38 +833,36 @@ function App() {
       
       console.log(`=== loadCurrentFileContent for: ${filePath} ===`);
       
-      // Get fresh commits for this folder
-      const allCommits = await window.electronAPI.getCommits(targetFolderId, 100);
-      console.log(`Total commits: ${allCommits.length}`);
-      
-      // Filter commits that contain this file
-      const commitsWithFile = allCommits.filter(commit => 
-        commit.changedFiles.includes(filePath)
-      );
+      // Get the file's own history (follows renames, independent of folder activity)
+      const history = await window.electronAPI.getFileHistory(targetFolderId, filePath, { limit: 100 });
+      const commitsWithFile = history.commits;
       console.log(`Commits with this file: ${commitsWithFile.length}`);
       
       // Set file commits for the versions panel
       setFileCommits(commitsWithFile);
+      setFileHistoryCursor(history.nextCursor);
       
       let content = '';
       let isDeletedFile = false;
       
       if (commitsWithFile.length > 0) {
-        // Try to get content from the most recent commit
-        let commitToUse = commitsWithFile[0];
         let contentFound = false;
         
         // For deleted files, the most recent commit might be the deletion commit
         // where the file doesn't exist. Try commits in order until we find one with content.
         for (let i = 0; i < commitsWithFile.length; i++) {
+          const change = commitsWithFile[i].fileChanges?.[0];
+          if (change?.status === 'deleted') {
+            continue;
+          }
+          
           try {
             console.log(`Trying to read file from Git commit: ${commitsWithFile[i].hash}`);
             content = await window.electronAPI.getFileContent(
               targetFolderId,
               commitsWithFile[i].hash,
-              filePath
+              change?.path || filePath
             );
-            commitToUse = commitsWithFile[i];
             contentFound = true;
             console.log(`Content loaded from Git commit ${i}, length: ${content.length}`);
             break;
@@ -541,6 +926,24 @@ function App() {
     }
   };
 
+  const loadMoreFileVersions = async () => {
+    if (!selectedFolder || !selectedFile || !fileHistoryCursor || loadingMoreVersions) return;
+    
+    try {
+      setLoadingMoreVersions(true);
+      const history = await window.electronAPI.getFileHistory(selectedFolder.id, selectedFile, {
+        cursor: fileHistoryCursor,
+        limit: 100
+      });
+      setFileCommits(prev => [...prev, ...history.commits]);
+      setFileHistoryCursor(history.nextCursor);
+    } catch (error) {
+      console.error('Failed to load more versions:', error);
+    } finally {
+      setLoadingMoreVersions(false);
+    }
+  };
+
   const loadFileStorageInfo = async (folderId: string, filePath: string) => {
     if (!window.electronAPI.getFileStorageInfo) {
       console.warn('getFileStorageInfo API not available');
@@ -587,6 +990,70 @@ function App() {
     await loadFileStorageInfo(targetFolderId, filePath);
   };
 
+  const handleViewAsOf = async (folderId: string, target: string | null) => {
+    if (!target) {
+      setTreeSnapshots(prev => {
+        const next = { ...prev };
+        delete next[folderId];
+        return next;
+      });
+      return;
+    }
+    
+    if (!window.electronAPI.listTreeAt) return;
+    
+    try {
+      const snapshot = await window.electronAPI.listTreeAt(folderId, target);
+      setTreeSnapshots(prev => ({ ...prev, [folderId]: snapshot }));
+    } catch (error) {
+      console.error('Failed to load tree snapshot:', error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      alert(`Failed to load the folder as of that moment:\n\n${errorMessage}`);
+    }
+  };
+
+  // Open a file from a historical tree, showing its content at that version
+  const handleSelectSnapshotFile = async (folderId: string, filePath: string, commitHash: string) => {
+    const snapshot = treeSnapshots[folderId];
+    await handleSelectTimelineCommit({
+      hash: commitHash,
+      message: `Snapshot ${commitHash.substring(0, 7)}`,
+      date: snapshot ? snapshot.commitDate : new Date(),
+      author: '',
+      changedFiles: []
+    }, filePath, folderId);
+  };
+
+  // Open a search hit; removed text lives in the version before the change
+  const handleOpenSearchResult = async (result: SearchResult) => {
+    setShowSearch(false);
+    const hash = result.kind === 'removed' ? `${result.commitHash}^` : result.commitHash;
+    await handleSelectTimelineCommit({
+      hash,
+      message: result.message,
+      date: result.date,
+      author: '',
+      changedFiles: [result.filePath]
+    }, result.filePath, result.folderId);
+  };
+
+  // Compare with the version from before the catch-up to show what changed meanwhile
+  const handleOpenStartupChange = async (folderId: string, detected: DetectedChanges, filePath: string) => {
+    handleDismissStartupChanges();
+    await handleSelectTimelineCommit({
+      hash: `${detected.commitHash}^`,
+      message: '',
+      date: detected.date,
+      author: '',
+      changedFiles: [filePath]
+    }, filePath, folderId);
+  };
+
+  const handleDismissStartupChanges = () => {
+    setStartupChanges({});
+    window.electronAPI.dismissStartupChanges?.();
+  };
+
   const handleSelectCommit = async (commit: Commit) => {
     if (!selectedFolder || !selectedFile) return;
 
@@ -611,6 +1078,24 @@ function App() {
     }
   };
 
+  const handleSelectTimelineCommit = async (commit: Commit, file: string, folderId?: string) => {
+    const targetFolderId = folderId || selectedFolder?.id;
+    if (!targetFolderId) return;
+    
+    await handleSelectFile(file, targetFolderId);
+    setSelectedCommit(commit);
+    
+    try {
+      setLoading(true);
+      const diff = await window.electronAPI.getDiff(targetFolderId, file, commit.hash);
+      setDiffResult(diff);
+    } catch (error) {
+      console.error('Failed to get diff:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleRestoreFile = async (filePath: string, commitHash: string) => {
     if (!selectedFolder) return;
 
@@ -632,6 +1117,21 @@ function App() {
     }
   };
   
+  // Show the file against the same old version again, now that some of its changes are back
+  const handleHunksRestored = async () => {
+    if (!selectedFolder || !selectedFile) return;
+    
+    await loadCommits(selectedFolder.id);
+    if (selectedCommit) {
+      try {
+        const diff = await window.electronAPI.getDiff(selectedFolder.id, selectedFile, selectedCommit.hash);
+        setDiffResult(diff);
+      } catch (error) {
+        console.error('Failed to get diff:', error);
+      }
+    }
+  };
+  
   const handleCreateFile = async () => {
     if (!selectedFolder || !newFileName.trim()) {
       alert('Please enter a file name');
@@ -730,71 +1230,157 @@ function App() {
     }
   };
 
-  const handleCleanupVersions = async (folderId: string, filePath: string) => {
-    // Check storage info first
-    if (!fileStorageInfo) {
-      alert('Loading storage information... Please try again.');
-      return;
+  const handleOpenBookmarkDialog = (commit: Commit, folderId?: string) => {
+    const targetFolderId = folderId || selectedFolder?.id;
+    if (!targetFolderId) return;
+    
+    setBookmarkName('');
+    setBookmarkDescription('');
+    setBookmarkDialog({ folderId: targetFolderId, commit });
+  };
+
+  const handleSaveBookmark = async () => {
+    if (!bookmarkDialog || !bookmarkName.trim() || !window.electronAPI.addBookmark) return;
+    
+    try {
+      await window.electronAPI.addBookmark(
+        bookmarkDialog.folderId,
+        bookmarkDialog.commit.hash,
+        bookmarkName,
+        bookmarkDescription || undefined
+      );
+      await loadBookmarks(bookmarkDialog.folderId);
+      setBookmarkDialog(null);
+    } catch (error) {
+      console.error('Failed to add bookmark:', error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      alert(`Failed to add bookmark:\n\n${errorMessage}`);
     }
+  };
+
+  const handleRemoveBookmark = async (bookmark: Bookmark) => {
+    if (!selectedFolder || !window.electronAPI.removeBookmark) return;
     
-    // Only allow cleanup if total size > 10MB
-    const minSizeForCleanup = 10 * 1024 * 1024; // 10MB in bytes
-    if (fileStorageInfo.totalSize < minSizeForCleanup) {
-      alert(`This file's total storage (${formatSize(fileStorageInfo.totalSize)}) is less than 10 MB.\n\nCleanup is only available for files using more than 10 MB.`);
+    if (!confirm(`Remove bookmark "${bookmark.name}"?\n\nThe version itself is kept.`)) {
       return;
     }
     
+    try {
+      await window.electronAPI.removeBookmark(selectedFolder.id, bookmark.id);
+      await loadBookmarks(selectedFolder.id);
+    } catch (error) {
+      console.error('Failed to remove bookmark:', error);
+    }
+  };
+
+  const loadPurgeBackups = async (folderId: string) => {
+    if (!window.electronAPI.listPurgeBackups) return;
+    
+    try {
+      setPurgeBackups(await window.electronAPI.listPurgeBackups(folderId));
+    } catch (error) {
+      console.error('Failed to load purge backups:', error);
+      setPurgeBackups([]);
+    }
+  };
+
+  const handleTogglePurgeMode = () => {
+    if (!selectedFolder) return;
+    
+    if (!purgeMode) {
+      loadPurgeBackups(selectedFolder.id);
+    }
+    setPurgeMode(!purgeMode);
+    setPurgeSelection(new Set());
+  };
+
+  const handleTogglePurgeSelection = (commit: Commit) => {
+    const next = new Set(purgeSelection);
+    if (next.has(commit.hash)) {
+      next.delete(commit.hash);
+    } else {
+      next.add(commit.hash);
+    }
+    setPurgeSelection(next);
+  };
+
+  const handlePreviewPurge = async (includeBookmarked: boolean) => {
+    if (!selectedFolder || !selectedFile || !window.electronAPI.previewPurge) return;
+    
+    try {
+      const preview = await window.electronAPI.previewPurge(
+        selectedFolder.id,
+        selectedFile,
+        Array.from(purgeSelection),
+        includeBookmarked
+      );
+      setPurgeIncludeBookmarked(includeBookmarked);
+      setPurgePreview(preview);
+    } catch (error) {
+      console.error('Failed to preview purge:', error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      alert(`Failed to preview purge:\n\n${errorMessage}`);
+    }
+  };
+
+  const handleConfirmPurge = async () => {
+    if (!selectedFolder || !selectedFile || !purgePreview || !window.electronAPI.purgeVersions) return;
+    
     try {
       setLoading(true);
-      
-      // Get all commits for this file
-      const allCommits = await window.electronAPI.getCommits(folderId, 1000);
-      const fileCommitsAll = allCommits.filter(commit => 
-        commit.changedFiles.includes(filePath)
+      const result = await window.electronAPI.purgeVersions(
+        selectedFolder.id,
+        selectedFile,
+        purgePreview.versions.map(version => version.hash),
+        purgeBackupDays,
+        purgeIncludeBookmarked
       );
       
-      if (fileCommitsAll.length <= 1) {
-        alert('This file only has 1 version. No cleanup needed.');
-        return;
-      }
-      
-      const confirmMessage = 
-        `⚠️ WARNING: This action cannot be undone!\n\n` +
-        `File: ${filePath.split('/').pop()}\n` +
-        `Current total size: ${formatSize(fileStorageInfo.totalSize)}\n` +
-        `Versions to delete: ${fileCommitsAll.length - 1}\n\n` +
-        `This will delete ALL old versions and keep only the most recent one.\n\n` +
-        `Continue?`;
-      
-      if (!confirm(confirmMessage)) {
-        return;
-      }
+      setPurgePreview(null);
+      setPurgeSelection(new Set());
       
-      // Keep only the most recent commit, delete all others
-      const commitsToDelete = fileCommitsAll.slice(1).map(c => c.hash);
+      // Reload everything
+      await loadCommits(selectedFolder.id);
+      await loadCurrentFileContent(selectedFile, selectedFolder.id);
+      await loadFileStorageInfo(selectedFolder.id, selectedFile);
+      await loadPurgeBackups(selectedFolder.id);
       
-      console.log(`Cleaning up ${commitsToDelete.length} old versions, keeping only the most recent`);
+      alert(
+        `✓ Purged ${result.preview.versions.length} version(s).\n\n` +
+        (result.backup
+          ? `They can be restored until ${new Date(result.backup.expiresAt).toLocaleString()}.`
+          : `Space has been reclaimed; this cannot be undone.`)
+      );
+    } catch (error) {
+      console.error('Failed to purge versions:', error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      alert(`Failed to purge versions:\n\n${errorMessage}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRestorePurgeBackup = async (backup: PurgeBackup) => {
+    if (!selectedFolder || !window.electronAPI.restorePurgeBackup) return;
+    
+    if (!confirm(`Restore the versions purged on ${new Date(backup.createdAt).toLocaleString()}?`)) {
+      return;
+    }
+    
+    try {
+      setLoading(true);
+      await window.electronAPI.restorePurgeBackup(selectedFolder.id, backup.id);
       
-      // Call the backend to delete old commits
-      if (window.electronAPI.cleanupCommits) {
-        await window.electronAPI.cleanupCommits(folderId, filePath, commitsToDelete);
-        
-        // Reload everything
-        await loadCommits(folderId);
-        
-        if (selectedFile && selectedFolder) {
-          await loadCurrentFileContent(selectedFile, selectedFolder.id);
-          await loadFileStorageInfo(selectedFolder.id, selectedFile);
-        }
-        
-        alert(`✓ Successfully cleaned up ${commitsToDelete.length} old version(s).\n\nOnly the most recent version remains.`);
-      } else {
-        alert('Cleanup feature not available.');
+      await loadCommits(selectedFolder.id);
+      if (selectedFile) {
+        await loadCurrentFileContent(selectedFile, selectedFolder.id);
+        await loadFileStorageInfo(selectedFolder.id, selectedFile);
       }
+      await loadPurgeBackups(selectedFolder.id);
     } catch (error) {
-      console.error('Failed to cleanup versions:', error);
+      console.error('Failed to restore purge backup:', error);
       const errorMessage = error instanceof Error ? error.message : String(error);
-      alert(`Failed to cleanup versions:\n\n${errorMessage}`);
+      alert(`Failed to restore purged versions:\n\n${errorMessage}`);
     } finally {
       setLoading(false);
     }
@@ -831,6 +1417,15 @@ function App() {
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
               </svg>
             </button>
+            <button
+              onClick={() => setShowSearch(true)}
+              className="text-gray-500 hover:text-gray-700"
+              title="Search History"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+              </svg>
+            </button>
             <button
               onClick={() => setShowSettings(!showSettings)}
               className="text-gray-500 hover:text-gray-700"
@@ -844,6 +1439,155 @@ function App() {
           </div>
         </div>
         
+        {/* Config Recovery Prompt */}
+        {configRecovery && (
+          <div className="p-3 bg-red-50 border-b border-red-200 text-xs text-red-900">
+            <p className="font-semibold mb-1">
+              {configRecovery.kind === 'unreadable'
+                ? 'Your settings file could not be read, so you are starting with empty settings'
+                : 'Some settings were invalid and have been reset'}
+            </p>
+            <p className="mb-1">{configRecovery.message}</p>
+            {configRecovery.problems.length > 0 && (
+              <ul className="mb-1 list-disc list-inside text-red-700 max-h-24 overflow-auto">
+                {configRecovery.problems.map(problem => (
+                  <li key={problem} className="truncate" title={problem}>{problem}</li>
+                ))}
+              </ul>
+            )}
+            <p className="mb-2 text-red-700 break-all">
+              {configRecovery.quarantinedPath
+                ? `The original file was kept at ${configRecovery.quarantinedPath}. Fix it and load it again, or keep the current settings.`
+                : 'The file could not be moved aside, so changes to settings are not saved until it is fixed.'}
+            </p>
+            <div className="flex flex-wrap gap-1">
+              {configRecovery.quarantinedPath && (
+                <button
+                  onClick={() => window.electronAPI.showQuarantinedConfig?.()}
+                  className="px-2 py-1 border border-red-300 hover:bg-red-100 rounded"
+                >
+                  Show file
+                </button>
+              )}
+              <button
+                onClick={handleReloadQuarantinedConfig}
+                className="px-2 py-1 bg-red-500 hover:bg-red-600 text-white rounded"
+                title="Load the fixed file, replacing the current settings"
+              >
+                Load fixed file
+              </button>
+              {configRecovery.quarantinedPath && (
+                <button
+                  onClick={handleDismissConfigRecovery}
+                  className="px-2 py-1 border border-red-300 hover:bg-red-100 rounded"
+                >
+                  Keep current settings
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+        
+        {/* Missing Folder Prompts */}
+        {Object.values(missingFolders).map(missing => (
+          <div key={missing.folderId} className="p-3 bg-amber-50 border-b border-amber-200 text-xs text-amber-900">
+            <p className="font-semibold mb-1">{missing.name} is no longer where it was</p>
+            <p className="mb-1 text-amber-700 break-all">
+              {missing.path} was moved, renamed or deleted. Point it to its new location to keep its history.
+            </p>
+            {missing.candidates.length > 0 && (
+              <ul className="mb-2 max-h-32 overflow-auto">
+                {missing.candidates.map(candidate => (
+                  <li key={candidate.path} className="flex items-center gap-2 py-0.5">
+                    <span className="flex-1 min-w-0 truncate" title={`${candidate.path}\n${candidate.reason}`}>
+                      {candidate.path}
+                      <span className="text-amber-600"> ({candidate.reason})</span>
+                    </span>
+                    <button
+                      onClick={() => handleRelinkFolder(missing.folderId, candidate.path)}
+                      className={`px-2 py-1 rounded flex-shrink-0 ${candidate.match === 'name' ? 'border border-amber-300 hover:bg-amber-100' : 'bg-amber-500 hover:bg-amber-600 text-white'}`}
+                    >
+                      Relink here
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <div className="flex flex-wrap gap-1">
+              <button
+                onClick={() => handleRelinkFolder(missing.folderId)}
+                className="px-2 py-1 border border-amber-300 hover:bg-amber-100 rounded"
+              >
+                Choose location...
+              </button>
+              <button
+                onClick={() => dismissMissingFolder(missing.folderId)}
+                className="px-2 py-1 border border-amber-300 hover:bg-amber-100 rounded"
+              >
+                Dismiss
+              </button>
+            </div>
+          </div>
+        ))}
+        
+        {/* Bulk Change Prompts */}
+        {Object.entries(bulkChanges).map(([folderId, change]) => (
+          <div key={folderId} className="p-3 bg-blue-50 border-b border-blue-200 text-xs text-blue-900">
+            <p className="font-semibold mb-1">
+              {change.fileCount} files changed at once in {folders.find(f => f.id === folderId)?.name || folderId}
+            </p>
+            <p className="truncate text-blue-700 mb-2" title={change.samplePaths.join('\n')}>
+              {change.samplePaths.join(', ')}{change.fileCount > change.samplePaths.length ? ', …' : ''}
+            </p>
+            <div className="flex flex-wrap gap-1">
+              <button
+                onClick={() => handleResolveBulkChange(folderId, 'commit')}
+                className="px-2 py-1 bg-blue-500 hover:bg-blue-600 text-white rounded"
+                title="Save everything as one version labelled as a bulk change"
+              >
+                Save as one version
+              </button>
+              <button
+                onClick={() => handleResolveBulkChange(folderId, 'exclude')}
+                className="px-2 py-1 border border-blue-300 hover:bg-blue-100 rounded"
+                title="Add these paths to the folder's ignore patterns"
+              >
+                Ignore these files
+              </button>
+              <button
+                onClick={() => handleResolveBulkChange(folderId, 'discard')}
+                className="px-2 py-1 border border-blue-300 hover:bg-blue-100 rounded"
+                title="Do not save a version now; the files are saved the next time they change"
+              >
+                Discard
+              </button>
+            </div>
+          </div>
+        ))}
+        
+        {/* Skipped Files Warning */}
+        {Object.keys(skippedFiles).length > 0 && (
+          <div className="p-3 bg-amber-50 border-b border-amber-200 text-xs text-amber-800">
+            <div className="flex items-center justify-between mb-1">
+              <span className="font-semibold">Files not versioned</span>
+              <button
+                onClick={() => setSkippedFiles({})}
+                className="text-amber-600 hover:text-amber-800"
+                title="Dismiss"
+              >
+                ✕
+              </button>
+            </div>
+            <ul className="max-h-24 overflow-y-auto space-y-0.5">
+              {Object.entries(skippedFiles).flatMap(([folderId, files]) => files.map(file => (
+                <li key={`${folderId}-${file.path}`} className="truncate" title={file.reason}>
+                  {folders.find(f => f.id === folderId)?.name}/{file.path}: {file.reason}
+                </li>
+              )))}
+            </ul>
+          </div>
+        )}
+        
         <div className="flex-1 overflow-auto">
           <FolderFileTree
             folders={folders}
@@ -854,7 +1598,19 @@ function App() {
             selectedFolder={selectedFolder}
             selectedFile={selectedFile}
             onSelectFolder={handleSelectFolder}
-            onSelectFile={(folderId, filePath) => handleSelectFile(filePath, folderId)}
+            onSelectFile={(folderId, filePath, commitHash) => {
+              if (commitHash) {
+                handleSelectSnapshotFile(folderId, filePath, commitHash);
+              } else {
+                handleSelectFile(filePath, folderId);
+              }
+            }}
+            snapshots={treeSnapshots}
+            onViewAsOf={handleViewAsOf}
+            policyStatuses={filePolicyStatuses}
+            onRestoreStoredVersion={handleRestoreStoredVersion}
+            availability={folderAvailability}
+            specialEntries={specialEntries}
           />
         </div>
         
@@ -918,6 +1674,8 @@ function App() {
                         console.log('onContentSaved: Commits reloaded, keeping current displayed content');
                       }
                     }}
+                    folderId={selectedFolder?.id}
+                    onHunksRestored={handleHunksRestored}
                   />
                 ) : (
                   <div className="flex items-center justify-center h-full text-gray-400">
@@ -948,22 +1706,11 @@ function App() {
                     )}
                   </div>
                   
-                  {/* Cleanup button */}
+                  {/* Purge button */}
                   <button
-                    onClick={() => {
-                      if (selectedFolder && selectedFile) {
-                        const confirmCleanup = window.confirm(
-                          `Clean up old versions of "${selectedFile.split('/').pop()}"?\n\n` +
-                          `This will keep only the 10 most recent versions and delete all older ones.\n\n` +
-                          `This action cannot be undone.`
-                        );
-                        if (confirmCleanup) {
-                          handleCleanupVersions(selectedFolder.id, selectedFile);
-                        }
-                      }
-                    }}
-                    className="text-gray-500 hover:text-red-600 p-1 rounded hover:bg-gray-100"
-                    title="Cleanup old versions"
+                    onClick={handleTogglePurgeMode}
+                    className={`p-1 rounded hover:bg-gray-100 ${purgeMode ? 'text-red-600' : 'text-gray-500 hover:text-red-600'}`}
+                    title={purgeMode ? 'Cancel purge' : 'Purge selected versions'}
                   >
                     <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
@@ -971,6 +1718,51 @@ function App() {
                   </button>
                 </div>
                 
+                {/* Purge selection bar */}
+                {purgeMode && (
+                  <div className="p-2 border-b border-gray-200 bg-red-50 space-y-2">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-xs text-red-800">
+                        {purgeSelection.size === 0 ? 'Select versions to purge' : `${purgeSelection.size} selected`}
+                      </span>
+                      <div className="flex gap-1">
+                        <button
+                          onClick={handleTogglePurgeMode}
+                          className="px-2 py-0.5 text-xs border border-gray-300 bg-white rounded hover:bg-gray-50"
+                        >
+                          Cancel
+                        </button>
+                        <button
+                          onClick={() => handlePreviewPurge(false)}
+                          disabled={purgeSelection.size === 0}
+                          className="px-2 py-0.5 text-xs bg-red-500 text-white rounded hover:bg-red-600 disabled:bg-gray-300"
+                        >
+                          Preview purge
+                        </button>
+                      </div>
+                    </div>
+                    
+                    {purgeBackups.length > 0 && (
+                      <div className="pt-2 border-t border-red-200 space-y-1">
+                        <div className="text-xs text-gray-600">Recent purges:</div>
+                        {purgeBackups.map(backup => (
+                          <div key={backup.id} className="flex items-center justify-between gap-2 text-xs">
+                            <span className="text-gray-700 truncate" title={`Restorable until ${new Date(backup.expiresAt).toLocaleString()}`}>
+                              {new Date(backup.createdAt).toLocaleString()}
+                            </span>
+                            <button
+                              onClick={() => handleRestorePurgeBackup(backup)}
+                              className="text-blue-600 hover:text-blue-800 flex-shrink-0"
+                            >
+                              Restore
+                            </button>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+                
                 <CommitHistory
                   commits={fileCommits}
                   selectedCommit={selectedCommit}
@@ -988,7 +1780,16 @@ function App() {
                     }
                   }}
                   loading={loading}
-                  showRestore={true}
+                  hasMore={!!fileHistoryCursor}
+                  loadingMore={loadingMoreVersions}
+                  onLoadMore={loadMoreFileVersions}
+                  selectable={purgeMode}
+                  selectedHashes={purgeSelection}
+                  onToggleSelect={handleTogglePurgeSelection}
+                  bookmarks={selectedFolder ? bookmarksByFolder[selectedFolder.id] : undefined}
+                  onAddBookmark={purgeMode ? undefined : (commit: Commit) => handleOpenBookmarkDialog(commit)}
+                  onRemoveBookmark={handleRemoveBookmark}
+                  showRestore={!purgeMode}
                   onRestore={(commitHash: string) => {
                     if (selectedFile) {
                       handleRestoreFile(selectedFile, commitHash);
@@ -998,6 +1799,23 @@ function App() {
               </div>
             </div>
           </>
+        ) : selectedFolder ? (
+          <Timeline
+            commits={commits}
+            allFoldersCommits={allFoldersCommits}
+            onSelectCommit={handleSelectTimelineCommit}
+            selectedCommit={selectedCommit}
+            scope={timelineScope}
+            onScopeChange={setTimelineScope}
+            currentFolderName={selectedFolder.name}
+            hasMore={timelineScope === 'all' ? Object.keys(allFoldersCursors).length > 0 : !!commitsCursor}
+            loadingMore={loadingMoreCommits}
+            onLoadMore={() => timelineScope === 'all' ? loadAllFoldersCommits(true) : loadMoreCommits()}
+            currentFolderId={selectedFolder.id}
+            bookmarks={bookmarksByFolder}
+            onAddBookmark={handleOpenBookmarkDialog}
+            onRestoreFolder={(commit?: Commit) => setFolderRestore({ initialTarget: commit?.hash })}
+          />
         ) : (
           <div className="flex-1 flex items-center justify-center text-gray-400">
             <div className="text-center">
@@ -1053,6 +1871,183 @@ function App() {
         />
       )}
 
+      {/* Search Modal */}
+      {showSearch && (
+        <SearchPanel
+          folders={folders}
+          onClose={() => setShowSearch(false)}
+          onOpenResult={handleOpenSearchResult}
+        />
+      )}
+
+      {/* Startup Catch-up Summary */}
+      {Object.keys(startupChanges).length > 0 && (
+        <StartupChanges
+          folders={folders}
+          detected={startupChanges}
+          onOpenFile={handleOpenStartupChange}
+          onDismiss={handleDismissStartupChanges}
+        />
+      )}
+
+      {/* Folder Restore Modal */}
+      {folderRestore && selectedFolder && (
+        <FolderRestore
+          folder={selectedFolder}
+          initialTarget={folderRestore.initialTarget}
+          onClose={() => setFolderRestore(null)}
+          onRestored={() => {
+            loadCommits(selectedFolder.id);
+            loadAllFoldersFiles();
+          }}
+        />
+      )}
+
+      {/* Bookmark Dialog */}
+      {bookmarkDialog && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg shadow-xl p-6 w-96">
+            <h2 className="text-lg font-semibold mb-1">Bookmark Version</h2>
+            <p className="text-xs text-gray-500 mb-4">
+              {new Date(bookmarkDialog.commit.date).toLocaleString()}
+            </p>
+            
+            <div className="mb-4 space-y-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Name:
+                </label>
+                <input
+                  type="text"
+                  value={bookmarkName}
+                  onChange={(e) => setBookmarkName(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') {
+                      handleSaveBookmark();
+                    } else if (e.key === 'Escape') {
+                      setBookmarkDialog(null);
+                    }
+                  }}
+                  placeholder="Sent to client"
+                  className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  autoFocus
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Description (optional):
+                </label>
+                <textarea
+                  value={bookmarkDescription}
+                  onChange={(e) => setBookmarkDescription(e.target.value)}
+                  rows={3}
+                  className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+                />
+              </div>
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <button
+                onClick={() => setBookmarkDialog(null)}
+                className="px-4 py-2 text-sm border border-gray-300 rounded hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSaveBookmark}
+                disabled={!bookmarkName.trim()}
+                className="px-4 py-2 text-sm bg-blue-500 hover:bg-blue-600 text-white rounded disabled:bg-gray-300"
+              >
+                Save
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Purge Preview Dialog */}
+      {purgePreview && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg shadow-xl p-6 w-[500px]">
+            <h2 className="text-lg font-semibold mb-4">Purge Versions</h2>
+            
+            <div className="mb-6 space-y-3">
+              <p className="text-sm text-gray-700">
+                File: <span className="font-semibold">{purgePreview.filePath}</span>
+              </p>
+              
+              {purgePreview.versions.length > 0 ? (
+                <div className="max-h-48 overflow-y-auto border border-gray-200 rounded divide-y divide-gray-200">
+                  {purgePreview.versions.map(version => (
+                    <div key={version.hash} className="px-2 py-1 flex justify-between gap-2 text-xs">
+                      <span className="text-gray-700 truncate">{new Date(version.date).toLocaleString()}</span>
+                      <span className="text-gray-500 flex-shrink-0">{formatSize(version.size)}</span>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-gray-600">None of the selected versions can be purged.</p>
+              )}
+              
+              {purgePreview.refused.length > 0 && (
+                <ul className="text-xs text-orange-700 space-y-1">
+                  {purgePreview.refused.map(refusal => (
+                    <li key={refusal.hash}>• {refusal.hash.substring(0, 7)}: {refusal.reason}</li>
+                  ))}
+                </ul>
+              )}
+              
+              <ul className="text-sm text-gray-600 space-y-1 ml-4">
+                <li>• Space freed: <span className="font-medium">{formatSize(purgePreview.bytesAffected)}</span></li>
+                <li>• Versions rewritten: <span className="font-medium">{purgePreview.rewrittenCommits}</span></li>
+              </ul>
+              
+              {(purgeIncludeBookmarked || purgePreview.refused.some(refusal => refusal.bookmarked)) && (
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={purgeIncludeBookmarked}
+                    onChange={(e) => handlePreviewPurge(e.target.checked)}
+                  />
+                  Also purge bookmarked versions
+                </label>
+              )}
+              
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                Keep a backup for
+                <input
+                  type="number"
+                  min={0}
+                  value={purgeBackupDays}
+                  onChange={(e) => setPurgeBackupDays(Math.max(0, parseInt(e.target.value, 10) || 0))}
+                  className="w-16 px-2 py-1 border border-gray-300 rounded text-sm"
+                />
+                days
+              </label>
+              {purgeBackupDays === 0 && (
+                <p className="text-xs text-red-600">Without a backup this action cannot be undone.</p>
+              )}
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <button
+                onClick={() => setPurgePreview(null)}
+                className="px-4 py-2 text-sm border border-gray-300 rounded hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleConfirmPurge}
+                disabled={purgePreview.versions.length === 0 || loading}
+                className="px-4 py-2 text-sm bg-red-500 hover:bg-red-600 text-white rounded disabled:bg-gray-300"
+              >
+                Purge {purgePreview.versions.length} version(s)
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Reconnect Dialog */}
       {reconnectDialog && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
@@ -1,5 +1,5 @@
 import React from 'react';
-import type { Commit, FileStorageInfo } from '../types';
+import type { Commit, FileStorageInfo, Bookmark } from '../types';
 
 interface CommitHistoryProps {
   commits: Commit[];
@@ -11,8 +11,17 @@ interface CommitHistoryProps {
   onToggleCompare: (commit: Commit) => void;
   onSelectCurrent?: () => void;
   loading: boolean;
+  hasMore?: boolean; // More (older) versions can be loaded
+  loadingMore?: boolean;
+  onLoadMore?: () => void;
   showRestore?: boolean;
   onRestore?: (commitHash: string) => void;
+  selectable?: boolean; // Show checkboxes, e.g. to pick versions to purge
+  selectedHashes?: Set<string>;
+  onToggleSelect?: (commit: Commit) => void;
+  bookmarks?: Bookmark[];
+  onAddBookmark?: (commit: Commit) => void;
+  onRemoveBookmark?: (bookmark: Bookmark) => void;
 }
 
 const CommitHistory: React.FC<CommitHistoryProps> = ({
@@ -25,9 +34,33 @@ const CommitHistory: React.FC<CommitHistoryProps> = ({
   onToggleCompare,
   onSelectCurrent,
   loading,
+  hasMore = false,
+  loadingMore = false,
+  onLoadMore,
   showRestore = false,
-  onRestore
+  onRestore,
+  selectable = false,
+  selectedHashes,
+  onToggleSelect,
+  bookmarks = [],
+  onAddBookmark,
+  onRemoveBookmark
 }) => {
+  const [bookmarkedOnly, setBookmarkedOnly] = React.useState(false);
+  
+  const bookmarksByCommit = React.useMemo(() => {
+    const map = new Map<string, Bookmark[]>();
+    bookmarks.forEach(bookmark => {
+      map.set(bookmark.commitHash, [...(map.get(bookmark.commitHash) || []), bookmark]);
+    });
+    return map;
+  }, [bookmarks]);
+  
+  const visibleCommits = bookmarkedOnly
+    ? commits.filter(commit => bookmarksByCommit.has(commit.hash))
+    : commits;
+  
+
   const formatDate = (date: Date) => {
     const d = new Date(date);
     const now = new Date();
@@ -44,6 +77,14 @@ const CommitHistory: React.FC<CommitHistoryProps> = ({
     return d.toLocaleDateString() + ' ' + d.toLocaleTimeString();
   };
   
+  // Request older versions when the list is scrolled near its end
+  const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    const el = e.currentTarget;
+    if (hasMore && !loadingMore && onLoadMore && el.scrollHeight - el.scrollTop - el.clientHeight < 200) {
+      onLoadMore();
+    }
+  };
+  
   // Generate size trend graph
   const generateSizeTrend = () => {
     if (!fileStorageInfo || fileStorageInfo.sizeByCommit.length === 0) {
@@ -76,7 +117,7 @@ const CommitHistory: React.FC<CommitHistoryProps> = ({
   };
 
   return (
-    <div className="flex-1 overflow-y-auto">
+    <div className="flex-1 overflow-y-auto" onScroll={handleScroll}>
       {loading ? (
         <div className="flex items-center justify-center h-full">
           <div className="text-gray-400">Loading commits...</div>
@@ -129,7 +170,7 @@ const CommitHistory: React.FC<CommitHistoryProps> = ({
                     </svg>
                     <div>
                       <div className="font-semibold text-orange-800">Large file history ({formatSize(fileStorageInfo.totalSize)})</div>
-                      <div className="text-orange-700 mt-0.5">Consider using the cleanup button to remove old versions and save space.</div>
+                      <div className="text-orange-700 mt-0.5">Use the purge button to remove selected old versions and save space.</div>
                     </div>
                   </div>
                 </div>
@@ -137,6 +178,20 @@ const CommitHistory: React.FC<CommitHistoryProps> = ({
             </div>
           )}
           
+          {/* Bookmark filter */}
+          {bookmarksByCommit.size > 0 && (
+            <div className="px-2 py-1.5 border-b border-gray-200 bg-white">
+              <label className="flex items-center gap-2 text-xs text-gray-600 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={bookmarkedOnly}
+                  onChange={(e) => setBookmarkedOnly(e.target.checked)}
+                />
+                Bookmarked versions only
+              </label>
+            </div>
+          )}
+          
           <div className="divide-y-2 divide-gray-200">
             {/* Current Version Item */}
             <div
@@ -159,8 +214,9 @@ const CommitHistory: React.FC<CommitHistoryProps> = ({
           </div>
           
           {/* Previous Versions */}
-          {commits.map((commit, index) => {
+          {visibleCommits.map((commit, index) => {
             const isSelected = selectedCommit?.hash === commit.hash;
+            const commitBookmarks = bookmarksByCommit.get(commit.hash) || [];
             
             // Extract just the timestamp from the message
             // Format: "Auto-commit: YYYY-MM-DD HH:MM:SS - [filename]..."
@@ -170,6 +226,9 @@ const CommitHistory: React.FC<CommitHistoryProps> = ({
             // Get size for this commit
             const commitSize = fileStorageInfo?.sizeByCommit.find(s => s.hash === commit.hash)?.size;
             
+            // File history entries carry the file's path in this version
+            const change = commit.fileChanges?.[0];
+            
             return (
               <div
                 key={commit.hash}
@@ -179,13 +238,65 @@ const CommitHistory: React.FC<CommitHistoryProps> = ({
                 onClick={() => onSelectCommit(commit)}
               >
                 <div className="flex items-start justify-between gap-2">
+                  {selectable && onToggleSelect && (
+                    <input
+                      type="checkbox"
+                      checked={selectedHashes?.has(commit.hash) || false}
+                      onClick={(e) => e.stopPropagation()}
+                      onChange={() => onToggleSelect(commit)}
+                      className="mt-0.5 flex-shrink-0"
+                    />
+                  )}
                   <div className="flex-1 min-w-0">
                     <p className="text-xs text-gray-700 truncate">{displayMessage}</p>
                     {commitSize !== undefined && (
                       <p className="text-xs text-gray-500 mt-0.5">{formatSize(commitSize)}</p>
                     )}
+                    {change?.status === 'renamed' && change.oldPath && (
+                      <p className="text-xs text-purple-600 mt-0.5 truncate" title={`${change.oldPath} → ${change.path}`}>
+                        Renamed from {change.oldPath}
+                      </p>
+                    )}
+                    {commitBookmarks.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-1">
+                        {commitBookmarks.map(bookmark => (
+                          <span
+                            key={bookmark.id}
+                            className="inline-flex items-center gap-1 px-1.5 py-0.5 text-xs bg-amber-100 text-amber-800 rounded"
+                            title={bookmark.description || bookmark.name}
+                          >
+                            🔖 {bookmark.name}
+                            {onRemoveBookmark && (
+                              <button
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  onRemoveBookmark(bookmark);
+                                }}
+                                className="text-amber-600 hover:text-amber-900"
+                                title="Remove bookmark"
+                              >
+                                ×
+                              </button>
+                            )}
+                          </span>
+                        ))}
+                      </div>
+                    )}
                   </div>
                   
+                  {onAddBookmark && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onAddBookmark(commit);
+                      }}
+                      className="px-1 py-0.5 text-xs text-gray-400 hover:text-amber-600 flex-shrink-0"
+                      title="Bookmark this version"
+                    >
+                      🔖
+                    </button>
+                  )}
+                  
                   {showRestore && onRestore && (
                     <button
                       onClick={(e) => {
@@ -202,6 +313,19 @@ const CommitHistory: React.FC<CommitHistoryProps> = ({
               </div>
             );
           })}
+          
+          {/* Older Versions */}
+          {hasMore && onLoadMore && (
+            <div className="p-2 text-center">
+              <button
+                onClick={onLoadMore}
+                disabled={loadingMore}
+                className="px-3 py-1 text-xs text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+              >
+                {loadingMore ? 'Loading...' : 'Load older versions'}
+              </button>
+            </div>
+          )}
         </div>
         </>
       )}
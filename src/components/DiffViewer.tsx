@@ -1,16 +1,18 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import ReactDiffViewer, { DiffMethod } from 'react-diff-viewer-continued';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
 import { vscDarkPlus, vs } from 'react-syntax-highlighter/dist/esm/styles/prism';
-import type { DiffResult } from '../types';
+import type { DiffResult, FileHunks } from '../types';
 
 interface DiffViewerProps {
   diffResult: DiffResult;
   folderPath?: string; // Add folder path to enable saving
   onContentSaved?: () => void; // Callback after successful save
   onContentUpdated?: (newContent: string) => void; // Callback to update content immediately
+  folderId?: string; // Enables restoring individual changes from an old version
+  onHunksRestored?: () => void;
 }
 
 // Map file extensions to Prism language identifiers
@@ -59,12 +61,16 @@ const getLanguageFromExtension = (filename: string): string => {
   return languageMap[ext || ''] || 'text';
 };
 
-const DiffViewer: React.FC<DiffViewerProps> = ({ diffResult, folderPath, onContentSaved, onContentUpdated }) => {
+const DiffViewer: React.FC<DiffViewerProps> = ({ diffResult, folderPath, onContentSaved, onContentUpdated, folderId, onHunksRestored }) => {
   const [splitView, setSplitView] = useState(true);
   const [renderMode, setRenderMode] = useState<'diff' | 'preview'>('preview');
   const [isEditing, setIsEditing] = useState(false);
   const [editedContent, setEditedContent] = useState('');
   const [isSaving, setIsSaving] = useState(false);
+  const [fileHunks, setFileHunks] = useState<FileHunks | null>(null);
+  const [selectedHunks, setSelectedHunks] = useState<Set<number>>(new Set());
+  const [hunkError, setHunkError] = useState<string | null>(null);
+  const [restoringHunks, setRestoringHunks] = useState(false);
   
   // Check if we're showing the same content (no diff)
   const isShowingCurrentOnly = diffResult.oldCommit === 'current' && diffResult.newCommit === 'current';
@@ -75,6 +81,63 @@ const DiffViewer: React.FC<DiffViewerProps> = ({ diffResult, folderPath, onConte
   const language = getLanguageFromExtension(diffResult.fileName);
   const isCodeFile = language !== 'text' && language !== 'markdown';
   const canEdit = isShowingCurrentOnly && folderPath && !isDeletedFile; // Only allow editing current file content, not deleted files
+  // Changes can only be picked from an old version into the file on disk
+  const canPickHunks = !isShowingCurrentOnly && !isDeletedFile && diffResult.newCommit === 'current' &&
+    !!diffResult.filePath && !!diffResult.oldCommit && !!diffResult.baseHash && !!folderId && !!window.electronAPI.getDiffHunks;
+
+  // Hunks belong to the diff they were computed for
+  useEffect(() => {
+    setFileHunks(null);
+    setSelectedHunks(new Set());
+    setHunkError(null);
+  }, [diffResult]);
+
+  const handlePickHunks = async () => {
+    if (!canPickHunks || !window.electronAPI.getDiffHunks) return;
+    
+    try {
+      setHunkError(null);
+      setSelectedHunks(new Set());
+      // Checked against the file as it was when this diff was shown, not when picking starts
+      setFileHunks(await window.electronAPI.getDiffHunks(folderId!, diffResult.filePath!, diffResult.oldCommit!, diffResult.baseHash!));
+    } catch (error) {
+      setHunkError(error instanceof Error ? error.message : 'Failed to load changes');
+    }
+  };
+
+  const handleToggleHunk = (index: number) => {
+    const next = new Set(selectedHunks);
+    if (next.has(index)) {
+      next.delete(index);
+    } else {
+      next.add(index);
+    }
+    setSelectedHunks(next);
+  };
+
+  const handleRestoreHunks = async () => {
+    if (!fileHunks || selectedHunks.size === 0 || !folderId || !window.electronAPI.restoreHunks) return;
+    
+    setRestoringHunks(true);
+    try {
+      setHunkError(null);
+      await window.electronAPI.restoreHunks(
+        folderId,
+        fileHunks.filePath,
+        fileHunks.commitHash,
+        Array.from(selectedHunks),
+        fileHunks.baseHash
+      );
+      setFileHunks(null);
+      if (onHunksRestored) {
+        onHunksRestored();
+      }
+    } catch (error) {
+      setHunkError(error instanceof Error ? error.message : 'Failed to restore changes');
+    } finally {
+      setRestoringHunks(false);
+    }
+  };
 
   // Initialize edited content when entering edit mode
   const handleStartEdit = () => {
@@ -283,8 +346,36 @@ const DiffViewer: React.FC<DiffViewerProps> = ({ diffResult, folderPath, onConte
             </>
           )}
           
+          {canPickHunks && (
+            fileHunks ? (
+              <>
+                <button
+                  onClick={() => setFileHunks(null)}
+                  className="px-3 py-1 text-xs bg-gray-100 hover:bg-gray-200 rounded border border-gray-300"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleRestoreHunks}
+                  disabled={selectedHunks.size === 0 || restoringHunks}
+                  className="px-3 py-1 text-xs bg-blue-500 hover:bg-blue-600 text-white rounded border border-blue-600 disabled:bg-gray-300 disabled:border-gray-400"
+                >
+                  {restoringHunks ? 'Applying...' : `Apply ${selectedHunks.size} selected to current file`}
+                </button>
+              </>
+            ) : (
+              <button
+                onClick={handlePickHunks}
+                className="px-3 py-1 text-xs bg-gray-100 hover:bg-gray-200 rounded border border-gray-300"
+                title="Bring back only some of the changes from this version"
+              >
+                Pick changes
+              </button>
+            )
+          )}
+          
           {/* Split view toggle for diffs */}
-          {!isShowingCurrentOnly && (
+          {!isShowingCurrentOnly && !fileHunks && (
             <button
               onClick={() => setSplitView(!splitView)}
               className="px-3 py-1 text-xs bg-gray-100 hover:bg-gray-200 rounded border border-gray-300"
@@ -295,8 +386,54 @@ const DiffViewer: React.FC<DiffViewerProps> = ({ diffResult, folderPath, onConte
         </div>
       </div>
       
+      {hunkError && (
+        <div className="bg-red-50 border-b border-red-200 px-4 py-2 text-xs text-red-700">
+          {hunkError}
+        </div>
+      )}
+      
       <div className="flex-1 overflow-auto">
-        {isShowingCurrentOnly ? (
+        {fileHunks ? (
+          // Pick individual changes to bring back from the old version
+          <div className="p-4 space-y-3">
+            <p className="text-xs text-gray-600">
+              Checked changes are put back to how they were in {fileHunks.commitHash.substring(0, 7)}.
+              Red lines come from that version, green lines are the current file.
+            </p>
+            {fileHunks.hunks.length === 0 && (
+              <p className="text-sm text-gray-500">The current file already matches this version.</p>
+            )}
+            {fileHunks.hunks.map(hunk => (
+              <div key={hunk.index} className={`border rounded ${selectedHunks.has(hunk.index) ? 'border-blue-400' : 'border-gray-200'}`}>
+                <label className="flex items-center gap-2 px-3 py-1 bg-gray-50 border-b border-gray-200 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={selectedHunks.has(hunk.index)}
+                    onChange={() => handleToggleHunk(hunk.index)}
+                  />
+                  <span className="text-xs font-mono text-gray-500">
+                    Lines {hunk.newStart}–{hunk.newStart + Math.max(hunk.newLines, 1) - 1}
+                  </span>
+                </label>
+                <pre className="text-xs font-mono overflow-x-auto">
+                  {hunk.lines.map((line, lineIndex) => (
+                    <div
+                      key={lineIndex}
+                      className={
+                        line.startsWith('-') ? 'bg-red-50 text-red-800 px-3' :
+                        line.startsWith('+') ? 'bg-green-50 text-green-800 px-3' :
+                        line.startsWith('\\') ? 'text-gray-400 italic px-3' :
+                        'text-gray-700 px-3'
+                      }
+                    >
+                      {line || ' '}
+                    </div>
+                  ))}
+                </pre>
+              </div>
+            ))}
+          </div>
+        ) : isShowingCurrentOnly ? (
           isEditing ? (
             // Edit mode
             <div className="h-full flex">
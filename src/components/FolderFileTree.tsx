@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import type { WatchedFolder } from '../types';
+import type { WatchedFolder, TreeSnapshot, PolicyFileStatus, StoredVersion, FolderAvailability, SpecialEntry } from '../types';
 
 interface FileNode {
   name: string;
@@ -8,6 +8,12 @@ interface FileNode {
   children?: FileNode[];
 }
 
+const POLICY_BADGES: Record<PolicyFileStatus['action'], { label: string; className: string }> = {
+  'skip': { label: 'skipped', className: 'bg-amber-100 text-amber-800' },
+  'latest-only': { label: 'latest only', className: 'bg-purple-100 text-purple-800' },
+  'large-file-store': { label: 'stored', className: 'bg-indigo-100 text-indigo-800' }
+};
+
 interface FolderFileTreeProps {
   folders: WatchedFolder[];
   allFiles: Record<string, string[]>; // folderId -> current file paths
@@ -17,7 +23,13 @@ interface FolderFileTreeProps {
   selectedFolder: WatchedFolder | null;
   selectedFile: string | null;
   onSelectFolder: (folder: WatchedFolder) => void;
-  onSelectFile: (folderId: string, filePath: string) => void;
+  onSelectFile: (folderId: string, filePath: string, commitHash?: string) => void;
+  snapshots?: Record<string, TreeSnapshot>; // folderId -> historical tree shown instead of the current files
+  onViewAsOf?: (folderId: string, target: string | null) => void; // null returns to the current files
+  policyStatuses?: Record<string, Record<string, PolicyFileStatus>>; // folderId -> filePath -> why it is not versioned
+  onRestoreStoredVersion?: (folderId: string, filePath: string, version: StoredVersion) => void;
+  availability?: Record<string, FolderAvailability>; // folderId -> whether the folder can be reached
+  specialEntries?: Record<string, SpecialEntry[]>; // folderId -> links and special files found in the folder
 }
 
 const FolderFileTree: React.FC<FolderFileTreeProps> = ({
@@ -30,8 +42,19 @@ const FolderFileTree: React.FC<FolderFileTreeProps> = ({
   selectedFile,
   onSelectFolder,
   onSelectFile,
+  snapshots = {},
+  onViewAsOf,
+  policyStatuses = {},
+  onRestoreStoredVersion,
+  availability = {},
+  specialEntries = {},
 }) => {
   const [expandedFolders, setExpandedFolders] = useState<Set<string>>(new Set());
+  const [pickerFolderId, setPickerFolderId] = useState<string | null>(null);
+  const [pickerTime, setPickerTime] = useState('');
+  const [pickerCommit, setPickerCommit] = useState('');
+  const [storedVersionsOf, setStoredVersionsOf] = useState<string | null>(null); // `${folderId}:${filePath}` with its stored copies listed
+  const [specialListOf, setSpecialListOf] = useState<string | null>(null); // folderId with its skipped entries listed
 
   // Sort nodes: directories first (alphabetically), then files (alphabetically)
   const sortFileNodes = (nodes: FileNode[]): FileNode[] => {
@@ -117,7 +140,23 @@ const FolderFileTree: React.FC<FolderFileTreeProps> = ({
     setExpandedNodes(newExpanded);
   };
 
-  const renderFileNode = (node: FileNode, folderId: string, depth: number = 0, isDeleted: boolean = false): React.ReactNode => {
+  const handleViewAsOf = (folderId: string) => {
+    if (!onViewAsOf) return;
+    
+    const target = pickerCommit.trim() || (pickerTime ? new Date(pickerTime).toISOString() : '');
+    if (target) {
+      onViewAsOf(folderId, target);
+      setPickerFolderId(null);
+    }
+  };
+
+  const renderFileNode = (
+    node: FileNode,
+    folderId: string,
+    depth: number = 0,
+    isDeleted: boolean = false,
+    snapshotCommit?: string
+  ): React.ReactNode => {
     const isExpanded = expandedNodes.has(node.path);
     const isSelected = selectedFile === node.path && selectedFolder?.id === folderId;
 
@@ -151,7 +190,7 @@ const FolderFileTree: React.FC<FolderFileTreeProps> = ({
           </div>
           {isExpanded && node.children && (
             <div>
-              {node.children.map((child) => renderFileNode(child, folderId, depth + 1, isDeleted))}
+              {node.children.map((child) => renderFileNode(child, folderId, depth + 1, isDeleted, snapshotCommit))}
             </div>
           )}
         </div>
@@ -159,50 +198,103 @@ const FolderFileTree: React.FC<FolderFileTreeProps> = ({
     } else {
       // Get version count for this file
       const versionCount = fileVersionCounts[folderId]?.[node.path] || 0;
+      const policyStatus = !isDeleted && !snapshotCommit ? policyStatuses[folderId]?.[node.path] : undefined;
+      const link = !isDeleted && !snapshotCommit
+        ? specialEntries[folderId]?.find(entry => entry.path === node.path && entry.type === 'symlink')
+        : undefined;
+      const storedKey = `${folderId}:${node.path}`;
       
       return (
-        <div
-          key={node.path}
-          onClick={() => onSelectFile(folderId, node.path)}
-          className={`flex items-center gap-1 px-2 py-1 text-sm cursor-pointer ${
-            isSelected 
-              ? 'bg-blue-100 text-blue-700' 
-              : isDeleted 
-              ? 'hover:bg-red-50 text-red-500' 
-              : 'hover:bg-gray-100 text-gray-700'
-          }`}
-          style={{ paddingLeft: `${depth * 12 + 20}px` }}
-        >
-          <svg className={`w-4 h-4 flex-shrink-0 ${isDeleted ? 'text-red-400' : 'text-gray-400'}`} fill="currentColor" viewBox="0 0 20 20">
-            <path
-              fillRule="evenodd"
-              d="M4 4a2 2 0 012-2h4.586A2 2 0 0112 2.586L15.414 6A2 2 0 0116 7.414V16a2 2 0 01-2 2H6a2 2 0 01-2-2V4z"
-              clipRule="evenodd"
-            />
-          </svg>
-          <span className={`truncate ${isDeleted ? 'line-through' : ''}`}>{node.name}</span>
-          
-          {/* Version badge */}
-          <span className={`flex items-center gap-1 ml-auto flex-shrink-0 text-xs ${
-            versionCount > 0 ? 'text-gray-500' : 'text-gray-400'
-          }`}>
-            {versionCount > 0 ? (
-              // Clock icon for files with history
-              <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 20 20">
-                <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm1-12a1 1 0 10-2 0v4a1 1 0 00.293.707l2.828 2.829a1 1 0 101.415-1.415L11 9.586V6z" clipRule="evenodd" />
-              </svg>
-            ) : (
-              // Empty circle for files without history
-              <svg className="w-3 h-3" fill="none" stroke="currentColor" strokeWidth="2" viewBox="0 0 20 20">
-                <circle cx="10" cy="10" r="7" />
-              </svg>
+        <div key={node.path}>
+          <div
+            onClick={() => onSelectFile(folderId, node.path, snapshotCommit)}
+            className={`flex items-center gap-1 px-2 py-1 text-sm cursor-pointer ${
+              isSelected 
+                ? 'bg-blue-100 text-blue-700' 
+                : isDeleted 
+                ? 'hover:bg-red-50 text-red-500' 
+                : 'hover:bg-gray-100 text-gray-700'
+            }`}
+            style={{ paddingLeft: `${depth * 12 + 20}px` }}
+          >
+            <svg className={`w-4 h-4 flex-shrink-0 ${isDeleted ? 'text-red-400' : 'text-gray-400'}`} fill="currentColor" viewBox="0 0 20 20">
+              <path
+                fillRule="evenodd"
+                d="M4 4a2 2 0 012-2h4.586A2 2 0 0112 2.586L15.414 6A2 2 0 0116 7.414V16a2 2 0 01-2 2H6a2 2 0 01-2-2V4z"
+                clipRule="evenodd"
+              />
+            </svg>
+            <span className={`truncate ${isDeleted ? 'line-through' : ''}`}>{node.name}</span>
+            
+            {/* Link badge */}
+            {link && (
+              <span
+                className="flex-shrink-0 px-1 rounded text-[10px] bg-sky-100 text-sky-800"
+                title={`Symbolic link to ${link.target || 'an unknown target'}. Only the link is versioned.`}
+              >
+                link
+              </span>
+            )}
+            
+            {/* Policy badge */}
+            {policyStatus && (
+              <span
+                onClick={(e) => {
+                  if (!policyStatus.versions?.length) return;
+                  e.stopPropagation();
+                  setStoredVersionsOf(storedVersionsOf === storedKey ? null : storedKey);
+                }}
+                className={`ml-auto flex-shrink-0 px-1.5 py-0.5 rounded text-xs ${POLICY_BADGES[policyStatus.action].className}`}
+                title={policyStatus.versions?.length
+                  ? `${policyStatus.reason}. ${policyStatus.versions.length} stored cop${policyStatus.versions.length !== 1 ? 'ies' : 'y'}, click to restore one.`
+                  : policyStatus.reason}
+              >
+                {POLICY_BADGES[policyStatus.action].label}
+              </span>
             )}
-            <span className={`px-1.5 py-0.5 rounded font-medium ${
-              versionCount > 0 ? 'bg-gray-200 text-gray-700' : 'bg-gray-100 text-gray-400'
+            
+            {/* Version badge */}
+            <span className={`flex items-center gap-1 ${policyStatus ? '' : 'ml-auto'} flex-shrink-0 text-xs ${
+              versionCount > 0 ? 'text-gray-500' : 'text-gray-400'
             }`}>
-              {versionCount}
+              {versionCount > 0 ? (
+                // Clock icon for files with history
+                <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 20 20">
+                  <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm1-12a1 1 0 10-2 0v4a1 1 0 00.293.707l2.828 2.829a1 1 0 101.415-1.415L11 9.586V6z" clipRule="evenodd" />
+                </svg>
+              ) : (
+                // Empty circle for files without history
+                <svg className="w-3 h-3" fill="none" stroke="currentColor" strokeWidth="2" viewBox="0 0 20 20">
+                  <circle cx="10" cy="10" r="7" />
+                </svg>
+              )}
+              <span className={`px-1.5 py-0.5 rounded font-medium ${
+                versionCount > 0 ? 'bg-gray-200 text-gray-700' : 'bg-gray-100 text-gray-400'
+              }`}>
+                {versionCount}
+              </span>
             </span>
-          </span>
+          </div>
+          
+          {/* Stored Copies */}
+          {storedVersionsOf === storedKey && policyStatus?.versions && (
+            <div className="py-1 bg-white border-y border-gray-200" style={{ paddingLeft: `${depth * 12 + 40}px` }}>
+              {policyStatus.versions.map(version => (
+                <div key={`${version.hash}-${version.date}`} className="flex items-center gap-2 pr-2 py-0.5 text-xs text-gray-600">
+                  <span>{new Date(version.date).toLocaleString()}</span>
+                  <span className="text-gray-400">{(version.size / (1024 * 1024)).toFixed(1)} MB</span>
+                  {onRestoreStoredVersion && (
+                    <button
+                      onClick={() => onRestoreStoredVersion(folderId, node.path, version)}
+                      className="ml-auto text-blue-600 hover:text-blue-800"
+                    >
+                      Restore
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
         </div>
       );
     }
@@ -212,11 +304,14 @@ const FolderFileTree: React.FC<FolderFileTreeProps> = ({
     <div className="h-full overflow-auto">
       {folders.map((folder) => {
         const isExpanded = expandedFolders.has(folder.id);
-        const files = allFiles[folder.id] || [];
-        const deleted = deletedFiles[folder.id] || [];
+        const snapshot = snapshots[folder.id];
+        const files = snapshot ? snapshot.files.map(file => file.path) : allFiles[folder.id] || [];
+        const deleted = snapshot ? [] : deletedFiles[folder.id] || [];
         const fileTree = buildFileTree(files);
         const deletedTree = showDeletedFiles ? buildFileTree(deleted) : [];
         const isSelected = selectedFolder?.id === folder.id;
+        const offline = availability[folder.id]?.online === false ? availability[folder.id] : null;
+        const skippedEntries = (specialEntries[folder.id] || []).filter(entry => entry.handling === 'skipped' || entry.handling === 'ignore');
 
         return (
           <div key={folder.id} className="border-b border-gray-200">
@@ -244,15 +339,89 @@ const FolderFileTree: React.FC<FolderFileTreeProps> = ({
                 />
               </svg>
               <div className="relative flex items-center gap-1 flex-1 min-w-0">
-                {folder.isActive ? (
+                {offline ? (
+                  <span className="w-2 h-2 bg-red-500 rounded-full" title="Folder is offline" />
+                ) : folder.isActive ? (
                   <span className="w-2 h-2 bg-green-500 rounded-full" title="Auto-commit enabled" />
                 ) : (
                   <span className="w-2 h-2 bg-gray-300 rounded-full" title="Auto-commit disabled" />
                 )}
                 <span className="text-sm font-medium text-gray-900 truncate">{folder.name}</span>
+                {offline && (
+                  <span
+                    className="px-1 rounded text-[10px] bg-red-100 text-red-800 flex-shrink-0"
+                    title={`${offline.reason || 'The folder cannot be reached'} since ${new Date(offline.since).toLocaleString()}. Watching resumes when it is back.`}
+                  >
+                    offline
+                  </span>
+                )}
               </div>
+              {onViewAsOf && (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setPickerFolderId(pickerFolderId === folder.id ? null : folder.id);
+                  }}
+                  className={`p-0.5 rounded hover:bg-gray-200 ${snapshot ? 'text-amber-600' : 'text-gray-400'}`}
+                  title="View as of an earlier moment"
+                >
+                  <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
+                    <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm1-12a1 1 0 10-2 0v4a1 1 0 00.293.707l2.828 2.829a1 1 0 101.415-1.415L11 9.586V6z" clipRule="evenodd" />
+                  </svg>
+                </button>
+              )}
             </div>
 
+            {/* View As Of Picker */}
+            {pickerFolderId === folder.id && (
+              <div className="px-3 py-2 bg-white border-t border-gray-200 space-y-1">
+                <input
+                  type="datetime-local"
+                  step={1}
+                  value={pickerTime}
+                  onChange={(e) => setPickerTime(e.target.value)}
+                  className="w-full px-2 py-1 border border-gray-300 rounded text-xs"
+                />
+                <input
+                  type="text"
+                  value={pickerCommit}
+                  onChange={(e) => setPickerCommit(e.target.value)}
+                  placeholder="or version hash"
+                  className="w-full px-2 py-1 border border-gray-300 rounded text-xs font-mono"
+                />
+                <div className="flex justify-end gap-1">
+                  <button
+                    onClick={() => setPickerFolderId(null)}
+                    className="px-2 py-0.5 text-xs border border-gray-300 rounded hover:bg-gray-50"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={() => handleViewAsOf(folder.id)}
+                    disabled={!pickerTime && !pickerCommit.trim()}
+                    className="px-2 py-0.5 text-xs bg-blue-500 text-white rounded hover:bg-blue-600 disabled:bg-gray-300"
+                  >
+                    View
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {/* Historical Mode Banner */}
+            {snapshot && onViewAsOf && (
+              <div className="flex items-center justify-between gap-2 px-3 py-1 bg-amber-50 border-t border-amber-200 text-xs text-amber-800">
+                <span className="truncate" title={snapshot.commitHash}>
+                  As of {new Date(snapshot.commitDate).toLocaleString()}
+                </span>
+                <button
+                  onClick={() => onViewAsOf(folder.id, null)}
+                  className="flex-shrink-0 text-blue-600 hover:text-blue-800"
+                >
+                  Back to now
+                </button>
+              </div>
+            )}
+
             {/* Files in Folder */}
             {isExpanded && (
               <div className="bg-gray-50">
@@ -261,7 +430,29 @@ const FolderFileTree: React.FC<FolderFileTreeProps> = ({
                   <div className="px-8 py-2 text-xs text-gray-500 italic">No files</div>
                 ) : (
                   <>
-                    {fileTree.map((node) => renderFileNode(node, folder.id, 0, false))}
+                    {fileTree.map((node) => renderFileNode(node, folder.id, 0, false, snapshot?.commitHash))}
+                    
+                    {/* Skipped Links and Special Files */}
+                    {!snapshot && skippedEntries.length > 0 && (
+                      <div className="px-4 py-1 text-xs text-gray-500">
+                        <button
+                          onClick={() => setSpecialListOf(specialListOf === folder.id ? null : folder.id)}
+                          className="hover:text-gray-700"
+                        >
+                          {skippedEntries.length} link{skippedEntries.length !== 1 ? 's' : ''} or special file{skippedEntries.length !== 1 ? 's' : ''} not versioned
+                        </button>
+                        {specialListOf === folder.id && (
+                          <ul className="mt-1 space-y-0.5">
+                            {skippedEntries.map(entry => (
+                              <li key={entry.path} className="truncate" title={entry.reason}>
+                                <span className="font-mono">{entry.path}</span>
+                                <span className="text-gray-400"> ({entry.reason || (entry.type === 'symlink' ? 'links are ignored in this folder' : entry.type)})</span>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+                    )}
                     
                     {/* Deleted Files Section */}
                     {showDeletedFiles && deleted.length > 0 && (
@@ -1,5 +1,6 @@
 import React from 'react';
-import type { WatchedFolder } from '../types';
+import FolderStatusIndicator from './FolderStatusIndicator';
+import type { WatchedFolder, FolderStatus } from '../types';
 
 interface FolderListProps {
   folders: WatchedFolder[];
@@ -7,6 +8,7 @@ interface FolderListProps {
   onSelectFolder: (folder: WatchedFolder) => void;
   onAddFolder: () => void;
   onRemoveFolder: (folderId: string) => void;
+  statuses?: Record<string, FolderStatus>; // folderId -> watcher status
 }
 
 const FolderList: React.FC<FolderListProps> = ({
@@ -14,7 +16,8 @@ const FolderList: React.FC<FolderListProps> = ({
   selectedFolder,
   onSelectFolder,
   onAddFolder,
-  onRemoveFolder
+  onRemoveFolder,
+  statuses = {}
 }) => {
   return (
     <div className="flex flex-col flex-1 overflow-hidden">
@@ -42,9 +45,17 @@ const FolderList: React.FC<FolderListProps> = ({
                       <span className="text-sm font-medium truncate">{folder.name}</span>
                     </div>
                     <div className="mt-1 flex items-center gap-2">
-                      <span className={`inline-block w-2 h-2 rounded-full ${folder.isActive ? 'bg-green-400' : 'bg-gray-300'}`} />
-                      <span className="text-xs text-gray-500">
-                        {folder.commitStrategy === 'on-save' ? 'On Save' : `Every ${folder.periodicInterval}m`}
+                      {statuses[folder.id] ? (
+                        <FolderStatusIndicator status={statuses[folder.id]} />
+                      ) : (
+                        <span className={`inline-block w-2 h-2 rounded-full ${folder.isActive ? 'bg-green-400' : 'bg-gray-300'}`} />
+                      )}
+                      <span className="text-xs text-gray-500 flex-shrink-0">
+                        {folder.commitStrategy === 'on-save'
+                          ? 'On Save'
+                          : folder.commitStrategy === 'on-idle'
+                          ? `After ${folder.idleMinutes || 5}m idle`
+                          : `Every ${folder.periodicInterval}m`}
                       </span>
                     </div>
                   </div>
@@ -0,0 +1,231 @@
+import React, { useState } from 'react';
+import type { WatchedFolder, FolderRestorePreview, FolderRestoreResult } from '../types';
+
+interface FolderRestoreProps {
+  folder: WatchedFolder;
+  initialTarget?: string; // Commit hash to preselect
+  initialSubpath?: string;
+  onClose: () => void;
+  onRestored: () => void;
+}
+
+const FolderRestore: React.FC<FolderRestoreProps> = ({ folder, initialTarget, initialSubpath, onClose, onRestored }) => {
+  const [targetType, setTargetType] = useState<'time' | 'commit'>(initialTarget ? 'commit' : 'time');
+  const [time, setTime] = useState('');
+  const [commitHash, setCommitHash] = useState(initialTarget || '');
+  const [subpath, setSubpath] = useState(initialSubpath || '');
+  const [preview, setPreview] = useState<FolderRestorePreview | null>(null);
+  const [result, setResult] = useState<FolderRestoreResult | null>(null);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const getTarget = () => {
+    if (targetType === 'commit') {
+      return commitHash.trim();
+    }
+    return time ? new Date(time).toISOString() : '';
+  };
+
+  const handlePreview = async () => {
+    const target = getTarget();
+    if (!target || !window.electronAPI.previewFolderRestore) {
+      setError('Choose a moment or a version to restore');
+      return;
+    }
+
+    try {
+      setWorking(true);
+      setError(null);
+      setPreview(await window.electronAPI.previewFolderRestore(folder.id, target, subpath.trim() || undefined));
+    } catch (err) {
+      setPreview(null);
+      setError(err instanceof Error ? err.message : 'Preview failed');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!preview || !window.electronAPI.restoreFolderTo) return;
+
+    try {
+      setWorking(true);
+      setError(null);
+      setResult(await window.electronAPI.restoreFolderTo(folder.id, preview.commitHash, preview.subpath));
+      onRestored();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Restore failed');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  // The restore commit's parent holds the state from just before the restore
+  const handleUndo = async () => {
+    if (!result || !window.electronAPI.restoreFolderTo) return;
+
+    try {
+      setWorking(true);
+      setError(null);
+      await window.electronAPI.restoreFolderTo(folder.id, `${result.commitHash}^`, result.preview.subpath);
+      onRestored();
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Undo failed');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const renderFileList = (title: string, files: string[], className: string) => (
+    files.length > 0 && (
+      <div>
+        <div className={`text-xs font-semibold mb-1 ${className}`}>{title} ({files.length})</div>
+        <ul className="text-xs text-gray-700 space-y-0.5 ml-2">
+          {files.map(file => (
+            <li key={file} className="truncate" title={file}>{file}</li>
+          ))}
+        </ul>
+      </div>
+    )
+  );
+
+  const changeCount = preview ? preview.added.length + preview.modified.length + preview.removed.length : 0;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+        <div className="p-6 border-b border-gray-200">
+          <h2 className="text-xl font-bold">Restore Folder</h2>
+          <p className="text-sm text-gray-600 mt-2">
+            Bring "{folder.name}" or one of its subfolders back to an earlier moment
+          </p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          {result ? (
+            <div className="bg-green-50 border border-green-200 rounded-lg p-4 text-sm text-green-800">
+              ✓ Restored {result.preview.subpath || 'the folder'} to the version from{' '}
+              {new Date(result.preview.commitDate).toLocaleString()} ({changeCount} files changed).
+              <p className="text-xs text-green-700 mt-2">
+                The restore was saved as a single version. Undo returns everything to how it was just before.
+              </p>
+            </div>
+          ) : (
+            <>
+              {/* Target */}
+              <div>
+                <label className="block text-sm font-medium mb-2">Restore to</label>
+                <div className="flex gap-2 mb-2">
+                  <button
+                    onClick={() => { setTargetType('time'); setPreview(null); }}
+                    className={`px-3 py-1 text-sm rounded ${targetType === 'time' ? 'bg-blue-500 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+                  >
+                    Point in time
+                  </button>
+                  <button
+                    onClick={() => { setTargetType('commit'); setPreview(null); }}
+                    className={`px-3 py-1 text-sm rounded ${targetType === 'commit' ? 'bg-blue-500 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+                  >
+                    Specific version
+                  </button>
+                </div>
+                {targetType === 'time' ? (
+                  <input
+                    type="datetime-local"
+                    step={1}
+                    value={time}
+                    onChange={(e) => { setTime(e.target.value); setPreview(null); }}
+                    className="w-full px-3 py-2 border border-gray-300 rounded text-sm"
+                  />
+                ) : (
+                  <input
+                    type="text"
+                    value={commitHash}
+                    onChange={(e) => { setCommitHash(e.target.value); setPreview(null); }}
+                    placeholder="Version hash"
+                    className="w-full px-3 py-2 border border-gray-300 rounded text-sm font-mono"
+                  />
+                )}
+              </div>
+
+              {/* Subpath */}
+              <div>
+                <label className="block text-sm font-medium mb-2">Subfolder (optional)</label>
+                <input
+                  type="text"
+                  value={subpath}
+                  onChange={(e) => { setSubpath(e.target.value); setPreview(null); }}
+                  placeholder="Whole folder"
+                  className="w-full px-3 py-2 border border-gray-300 rounded text-sm"
+                />
+              </div>
+
+              {/* Preview */}
+              {preview && (
+                <div className="border border-gray-200 rounded-lg p-4 space-y-3">
+                  <p className="text-sm text-gray-700">
+                    Version from <span className="font-medium">{new Date(preview.commitDate).toLocaleString()}</span>{' '}
+                    <code className="text-xs bg-gray-100 px-1 rounded">{preview.commitHash.substring(0, 7)}</code>
+                  </p>
+                  {changeCount === 0 ? (
+                    <p className="text-sm text-gray-500">Nothing to restore, the folder already matches this version.</p>
+                  ) : (
+                    <>
+                      {renderFileList('Added back', preview.added, 'text-green-700')}
+                      {renderFileList('Modified', preview.modified, 'text-blue-700')}
+                      {renderFileList('Removed', preview.removed, 'text-red-700')}
+                    </>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-800">
+              {error}
+            </div>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-gray-200 flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            disabled={working}
+            className="px-4 py-2 text-sm border border-gray-300 rounded hover:bg-gray-50"
+          >
+            {result ? 'Close' : 'Cancel'}
+          </button>
+          {result ? (
+            <button
+              onClick={handleUndo}
+              disabled={working}
+              className="px-4 py-2 text-sm bg-orange-500 hover:bg-orange-600 text-white rounded disabled:bg-gray-300"
+            >
+              {working ? 'Undoing...' : 'Undo restore'}
+            </button>
+          ) : preview && changeCount > 0 ? (
+            <button
+              onClick={handleRestore}
+              disabled={working}
+              className="px-4 py-2 text-sm bg-blue-500 hover:bg-blue-600 text-white rounded disabled:bg-gray-300"
+            >
+              {working ? 'Restoring...' : `Restore ${changeCount} files`}
+            </button>
+          ) : (
+            <button
+              onClick={handlePreview}
+              disabled={working}
+              className="px-4 py-2 text-sm bg-blue-500 hover:bg-blue-600 text-white rounded disabled:bg-gray-300"
+            >
+              {working ? 'Loading...' : 'Preview'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FolderRestore;
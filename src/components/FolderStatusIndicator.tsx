@@ -0,0 +1,84 @@
+import React from 'react';
+import type { FolderStatus } from '../types';
+
+interface FolderStatusIndicatorProps {
+  status?: FolderStatus;
+  detailed?: boolean; // Show the counts and last error, not just the state
+}
+
+const STATE_STYLES: Record<FolderStatus['state'], { label: string; dot: string }> = {
+  starting: { label: 'Starting', dot: 'bg-blue-400' },
+  watching: { label: 'Watching', dot: 'bg-green-400' },
+  error: { label: 'Error', dot: 'bg-red-500' },
+  stopped: { label: 'Paused', dot: 'bg-gray-300' },
+  offline: { label: 'Offline', dot: 'bg-amber-400' }
+};
+
+function formatAgo(date: Date): string {
+  const diffMins = Math.floor((Date.now() - new Date(date).getTime()) / 60000);
+  if (diffMins < 1) return 'just now';
+  if (diffMins < 60) return `${diffMins} min ago`;
+  const diffHours = Math.floor(diffMins / 60);
+  if (diffHours < 24) return `${diffHours} hour${diffHours !== 1 ? 's' : ''} ago`;
+  return new Date(date).toLocaleDateString();
+}
+
+/**
+ * One line summary of a folder's watcher, e.g. "Watching 12,304 files, 3 pending, last version 2 min ago"
+ */
+function describeFolderStatus(status: FolderStatus): string {
+  const parts: string[] = [];
+  if (status.state === 'watching' && status.watchedFiles !== null) {
+    parts.push(`Watching ${status.watchedFiles.toLocaleString()} files`);
+  } else {
+    parts.push(STATE_STYLES[status.state].label);
+  }
+  if (status.pendingChanges > 0) {
+    parts.push(`${status.pendingChanges.toLocaleString()} pending`);
+  }
+  if (status.heldChanges > 0) {
+    parts.push(`${status.heldChanges.toLocaleString()} held`);
+  }
+  if (status.lastCommitAt) {
+    parts.push(`last version ${formatAgo(status.lastCommitAt)}`);
+  }
+  return parts.join(', ');
+}
+
+const FolderStatusIndicator: React.FC<FolderStatusIndicatorProps> = ({ status, detailed = false }) => {
+  if (!status) {
+    return null;
+  }
+
+  const style = STATE_STYLES[status.state];
+  const summary = describeFolderStatus(status);
+
+  if (!detailed) {
+    return (
+      <span className="flex items-center gap-1 min-w-0" title={status.lastError ? status.lastError.message : summary}>
+        <span className={`inline-block w-2 h-2 rounded-full flex-shrink-0 ${style.dot}`} />
+        <span className="text-xs text-gray-500 truncate">{summary}</span>
+      </span>
+    );
+  }
+
+  return (
+    <div className={`p-3 rounded border text-xs ${status.state === 'error' ? 'border-red-200 bg-red-50' : 'border-gray-200'}`}>
+      <div className="flex items-center gap-2">
+        <span className={`inline-block w-2 h-2 rounded-full ${style.dot}`} />
+        <span className="font-medium text-sm">{summary}</span>
+      </div>
+      {status.state === 'watching' && status.eventsPerMinute > 0 && (
+        <p className="text-gray-500 mt-1">{status.eventsPerMinute.toLocaleString()} file events in the last minute</p>
+      )}
+      {status.lastError && (
+        <p className={`mt-1 ${status.state === 'error' || status.state === 'offline' ? 'text-red-700' : 'text-gray-500'}`}>
+          {status.state === 'error' || status.state === 'offline' ? '' : 'Last error: '}
+          {status.lastError.message} ({formatAgo(status.lastError.at)})
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default FolderStatusIndicator;
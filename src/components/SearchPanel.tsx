@@ -0,0 +1,249 @@
+import React, { useState, useEffect, useRef } from 'react';
+import type { WatchedFolder, SearchQuery, SearchResult, SearchSummary } from '../types';
+
+interface SearchPanelProps {
+  folders: WatchedFolder[];
+  onClose: () => void;
+  onOpenResult: (result: SearchResult) => void;
+}
+
+interface FileGroup {
+  filePath: string;
+  results: SearchResult[];
+}
+
+interface FolderGroup {
+  folderId: string;
+  folderName: string;
+  files: FileGroup[];
+}
+
+// Results arrive newest first per folder; keep that order within each file
+function groupResults(results: SearchResult[]): FolderGroup[] {
+  const folders: FolderGroup[] = [];
+
+  results.forEach(result => {
+    let folder = folders.find(f => f.folderId === result.folderId);
+    if (!folder) {
+      folder = { folderId: result.folderId, folderName: result.folderName, files: [] };
+      folders.push(folder);
+    }
+
+    let file = folder.files.find(f => f.filePath === result.filePath);
+    if (!file) {
+      file = { filePath: result.filePath, results: [] };
+      folder.files.push(file);
+    }
+
+    file.results.push(result);
+  });
+
+  return folders;
+}
+
+const SearchPanel: React.FC<SearchPanelProps> = ({ folders, onClose, onOpenResult }) => {
+  const [pattern, setPattern] = useState('');
+  const [mode, setMode] = useState<SearchQuery['mode']>('content');
+  const [regex, setRegex] = useState(false);
+  const [caseSensitive, setCaseSensitive] = useState(false);
+  const [folderId, setFolderId] = useState<string>('all');
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [summary, setSummary] = useState<SearchSummary | null>(null);
+  const [searchId, setSearchId] = useState<string | null>(null);
+  const searchIdRef = useRef<string | null>(null);
+
+  // Results of an older search can still arrive after a new one started
+  useEffect(() => {
+    const stopResults = window.electronAPI.onSearchResults?.((id, newResults) => {
+      if (id === searchIdRef.current) {
+        setResults(prev => [...prev, ...newResults]);
+      }
+    });
+    const stopCompleted = window.electronAPI.onSearchCompleted?.((id, searchSummary) => {
+      if (id === searchIdRef.current) {
+        setSummary(searchSummary);
+        setSearchId(null);
+      }
+    });
+
+    return () => {
+      if (stopResults) stopResults();
+      if (stopCompleted) stopCompleted();
+      if (searchIdRef.current) {
+        window.electronAPI.cancelSearch?.(searchIdRef.current);
+      }
+    };
+  }, []);
+
+  const handleSearch = async () => {
+    if (!pattern || !window.electronAPI.startSearch) return;
+
+    if (searchId) {
+      window.electronAPI.cancelSearch?.(searchId);
+    }
+
+    const id = `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+    searchIdRef.current = id;
+    setSearchId(id);
+    setResults([]);
+    setSummary(null);
+
+    try {
+      await window.electronAPI.startSearch(id, {
+        pattern,
+        mode,
+        regex,
+        caseSensitive,
+        folderIds: folderId === 'all' ? undefined : [folderId]
+      });
+    } catch (error) {
+      setSummary({
+        resultCount: 0,
+        cancelled: false,
+        truncated: false,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      setSearchId(null);
+    }
+  };
+
+  const handleCancel = () => {
+    if (searchId) {
+      window.electronAPI.cancelSearch?.(searchId);
+    }
+  };
+
+  const grouped = groupResults(results);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full h-[85vh] overflow-hidden flex flex-col">
+        <div className="p-4 border-b border-gray-200 flex justify-between items-center">
+          <h2 className="text-xl font-bold">Search History</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Query */}
+        <div className="p-4 border-b border-gray-200 space-y-3">
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={pattern}
+              onChange={(e) => setPattern(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleSearch();
+              }}
+              placeholder={regex ? 'Regular expression' : 'Text to find'}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded text-sm font-mono focus:outline-none focus:ring-2 focus:ring-blue-500"
+              autoFocus
+            />
+            {searchId ? (
+              <button
+                onClick={handleCancel}
+                className="px-4 py-2 text-sm bg-gray-500 hover:bg-gray-600 text-white rounded"
+              >
+                Cancel
+              </button>
+            ) : (
+              <button
+                onClick={handleSearch}
+                disabled={!pattern}
+                className="px-4 py-2 text-sm bg-blue-500 hover:bg-blue-600 text-white rounded disabled:bg-gray-300"
+              >
+                Search
+              </button>
+            )}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-4 text-sm text-gray-700">
+            <select
+              value={mode}
+              onChange={(e) => setMode(e.target.value as SearchQuery['mode'])}
+              className="px-2 py-1 border border-gray-300 rounded text-sm"
+            >
+              <option value="content">Versions containing it</option>
+              <option value="changes">Versions that introduced or removed it</option>
+            </select>
+            <select
+              value={folderId}
+              onChange={(e) => setFolderId(e.target.value)}
+              className="px-2 py-1 border border-gray-300 rounded text-sm"
+            >
+              <option value="all">All folders</option>
+              {folders.map(folder => (
+                <option key={folder.id} value={folder.id}>{folder.name}</option>
+              ))}
+            </select>
+            <label className="flex items-center gap-1">
+              <input type="checkbox" checked={regex} onChange={(e) => setRegex(e.target.checked)} />
+              Regex
+            </label>
+            <label className="flex items-center gap-1">
+              <input type="checkbox" checked={caseSensitive} onChange={(e) => setCaseSensitive(e.target.checked)} />
+              Match case
+            </label>
+          </div>
+        </div>
+
+        {/* Status */}
+        <div className="px-4 py-2 text-xs text-gray-500 border-b border-gray-200 bg-gray-50">
+          {searchId
+            ? `Searching... ${results.length} result${results.length !== 1 ? 's' : ''} so far`
+            : summary?.error
+            ? <span className="text-red-600">{summary.error}</span>
+            : summary
+            ? `${summary.resultCount} result${summary.resultCount !== 1 ? 's' : ''}` +
+              (summary.cancelled ? ' (cancelled)' : '') +
+              (summary.truncated ? ' (limit reached, refine the search to see more)' : '')
+            : 'Searches every stored version of the selected folders'}
+        </div>
+
+        {/* Results */}
+        <div className="flex-1 overflow-y-auto">
+          {grouped.map(folder => (
+            <div key={folder.folderId} className="border-b border-gray-200">
+              <div className="sticky top-0 px-4 py-2 bg-gray-100 text-sm font-semibold text-gray-700">
+                📁 {folder.folderName}
+              </div>
+              {folder.files.map(file => (
+                <div key={file.filePath} className="px-4 py-2">
+                  <div className="text-sm font-medium text-gray-900 truncate" title={file.filePath}>
+                    {file.filePath}
+                  </div>
+                  <div className="mt-1 space-y-1">
+                    {file.results.map(result => (
+                      <div
+                        key={`${result.commitHash}-${result.kind}`}
+                        onClick={() => onOpenResult(result)}
+                        className="ml-2 p-2 rounded border border-gray-200 hover:border-blue-300 hover:bg-blue-50 cursor-pointer"
+                      >
+                        <div className="flex items-center gap-2 text-xs text-gray-500">
+                          <span>{new Date(result.date).toLocaleString()}</span>
+                          <code className="bg-gray-100 px-1 rounded">{result.commitHash.substring(0, 7)}</code>
+                          {result.kind === 'introduced' && <span className="text-green-700 font-medium">introduced</span>}
+                          {result.kind === 'removed' && <span className="text-red-700 font-medium">removed</span>}
+                        </div>
+                        {result.lines.map(line => (
+                          <div key={line.lineNumber} className="text-xs font-mono text-gray-800 truncate">
+                            <span className="text-gray-400 mr-2">{line.lineNumber}</span>
+                            {line.text}
+                          </div>
+                        ))}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SearchPanel;
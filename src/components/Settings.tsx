@@ -1,5 +1,111 @@
 import React, { useState, useEffect } from 'react';
-import type { WatchedFolder } from '../types';
+import FolderStatusIndicator from './FolderStatusIndicator';
+import type {
+  WatchedFolder,
+  RetentionBucket,
+  IgnoreMatch,
+  IgnoreTestResult,
+  FilePolicyRule,
+  CommitStrategy,
+  CommitSchedule,
+  FolderStatus,
+  SymlinkPolicy,
+  ConfigBackup,
+  FolderProfile,
+  FolderProfileSettings,
+  ConfigImportPreview
+} from '../types';
+
+// Keep everything for 24 hours, hourly for a week, daily for a month, weekly after that
+const DEFAULT_RETENTION_BUCKETS: RetentionBucket[] = [
+  { maxAgeHours: 24, intervalHours: 0 },
+  { maxAgeHours: 24 * 7, intervalHours: 1 },
+  { maxAgeHours: 24 * 30, intervalHours: 24 },
+  { intervalHours: 24 * 7 }
+];
+
+// Same defaults the file watcher uses when a folder has no timing settings
+const DEFAULT_DEBOUNCE_SECONDS = 2;
+const DEFAULT_STABILITY_THRESHOLD_MS = 500;
+const DEFAULT_MAX_WAIT_SECONDS = 60;
+const DEFAULT_BURST_THRESHOLD = 200;
+const DEFAULT_IDLE_MINUTES = 5;
+const DEFAULT_MAX_FILE_SIZE_MB = 100;
+
+// Weekdays during office hours, nothing overnight
+const DEFAULT_COMMIT_SCHEDULE: CommitSchedule = {
+  enabled: false,
+  days: [1, 2, 3, 4, 5],
+  startTime: '09:00',
+  endTime: '18:00',
+  quietHours: { enabled: false, startTime: '22:00', endTime: '07:00' }
+};
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const FILE_POLICY_ACTIONS: Array<{ value: FilePolicyRule['action']; label: string }> = [
+  { value: 'skip', label: 'Skip' },
+  { value: 'latest-only', label: 'Keep only the latest copy' },
+  { value: 'large-file-store', label: 'Store every copy outside the history' }
+];
+
+const SYMLINK_POLICIES: Array<{ value: SymlinkPolicy; label: string; description: string }> = [
+  { value: 'link-only', label: 'Store the link only', description: 'Versions where each link points, not what it points at' },
+  { value: 'follow', label: 'Follow links', description: 'Watches what links point at; those files are kept in the large-file store' },
+  { value: 'ignore', label: 'Ignore links', description: 'Links are left out of the history entirely' }
+];
+
+// Wait for typing to pause before testing draft ignore patterns against the folder
+const IGNORE_TEST_DELAY_MS = 400;
+
+function parsePatterns(text: string): string[] {
+  return text
+    .split('\n')
+    .map(p => p.trim())
+    .filter(p => p.length > 0);
+}
+
+// Preview of the leading path replacement an import applies
+function remapPath(filePath: string, from: string, to: string): string {
+  const prefix = from.trim().replace(/[\\/]+$/, '');
+  const rest = filePath.slice(prefix.length);
+  if (prefix && filePath.startsWith(prefix) && (rest === '' || rest.startsWith('/') || rest.startsWith('\\'))) {
+    return to.trim().replace(/[\\/]+$/, '') + rest;
+  }
+  return filePath;
+}
+
+// What the folder form shows for a folder's settings, with the watcher's defaults filled in
+function toFormSettings(settings: FolderProfileSettings): Required<FolderProfileSettings> {
+  return {
+    commitStrategy: settings.commitStrategy || 'on-save',
+    periodicInterval: settings.periodicInterval || 5,
+    idleMinutes: settings.idleMinutes || DEFAULT_IDLE_MINUTES,
+    commitSchedule: { ...DEFAULT_COMMIT_SCHEDULE, ...settings.commitSchedule },
+    ignorePatterns: settings.ignorePatterns || [],
+    watchSubfolders: settings.watchSubfolders !== false,
+    usePolling: settings.usePolling === true,
+    symlinkPolicy: settings.symlinkPolicy || 'link-only',
+    debounceSeconds: settings.debounceSeconds ?? DEFAULT_DEBOUNCE_SECONDS,
+    stabilityThresholdMs: settings.stabilityThresholdMs ?? DEFAULT_STABILITY_THRESHOLD_MS,
+    maxWaitSeconds: settings.maxWaitSeconds ?? DEFAULT_MAX_WAIT_SECONDS,
+    burstThreshold: settings.burstThreshold ?? DEFAULT_BURST_THRESHOLD,
+    retention: { enabled: settings.retention?.enabled === true, buckets: settings.retention?.buckets || DEFAULT_RETENTION_BUCKETS },
+    filePolicy: {
+      maxFileSizeMB: settings.filePolicy ? settings.filePolicy.maxFileSizeMB || 0 : DEFAULT_MAX_FILE_SIZE_MB,
+      rules: settings.filePolicy?.rules || []
+    }
+  };
+}
+
+function describeMatch(match: IgnoreMatch): string {
+  const source = match.source === 'global'
+    ? 'global patterns'
+    : match.source === 'folder'
+    ? 'folder patterns'
+    : match.file;
+  return `${match.pattern} (${source})`;
+}
 
 interface SettingsProps {
   folders: WatchedFolder[];
@@ -25,28 +131,361 @@ const Settings: React.FC<SettingsProps> = ({
   onShowMigration
 }) => {
   // Navigation state
-  const [activeView, setActiveView] = useState<'menu' | 'global' | 'folder-list' | 'folder-settings'>('menu');
+  const [activeView, setActiveView] = useState<'menu' | 'global' | 'folder-defaults' | 'folder-list' | 'folder-settings'>('menu');
   const [selectedFolder, setSelectedFolder] = useState<WatchedFolder | null>(null);
   
   // Folder settings state
   const [isActive, setIsActive] = useState(true);
-  const [commitStrategy, setCommitStrategy] = useState<'on-save' | 'periodic'>('on-save');
+  const [commitStrategy, setCommitStrategy] = useState<CommitStrategy>('on-save');
   const [periodicInterval, setPeriodicInterval] = useState(5);
+  const [idleMinutes, setIdleMinutes] = useState(DEFAULT_IDLE_MINUTES);
+  const [commitSchedule, setCommitSchedule] = useState<CommitSchedule>(DEFAULT_COMMIT_SCHEDULE);
   const [ignorePatterns, setIgnorePatterns] = useState<string>('');
   const [watchSubfolders, setWatchSubfolders] = useState(true);
+  const [usePolling, setUsePolling] = useState(false);
+  const [symlinkPolicy, setSymlinkPolicy] = useState<SymlinkPolicy>('link-only');
+  const [debounceSeconds, setDebounceSeconds] = useState(DEFAULT_DEBOUNCE_SECONDS);
+  const [stabilityThresholdMs, setStabilityThresholdMs] = useState(DEFAULT_STABILITY_THRESHOLD_MS);
+  const [maxWaitSeconds, setMaxWaitSeconds] = useState(DEFAULT_MAX_WAIT_SECONDS);
+  const [burstThreshold, setBurstThreshold] = useState(DEFAULT_BURST_THRESHOLD);
   const [customGitPath, setCustomGitPath] = useState<string>('');
+  const [retentionEnabled, setRetentionEnabled] = useState(false);
+  const [retentionBuckets, setRetentionBuckets] = useState<RetentionBucket[]>(DEFAULT_RETENTION_BUCKETS);
+  const [isThinning, setIsThinning] = useState(false);
+  const [thinBookmarked, setThinBookmarked] = useState(false);
+  const [maxFileSizeMB, setMaxFileSizeMB] = useState(DEFAULT_MAX_FILE_SIZE_MB);
+  const [policyRules, setPolicyRules] = useState<FilePolicyRule[]>([]);
+  const [samplePath, setSamplePath] = useState('');
+  const [ignoreTest, setIgnoreTest] = useState<IgnoreTestResult | null>(null);
+  const [folderDefaults, setFolderDefaults] = useState<FolderProfileSettings>({}); // Inherited by folders that don't override them
+  const [formBaseline, setFormBaseline] = useState(toFormSettings({})); // The form as loaded, to tell which settings were changed
+  const [overriddenKeys, setOverriddenKeys] = useState<Array<keyof FolderProfileSettings>>([]);
+  
+  const [folderStatuses, setFolderStatuses] = useState<Record<string, FolderStatus>>({});
+  
+  // Global settings state
+  const [globalIgnorePatterns, setGlobalIgnorePatterns] = useState<string>('');
+  const [isSavingGlobalIgnores, setIsSavingGlobalIgnores] = useState(false);
+  const [configBackups, setConfigBackups] = useState<ConfigBackup[]>([]);
+  const [selectedBackupId, setSelectedBackupId] = useState('');
+  const [isRestoringBackup, setIsRestoringBackup] = useState(false);
+  const [folderProfiles, setFolderProfiles] = useState<FolderProfile[]>([]);
+  const [defaultProfileId, setDefaultProfileId] = useState('');
+  const [selectedProfileId, setSelectedProfileId] = useState('');
+  const [newProfileName, setNewProfileName] = useState('');
+  const [importPreview, setImportPreview] = useState<ConfigImportPreview | null>(null);
+  const [importFolderIds, setImportFolderIds] = useState<string[]>([]);
+  const [remapFrom, setRemapFrom] = useState('');
+  const [remapTo, setRemapTo] = useState('');
+  const [importGlobalSettings, setImportGlobalSettings] = useState(true);
+  const [isImporting, setIsImporting] = useState(false);
+
+  // Fill in the form's settings, e.g. from a folder or with a profile applied
+  const fillSettingsForm = (settings: FolderProfileSettings) => {
+    const form = toFormSettings(settings);
+    setCommitStrategy(form.commitStrategy);
+    setPeriodicInterval(form.periodicInterval);
+    setIdleMinutes(form.idleMinutes);
+    setCommitSchedule(form.commitSchedule);
+    setIgnorePatterns(form.ignorePatterns.join('\n'));
+    setWatchSubfolders(form.watchSubfolders);
+    setUsePolling(form.usePolling);
+    setSymlinkPolicy(form.symlinkPolicy);
+    setDebounceSeconds(form.debounceSeconds);
+    setStabilityThresholdMs(form.stabilityThresholdMs);
+    setMaxWaitSeconds(form.maxWaitSeconds);
+    setBurstThreshold(form.burstThreshold);
+    setRetentionEnabled(form.retention.enabled);
+    setRetentionBuckets(form.retention.buckets);
+    setMaxFileSizeMB(form.filePolicy.maxFileSizeMB || 0);
+    setPolicyRules(form.filePolicy.rules);
+  };
+  
+  // Fill the form from a folder or the global defaults
+  const loadSettingsForm = (settings: FolderProfileSettings, overridden: Array<keyof FolderProfileSettings>) => {
+    fillSettingsForm(settings);
+    setFormBaseline(toFormSettings(settings));
+    setOverriddenKeys(overridden);
+    setSamplePath('');
+    setIgnoreTest(null);
+  };
 
   useEffect(() => {
     if (selectedFolder) {
       setIsActive(selectedFolder.isActive !== false);
-      setCommitStrategy(selectedFolder.commitStrategy);
-      setPeriodicInterval(selectedFolder.periodicInterval || 5);
-      setIgnorePatterns(selectedFolder.ignorePatterns.join('\n'));
-      setWatchSubfolders(selectedFolder.watchSubfolders !== false);
       setCustomGitPath(selectedFolder.customGitPath || '');
+      loadSettingsForm(selectedFolder, selectedFolder.overriddenSettings || []);
+      setSelectedProfileId('');
     }
   }, [selectedFolder]);
   
+  useEffect(() => {
+    if ((activeView !== 'folder-defaults' && activeView !== 'folder-settings') || !window.electronAPI.getFolderDefaults) return;
+    
+    window.electronAPI.getFolderDefaults()
+      .then(defaults => {
+        setFolderDefaults(defaults);
+        if (activeView === 'folder-defaults') {
+          loadSettingsForm(defaults, []);
+          setSelectedProfileId('');
+        }
+      })
+      .catch(error => console.error('Failed to load folder defaults:', error));
+  }, [activeView]);
+  
+  const loadFolderProfiles = async () => {
+    if (!window.electronAPI.getFolderProfiles) return;
+    
+    try {
+      setFolderProfiles(await window.electronAPI.getFolderProfiles());
+    } catch (error) {
+      console.error('Failed to load folder profiles:', error);
+    }
+  };
+  
+  useEffect(() => {
+    if (activeView !== 'global' && activeView !== 'folder-settings' && activeView !== 'folder-defaults') return;
+    
+    loadFolderProfiles();
+    if (activeView === 'global') {
+      window.electronAPI.getConfig()
+        .then(config => setDefaultProfileId(config.defaultProfileId || ''))
+        .catch(error => console.error('Failed to load config:', error));
+    }
+  }, [activeView]);
+  
+  useEffect(() => {
+    if (activeView !== 'folder-settings' || !selectedFolder || !window.electronAPI.testIgnorePatterns) return;
+    
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const result = await window.electronAPI.testIgnorePatterns!(
+          selectedFolder.id,
+          parsePatterns(ignorePatterns),
+          samplePath.trim() || undefined
+        );
+        if (!cancelled) setIgnoreTest(result);
+      } catch (error) {
+        console.error('Failed to test ignore patterns:', error);
+      }
+    }, IGNORE_TEST_DELAY_MS);
+    
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [activeView, selectedFolder, ignorePatterns, samplePath]);
+  
+  // Keep watcher status current while the folder views are open
+  useEffect(() => {
+    if (activeView !== 'folder-list' && activeView !== 'folder-settings') return;
+    
+    window.electronAPI.getFolderStatuses?.()
+      .then(setFolderStatuses)
+      .catch(error => console.error('Failed to load folder status:', error));
+    
+    const cleanup = window.electronAPI.onFolderStatusChanged?.((folderId, status) => {
+      setFolderStatuses(prev => ({ ...prev, [folderId]: status }));
+    });
+    
+    return () => {
+      if (cleanup) cleanup();
+    };
+  }, [activeView]);
+  
+  useEffect(() => {
+    if (activeView !== 'global' || !window.electronAPI.getGlobalIgnorePatterns) return;
+    
+    window.electronAPI.getGlobalIgnorePatterns()
+      .then(patterns => setGlobalIgnorePatterns(patterns.join('\n')))
+      .catch(error => console.error('Failed to load global ignore patterns:', error));
+  }, [activeView]);
+  
+  const loadConfigBackups = async () => {
+    if (!window.electronAPI.listConfigBackups) return;
+    
+    try {
+      const backups = await window.electronAPI.listConfigBackups();
+      setConfigBackups(backups);
+      setSelectedBackupId(backups.find(backup => !backup.error)?.id || '');
+    } catch (error) {
+      console.error('Failed to load config backups:', error);
+    }
+  };
+  
+  useEffect(() => {
+    if (activeView === 'global') {
+      loadConfigBackups();
+    }
+  }, [activeView]);
+  
+  const handleRestoreBackup = async () => {
+    const backup = configBackups.find(b => b.id === selectedBackupId);
+    if (!backup || !window.electronAPI.restoreConfigBackup) return;
+    
+    const confirmed = confirm(
+      `Restore the settings from ${new Date(backup.createdAt).toLocaleString()}?\n\n` +
+      `${backup.folders.length} watched folder${backup.folders.length !== 1 ? 's' : ''}. ` +
+      'Your current settings are backed up first, so this can be undone.'
+    );
+    if (!confirmed) return;
+    
+    try {
+      setIsRestoringBackup(true);
+      await window.electronAPI.restoreConfigBackup(backup.id);
+      onUpdate();
+      await loadConfigBackups();
+    } catch (error) {
+      alert(`Failed to restore settings: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsRestoringBackup(false);
+    }
+  };
+  
+  const handleSetDefaultProfile = async (profileId: string) => {
+    if (!window.electronAPI.setDefaultFolderProfile) return;
+    
+    try {
+      await window.electronAPI.setDefaultFolderProfile(profileId || null);
+      setDefaultProfileId(profileId);
+    } catch (error) {
+      alert(`Failed to set the profile for new folders: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+  
+  const handleDeleteProfile = async (profile: FolderProfile) => {
+    if (!window.electronAPI.deleteFolderProfile || !confirm(`Delete the profile "${profile.name}"? Folders using its settings keep them.`)) return;
+    
+    try {
+      await window.electronAPI.deleteFolderProfile(profile.id);
+      if (defaultProfileId === profile.id) setDefaultProfileId('');
+      await loadFolderProfiles();
+    } catch (error) {
+      alert(`Failed to delete the profile: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+  
+  const handleApplyProfile = () => {
+    const profile = folderProfiles.find(p => p.id === selectedProfileId);
+    if (!profile) return;
+    
+    // Only fills in the form; nothing changes until the folder is saved
+    fillSettingsForm({ ...(selectedFolder || folderDefaults), ...profile.settings });
+  };
+  
+  // A folder setting that differs from the global default, or was changed in the form
+  const isOverridden = (key: keyof FolderProfileSettings): boolean => {
+    return overriddenKeys.includes(key) ||
+      JSON.stringify(collectProfileSettings()[key]) !== JSON.stringify(formBaseline[key]);
+  };
+  
+  // Only fills in the form; the folder follows the global default once saved
+  const handleResetSetting = (key: keyof FolderProfileSettings) => {
+    const inherited = toFormSettings(folderDefaults)[key];
+    fillSettingsForm({ ...collectProfileSettings(), [key]: inherited });
+    setFormBaseline({ ...formBaseline, [key]: inherited });
+    setOverriddenKeys(overriddenKeys.filter(k => k !== key));
+  };
+  
+  const handleSaveDefaults = async () => {
+    if (!window.electronAPI.setFolderDefaults) return;
+    
+    try {
+      await window.electronAPI.setFolderDefaults(collectProfileSettings());
+      await onUpdate();
+      setActiveView('menu');
+    } catch (error) {
+      alert(`Failed to save the folder defaults: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+  
+  const handleSaveAsProfile = async () => {
+    const name = newProfileName.trim();
+    if (!name || !window.electronAPI.saveFolderProfile) return;
+    
+    const existing = folderProfiles.find(p => !p.builtIn && p.name === name);
+    if (existing && !confirm(`Replace the settings of the profile "${name}"?`)) return;
+    
+    try {
+      const profile = await window.electronAPI.saveFolderProfile(name, collectProfileSettings(), existing?.id);
+      setNewProfileName('');
+      await loadFolderProfiles();
+      setSelectedProfileId(profile.id);
+    } catch (error) {
+      alert(`Failed to save the profile: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+  
+  const handleExportConfig = async () => {
+    if (!window.electronAPI.exportConfig) return;
+    
+    try {
+      const filePath = await window.electronAPI.exportConfig();
+      if (filePath) alert(`Settings exported to:\n${filePath}`);
+    } catch (error) {
+      alert(`Failed to export settings: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+  
+  const handleChooseImport = async () => {
+    if (!window.electronAPI.chooseConfigImport) return;
+    
+    try {
+      const preview = await window.electronAPI.chooseConfigImport();
+      if (!preview) return;
+      setImportPreview(preview);
+      setImportFolderIds(preview.folders.filter(folder => !folder.alreadyWatched).map(folder => folder.id));
+      setRemapFrom('');
+      setRemapTo('');
+    } catch (error) {
+      alert(`Failed to read the settings file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+  
+  const handleImport = async () => {
+    if (!importPreview || !window.electronAPI.importConfig) return;
+    
+    try {
+      setIsImporting(true);
+      const result = await window.electronAPI.importConfig(importPreview.filePath, {
+        folderIds: importFolderIds,
+        pathRemaps: remapFrom.trim() ? [{ from: remapFrom, to: remapTo }] : [],
+        includeGlobalSettings: importGlobalSettings
+      });
+      
+      const lines = [`${result.added.length} folder${result.added.length !== 1 ? 's' : ''} added.`];
+      if (result.paused.length > 0) {
+        lines.push('', 'Not found on this computer, so not watched yet:', ...result.paused);
+      }
+      if (result.skipped.length > 0) {
+        lines.push('', 'Skipped:', ...result.skipped.map(skipped => `${skipped.path} (${skipped.reason})`));
+      }
+      alert(lines.join('\n'));
+      
+      setImportPreview(null);
+      onUpdate();
+      await loadFolderProfiles();
+    } catch (error) {
+      alert(`Failed to import settings: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+  
+  const handleSaveGlobalIgnores = async () => {
+    if (!window.electronAPI.setGlobalIgnorePatterns) return;
+    
+    try {
+      setIsSavingGlobalIgnores(true);
+      await window.electronAPI.setGlobalIgnorePatterns(parsePatterns(globalIgnorePatterns));
+    } catch (error) {
+      alert(`Failed to save global ignore patterns: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsSavingGlobalIgnores(false);
+    }
+  };
+  
   const handleSelectFolder = (folder: WatchedFolder) => {
     setSelectedFolder(folder);
     setActiveView('folder-settings');
@@ -61,14 +500,40 @@ const Settings: React.FC<SettingsProps> = ({
     }
   };
 
+  const buildFilePolicy = () => ({
+    maxFileSizeMB,
+    rules: policyRules
+      .map(rule => ({ ...rule, pattern: rule.pattern.trim() }))
+      .filter(rule => rule.pattern.length > 0)
+  });
+  
+  // The form's settings that a profile can carry
+  const collectProfileSettings = (): FolderProfileSettings => ({
+    commitStrategy,
+    periodicInterval,
+    idleMinutes,
+    commitSchedule,
+    ignorePatterns: parsePatterns(ignorePatterns),
+    watchSubfolders,
+    usePolling,
+    symlinkPolicy,
+    debounceSeconds,
+    stabilityThresholdMs,
+    maxWaitSeconds,
+    burstThreshold,
+    retention: { enabled: retentionEnabled, buckets: retentionBuckets },
+    filePolicy: buildFilePolicy()
+  });
+
   const handleSave = async () => {
     if (!selectedFolder) return;
 
     try {
-      const patterns = ignorePatterns
-        .split('\n')
-        .map(p => p.trim())
-        .filter(p => p.length > 0);
+      // Settings left at the global default keep following it
+      const settings = collectProfileSettings();
+      const overridden = (Object.keys(settings) as Array<keyof FolderProfileSettings>).filter(isOverridden);
+      const overrides: FolderProfileSettings = Object.fromEntries(overridden.map(key => [key, settings[key]]));
+      const inherit = (selectedFolder.overriddenSettings || []).filter(key => !overridden.includes(key));
 
       const newCustomGitPath = customGitPath.trim() || undefined;
       const oldCustomGitPath = selectedFolder.customGitPath;
@@ -122,21 +587,15 @@ const Settings: React.FC<SettingsProps> = ({
       if (!gitPathChanged) {
         await window.electronAPI.updateFolder(selectedFolder.id, {
           isActive,
-          commitStrategy,
-          periodicInterval,
-          ignorePatterns: patterns,
-          watchSubfolders,
-          customGitPath: newCustomGitPath
-        });
+          customGitPath: newCustomGitPath,
+          ...overrides
+        }, inherit);
       } else {
         // If migration happened, only update non-git settings
         await window.electronAPI.updateFolder(selectedFolder.id, {
           isActive,
-          commitStrategy,
-          periodicInterval,
-          ignorePatterns: patterns,
-          watchSubfolders
-        });
+          ...overrides
+        }, inherit);
       }
 
       // Trigger UI reload
@@ -158,9 +617,51 @@ const Settings: React.FC<SettingsProps> = ({
     }
   };
 
+  const updatePolicyRule = (index: number, updates: Partial<FilePolicyRule>) => {
+    setPolicyRules(policyRules.map((rule, i) => i === index ? { ...rule, ...updates } : rule));
+  };
+
+  const updateBucket = (index: number, updates: Partial<RetentionBucket>) => {
+    setRetentionBuckets(retentionBuckets.map((bucket, i) => i === index ? { ...bucket, ...updates } : bucket));
+  };
+
+  const handleThinNow = async () => {
+    if (!selectedFolder || !window.electronAPI.thinHistory) return;
+    
+    const confirmed = confirm(
+      `Thin the version history of "${selectedFolder.name}" now?\n\n` +
+      `Older versions are reduced to the snapshots kept by the rules above. ` +
+      (thinBookmarked
+        ? `Bookmarked versions may be removed too, together with their bookmarks.\n\n`
+        : `Bookmarked versions are never removed.\n\n`) +
+      `This action cannot be undone.`
+    );
+    if (!confirmed) return;
+    
+    try {
+      setIsThinning(true);
+      const report = await window.electronAPI.thinHistory(selectedFolder.id, {
+        enabled: retentionEnabled,
+        buckets: retentionBuckets
+      }, thinBookmarked);
+      alert(
+        `Thinning complete.\n\n` +
+        `Versions kept: ${report.keptCount}\n` +
+        `Versions removed: ${report.removedCount}\n` +
+        `Space reclaimed: ${(report.reclaimedBytes / (1024 * 1024)).toFixed(1)} MB`
+      );
+      await onUpdate();
+    } catch (error) {
+      alert(`Thinning failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsThinning(false);
+    }
+  };
+
   const renderHeader = () => {
     let title = 'Settings';
     if (activeView === 'global') title = 'Global Settings';
+    else if (activeView === 'folder-defaults') title = 'Folder Defaults';
     else if (activeView === 'folder-list') title = 'Folder Settings';
     else if (activeView === 'folder-settings' && selectedFolder) title = `Settings - ${selectedFolder.name}`;
     
@@ -201,7 +702,24 @@ const Settings: React.FC<SettingsProps> = ({
           <div>
             <h3 className="font-semibold text-base">Global Settings</h3>
             <p className="text-sm text-gray-500 mt-1">
-              Auto-refresh, default Git location, and bulk migration tools
+              Auto-refresh, default Git location, global ignore patterns, and bulk migration tools
+            </p>
+          </div>
+          <svg className="w-5 h-5 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+          </svg>
+        </div>
+      </button>
+      
+      <button
+        onClick={() => setActiveView('folder-defaults')}
+        className="w-full p-4 text-left border border-gray-200 rounded-lg hover:bg-gray-50 hover:border-blue-300 transition-colors"
+      >
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="font-semibold text-base">Folder Defaults</h3>
+            <p className="text-sm text-gray-500 mt-1">
+              Commit strategy, timing and ignore patterns every folder uses unless it overrides them
             </p>
           </div>
           <svg className="w-5 h-5 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -314,6 +832,213 @@ const Settings: React.FC<SettingsProps> = ({
         </div>
       </div>
 
+      {/* Global Ignore Patterns */}
+      <div className="border-t border-gray-200 pt-4">
+        <h3 className="text-sm font-semibold mb-2">Global Ignore Patterns</h3>
+        <p className="text-xs text-gray-500 mb-3">
+          Applied to every folder, in .gitignore syntax (one per line). A folder's .lvignore, its own patterns
+          and its .gitignore files come after these and can re-include files with "!pattern".
+        </p>
+        <textarea
+          value={globalIgnorePatterns}
+          onChange={(e) => setGlobalIgnorePatterns(e.target.value)}
+          className="w-full h-28 px-3 py-2 border border-gray-300 rounded font-mono text-xs"
+        />
+        <button
+          onClick={handleSaveGlobalIgnores}
+          disabled={isSavingGlobalIgnores}
+          className="mt-2 px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 text-sm disabled:bg-gray-300"
+        >
+          {isSavingGlobalIgnores ? 'Saving...' : 'Save Ignore Patterns'}
+        </button>
+      </div>
+
+      {/* Folder Profiles */}
+      <div className="border-t border-gray-200 pt-4">
+        <h3 className="text-sm font-semibold mb-2">Folder Profiles</h3>
+        <p className="text-xs text-gray-500 mb-3">
+          Named sets of folder settings (strategy, ignore rules, retention and more). Apply one from a folder's
+          settings, or save a folder's settings as a new profile there.
+        </p>
+        <div className="space-y-1 mb-3">
+          {folderProfiles.map(profile => (
+            <div key={profile.id} className="flex items-center gap-2 p-2 border border-gray-200 rounded text-xs">
+              <span className="font-medium">{profile.name}</span>
+              {profile.builtIn && <span className="px-1 rounded bg-gray-100 text-gray-500">built-in</span>}
+              {!profile.builtIn && (
+                <button
+                  onClick={() => handleDeleteProfile(profile)}
+                  className="ml-auto text-red-600 hover:text-red-800"
+                >
+                  Delete
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+        <label className="flex items-center gap-2 text-xs">
+          <span className="font-medium">Profile for new folders</span>
+          <select
+            value={defaultProfileId}
+            onChange={(e) => handleSetDefaultProfile(e.target.value)}
+            className="px-2 py-1 border border-gray-300 rounded text-xs"
+          >
+            <option value="">None</option>
+            {folderProfiles.map(profile => (
+              <option key={profile.id} value={profile.id}>{profile.name}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {/* Export and Import */}
+      <div className="border-t border-gray-200 pt-4">
+        <h3 className="text-sm font-semibold mb-2">Export and Import</h3>
+        <p className="text-xs text-gray-500 mb-3">
+          Move your folders and settings to another computer. Folder histories are not included; point a folder
+          at its copied Git repository when importing, or it starts a new one.
+        </p>
+        <div className="flex gap-2">
+          <button
+            onClick={handleExportConfig}
+            className="px-4 py-2 border border-gray-300 rounded hover:bg-gray-50 text-sm"
+          >
+            Export Settings...
+          </button>
+          <button
+            onClick={handleChooseImport}
+            className="px-4 py-2 border border-gray-300 rounded hover:bg-gray-50 text-sm"
+          >
+            Import Settings...
+          </button>
+        </div>
+        
+        {importPreview && (
+          <div className="mt-3 p-3 border border-blue-200 bg-blue-50 rounded text-xs space-y-2">
+            <p className="font-medium break-all">Importing {importPreview.filePath}</p>
+            <div className="flex items-center gap-2">
+              <span>Replace</span>
+              <input
+                type="text"
+                value={remapFrom}
+                onChange={(e) => setRemapFrom(e.target.value)}
+                placeholder="/Users/old-name"
+                className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded font-mono"
+              />
+              <span>with</span>
+              <input
+                type="text"
+                value={remapTo}
+                onChange={(e) => setRemapTo(e.target.value)}
+                placeholder="/home/new-name"
+                className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded font-mono"
+              />
+            </div>
+            <div className="space-y-1 max-h-48 overflow-auto">
+              {importPreview.folders.map(folder => (
+                <label key={folder.id} className={`flex items-start gap-2 ${folder.alreadyWatched ? 'text-gray-400' : ''}`}>
+                  <input
+                    type="checkbox"
+                    checked={importFolderIds.includes(folder.id)}
+                    onChange={(e) => setImportFolderIds(e.target.checked
+                      ? [...importFolderIds, folder.id]
+                      : importFolderIds.filter(id => id !== folder.id))}
+                    className="mt-0.5"
+                  />
+                  <div className="min-w-0">
+                    <p className="font-medium">{folder.name}{folder.alreadyWatched ? ' (already watched)' : ''}</p>
+                    <p className="font-mono truncate" title={folder.path}>{remapPath(folder.path, remapFrom, remapTo)}</p>
+                    {folder.customGitPath && (
+                      <p className="font-mono truncate text-gray-500" title={folder.customGitPath}>
+                        Git: {remapPath(folder.customGitPath, remapFrom, remapTo)}
+                      </p>
+                    )}
+                  </div>
+                </label>
+              ))}
+            </div>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={importGlobalSettings}
+                onChange={(e) => setImportGlobalSettings(e.target.checked)}
+              />
+              <span>
+                Also import global ignore patterns, Git location defaults and profiles
+                {importPreview.profiles.length > 0 && ` (${importPreview.profiles.join(', ')})`}
+              </span>
+            </label>
+            <div className="flex justify-end gap-2">
+              <button
+                onClick={() => setImportPreview(null)}
+                className="px-3 py-1 border border-gray-300 rounded hover:bg-white"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleImport}
+                disabled={isImporting || (importFolderIds.length === 0 && !importGlobalSettings)}
+                className="px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:bg-gray-300"
+              >
+                {isImporting ? 'Importing...' : 'Import'}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Settings Backups */}
+      <div className="border-t border-gray-200 pt-4">
+        <h3 className="text-sm font-semibold mb-2">Restore Previous Configuration</h3>
+        <p className="text-xs text-gray-500 mb-3">
+          A copy of the settings is kept each time they change (the last 10 copies). Restoring one replaces
+          the watched folders and their settings; folder histories are not changed.
+        </p>
+        {configBackups.length === 0 ? (
+          <p className="text-xs text-gray-400 italic">No earlier settings yet</p>
+        ) : (
+          <>
+            <div className="space-y-1 max-h-48 overflow-auto mb-2">
+              {configBackups.map(backup => (
+                <label
+                  key={backup.id}
+                  className={`flex items-start gap-2 p-2 border rounded text-xs ${
+                    backup.error ? 'border-gray-200 text-gray-400' : 'border-gray-200 cursor-pointer hover:bg-gray-50'
+                  }`}
+                >
+                  <input
+                    type="radio"
+                    name="config-backup"
+                    checked={selectedBackupId === backup.id}
+                    onChange={() => setSelectedBackupId(backup.id)}
+                    disabled={!!backup.error}
+                    className="mt-0.5"
+                  />
+                  <div className="min-w-0">
+                    <p className="font-medium">{new Date(backup.createdAt).toLocaleString()}</p>
+                    {backup.error ? (
+                      <p className="text-red-600">{backup.error}</p>
+                    ) : (
+                      <p className="text-gray-500 truncate" title={backup.folders.map(folder => folder.path).join('\n')}>
+                        {backup.folders.length} folder{backup.folders.length !== 1 ? 's' : ''}
+                        {backup.folders.length > 0 && `: ${backup.folders.map(folder => folder.name).join(', ')}`}
+                      </p>
+                    )}
+                  </div>
+                </label>
+              ))}
+            </div>
+            <button
+              onClick={handleRestoreBackup}
+              disabled={!selectedBackupId || isRestoringBackup}
+              className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 text-sm disabled:bg-gray-300"
+            >
+              {isRestoringBackup ? 'Restoring...' : 'Restore Selected Settings'}
+            </button>
+          </>
+        )}
+      </div>
+
       {/* Migration Tool */}
       <div className="border-t border-gray-200 pt-4">
         <h3 className="text-sm font-semibold mb-2">Bulk Migration Tool</h3>
@@ -353,10 +1078,21 @@ const Settings: React.FC<SettingsProps> = ({
                   <h3 className="font-medium text-sm truncate">{folder.name}</h3>
                   <p className="text-xs text-gray-500 truncate mt-1">{folder.path}</p>
                   <div className="flex gap-3 mt-2 text-xs text-gray-400">
-                    <span>Strategy: {folder.commitStrategy === 'on-save' ? 'On Save' : `Every ${folder.periodicInterval}min`}</span>
+                    <span>
+                      Strategy: {folder.commitStrategy === 'on-save'
+                        ? 'On Save'
+                        : folder.commitStrategy === 'on-idle'
+                        ? `After ${folder.idleMinutes || DEFAULT_IDLE_MINUTES}min idle`
+                        : `Every ${folder.periodicInterval}min`}
+                    </span>
                     <span>•</span>
                     <span>{folder.watchSubfolders ? 'Includes subfolders' : 'Top level only'}</span>
                   </div>
+                  {folderStatuses[folder.id] && (
+                    <div className="mt-2">
+                      <FolderStatusIndicator status={folderStatuses[folder.id]} />
+                    </div>
+                  )}
                 </div>
                 <svg className="w-5 h-5 text-gray-400 flex-shrink-0 ml-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
@@ -369,44 +1105,128 @@ const Settings: React.FC<SettingsProps> = ({
     </div>
   );
 
-  const renderFolderSettings = () => {
+  // Whether a folder setting follows the global default, with a way back to it
+  const renderInheritance = (key: keyof FolderProfileSettings) => {
     if (!selectedFolder) return null;
+    
+    return isOverridden(key) ? (
+      <span className="text-xs text-blue-600 whitespace-nowrap">
+        Overridden ·{' '}
+        <button
+          onClick={(e) => {
+            e.preventDefault();
+            handleResetSetting(key);
+          }}
+          className="underline hover:text-blue-800"
+        >
+          Reset to global default
+        </button>
+      </span>
+    ) : (
+      <span className="text-xs text-gray-400 whitespace-nowrap">Global default</span>
+    );
+  };
+
+  // Also edits the global defaults, without the parts that only apply to one folder
+  const renderFolderSettings = () => {
+    if (!selectedFolder && activeView !== 'folder-defaults') return null;
 
     return (
       <>
         <div className="p-6 overflow-y-auto max-h-[calc(90vh-200px)] space-y-6">
-          <div>
-            <h3 className="text-sm font-semibold mb-2">Folder</h3>
-            <div className="p-3 bg-gray-50 rounded">
-              <p className="text-sm font-medium">{selectedFolder.name}</p>
-              <p className="text-xs text-gray-500 mt-1">{selectedFolder.path}</p>
+          {selectedFolder ? (
+            <div>
+              <h3 className="text-sm font-semibold mb-2">Folder</h3>
+              <div className="p-3 bg-gray-50 rounded">
+                <p className="text-sm font-medium">{selectedFolder.name}</p>
+                <p className="text-xs text-gray-500 mt-1">{selectedFolder.path}</p>
+              </div>
+              {folderStatuses[selectedFolder.id] && (
+                <div className="mt-2">
+                  <FolderStatusIndicator status={folderStatuses[selectedFolder.id]} detailed />
+                </div>
+              )}
+              <p className="text-xs text-gray-500 mt-2">
+                Settings marked "Global default" follow the folder defaults. Changing one overrides it for this folder only.
+              </p>
             </div>
-          </div>
+          ) : (
+            <p className="p-3 bg-blue-50 border border-blue-200 rounded text-xs text-blue-800">
+              Every folder uses these settings unless it overrides them in its own settings.
+            </p>
+          )}
 
-          {/* Auto-commit Enable/Disable */}
+          {/* Folder Profile */}
           <div>
-            <h3 className="text-sm font-semibold mb-2">Auto-commit</h3>
-            <label className="flex items-center gap-3 p-3 border border-gray-200 rounded cursor-pointer hover:bg-gray-50">
+            <h3 className="text-sm font-semibold mb-2">Profile</h3>
+            <div className="flex gap-2 mb-2">
+              <select
+                value={selectedProfileId}
+                onChange={(e) => setSelectedProfileId(e.target.value)}
+                className="flex-1 px-2 py-1 border border-gray-300 rounded text-sm"
+              >
+                <option value="">Choose a profile...</option>
+                {folderProfiles.map(profile => (
+                  <option key={profile.id} value={profile.id}>{profile.name}</option>
+                ))}
+              </select>
+              <button
+                onClick={handleApplyProfile}
+                disabled={!selectedProfileId}
+                className="px-3 py-1 border border-gray-300 rounded hover:bg-gray-50 text-sm disabled:text-gray-300"
+                title="Fill in the settings below from the profile; save to apply them"
+              >
+                Apply
+              </button>
+            </div>
+            <div className="flex gap-2">
               <input
-                type="checkbox"
-                checked={isActive}
-                onChange={(e) => setIsActive(e.target.checked)}
-                className="w-4 h-4"
+                type="text"
+                value={newProfileName}
+                onChange={(e) => setNewProfileName(e.target.value)}
+                placeholder="New profile name"
+                className="flex-1 px-2 py-1 border border-gray-300 rounded text-sm"
               />
-              <div>
-                <p className="font-medium text-sm">Enable automatic versioning</p>
-                <p className="text-xs text-gray-500">
-                  When enabled, changes will be automatically tracked and saved. 
-                  The <span className={isActive ? 'text-green-600 font-semibold' : 'text-gray-600 font-semibold'}>
-                    {isActive ? 'green' : 'gray'}
-                  </span> indicator shows the current status.
-                </p>
-              </div>
-            </label>
+              <button
+                onClick={handleSaveAsProfile}
+                disabled={!newProfileName.trim()}
+                className="px-3 py-1 border border-gray-300 rounded hover:bg-gray-50 text-sm disabled:text-gray-300"
+                title="Save the settings below as a profile for other folders"
+              >
+                Save as Profile
+              </button>
+            </div>
           </div>
 
+          {/* Auto-commit Enable/Disable */}
+          {selectedFolder && (
+            <div>
+              <h3 className="text-sm font-semibold mb-2">Auto-commit</h3>
+              <label className="flex items-center gap-3 p-3 border border-gray-200 rounded cursor-pointer hover:bg-gray-50">
+                <input
+                  type="checkbox"
+                  checked={isActive}
+                  onChange={(e) => setIsActive(e.target.checked)}
+                  className="w-4 h-4"
+                />
+                <div>
+                  <p className="font-medium text-sm">Enable automatic versioning</p>
+                  <p className="text-xs text-gray-500">
+                    When enabled, changes will be automatically tracked and saved. 
+                    The <span className={isActive ? 'text-green-600 font-semibold' : 'text-gray-600 font-semibold'}>
+                      {isActive ? 'green' : 'gray'}
+                    </span> indicator shows the current status.
+                  </p>
+                </div>
+              </label>
+            </div>
+          )}
+
           <div>
-            <h3 className="text-sm font-semibold mb-2">Commit Strategy</h3>
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-sm font-semibold">Commit Strategy</h3>
+              {renderInheritance('commitStrategy')}
+            </div>
             <div className="space-y-3">
               <label className="flex items-start gap-3 p-3 border border-gray-200 rounded cursor-pointer hover:bg-gray-50">
                 <input
@@ -420,7 +1240,7 @@ const Settings: React.FC<SettingsProps> = ({
                 <div>
                   <p className="font-medium text-sm">On Save</p>
                   <p className="text-xs text-gray-500">
-                    Automatically commit changes 2 seconds after files are saved
+                    Automatically commit changes {debounceSeconds} second{debounceSeconds !== 1 ? 's' : ''} after files are saved
                   </p>
                 </div>
               </label>
@@ -451,10 +1271,210 @@ const Settings: React.FC<SettingsProps> = ({
                         className="w-16 px-2 py-1 border border-gray-300 rounded text-sm"
                       />
                       <label className="text-xs text-gray-600">minutes</label>
+                      <span className="ml-auto">{renderInheritance('periodicInterval')}</span>
                     </div>
                   )}
                 </div>
               </label>
+
+              <label className="flex items-start gap-3 p-3 border border-gray-200 rounded cursor-pointer hover:bg-gray-50">
+                <input
+                  type="radio"
+                  name="strategy"
+                  value="on-idle"
+                  checked={commitStrategy === 'on-idle'}
+                  onChange={(e) => setCommitStrategy(e.target.value as 'on-idle')}
+                  className="mt-1"
+                />
+                <div className="flex-1">
+                  <p className="font-medium text-sm">On Idle</p>
+                  <p className="text-xs text-gray-500 mb-2">
+                    Commit once nothing has changed for a while, e.g. at the end of a writing session
+                  </p>
+                  {commitStrategy === 'on-idle' && (
+                    <div className="flex items-center gap-2">
+                      <label className="text-xs text-gray-600">After</label>
+                      <input
+                        type="number"
+                        min="1"
+                        max="240"
+                        value={idleMinutes}
+                        onChange={(e) => setIdleMinutes(parseInt(e.target.value) || DEFAULT_IDLE_MINUTES)}
+                        className="w-16 px-2 py-1 border border-gray-300 rounded text-sm"
+                      />
+                      <label className="text-xs text-gray-600">idle minutes</label>
+                      <span className="ml-auto">{renderInheritance('idleMinutes')}</span>
+                    </div>
+                  )}
+                </div>
+              </label>
+            </div>
+          </div>
+
+          {commitStrategy !== 'on-save' && (
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <h3 className="text-sm font-semibold">Commit Schedule</h3>
+                {renderInheritance('commitSchedule')}
+              </div>
+              <div className="space-y-3 p-3 border border-gray-200 rounded">
+                <label className="flex items-center gap-2 text-sm cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={commitSchedule.enabled}
+                    onChange={(e) => setCommitSchedule({ ...commitSchedule, enabled: e.target.checked })}
+                    className="w-4 h-4"
+                  />
+                  <span>Only commit at set times</span>
+                </label>
+                <p className="text-xs text-gray-500">
+                  Changes made outside these times are kept and committed once the schedule allows it.
+                </p>
+
+                {commitSchedule.enabled && (
+                  <>
+                    <div className="flex gap-1">
+                      {WEEKDAYS.map((label, day) => {
+                        const selected = commitSchedule.days.includes(day);
+
+                        return (
+                          <button
+                            key={label}
+                            onClick={() => setCommitSchedule({
+                              ...commitSchedule,
+                              days: selected
+                                ? commitSchedule.days.filter(d => d !== day)
+                                : [...commitSchedule.days, day].sort((a, b) => a - b)
+                            })}
+                            className={`px-2 py-1 text-xs rounded border ${
+                              selected ? 'bg-blue-500 border-blue-500 text-white' : 'border-gray-300 text-gray-600 hover:bg-gray-50'
+                            }`}
+                          >
+                            {label}
+                          </button>
+                        );
+                      })}
+                    </div>
+                    {commitSchedule.days.length === 0 && (
+                      <p className="text-xs text-red-600">
+                        With no days selected, changes are only committed when watching stops.
+                      </p>
+                    )}
+                    <div className="flex items-center gap-2">
+                      <label className="text-xs text-gray-600 w-24">Between</label>
+                      <input
+                        type="time"
+                        value={commitSchedule.startTime}
+                        onChange={(e) => setCommitSchedule({ ...commitSchedule, startTime: e.target.value })}
+                        className="px-2 py-1 border border-gray-300 rounded text-sm"
+                      />
+                      <span className="text-xs text-gray-600">and</span>
+                      <input
+                        type="time"
+                        value={commitSchedule.endTime}
+                        onChange={(e) => setCommitSchedule({ ...commitSchedule, endTime: e.target.value })}
+                        className="px-2 py-1 border border-gray-300 rounded text-sm"
+                      />
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <label className="flex items-center gap-2 text-xs text-gray-600 w-24 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={commitSchedule.quietHours?.enabled === true}
+                          onChange={(e) => setCommitSchedule({
+                            ...commitSchedule,
+                            quietHours: { ...DEFAULT_COMMIT_SCHEDULE.quietHours!, ...commitSchedule.quietHours, enabled: e.target.checked }
+                          })}
+                        />
+                        Quiet hours
+                      </label>
+                      <input
+                        type="time"
+                        value={commitSchedule.quietHours?.startTime || ''}
+                        onChange={(e) => setCommitSchedule({
+                          ...commitSchedule,
+                          quietHours: { ...DEFAULT_COMMIT_SCHEDULE.quietHours!, ...commitSchedule.quietHours, startTime: e.target.value }
+                        })}
+                        disabled={commitSchedule.quietHours?.enabled !== true}
+                        className="px-2 py-1 border border-gray-300 rounded text-sm disabled:bg-gray-100"
+                      />
+                      <span className="text-xs text-gray-600">to</span>
+                      <input
+                        type="time"
+                        value={commitSchedule.quietHours?.endTime || ''}
+                        onChange={(e) => setCommitSchedule({
+                          ...commitSchedule,
+                          quietHours: { ...DEFAULT_COMMIT_SCHEDULE.quietHours!, ...commitSchedule.quietHours, endTime: e.target.value }
+                        })}
+                        disabled={commitSchedule.quietHours?.enabled !== true}
+                        className="px-2 py-1 border border-gray-300 rounded text-sm disabled:bg-gray-100"
+                      />
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      Use the same start and end time for the whole day. Times that end before they start run past midnight.
+                    </p>
+                  </>
+                )}
+              </div>
+            </div>
+          )}
+
+          <div>
+            <h3 className="text-sm font-semibold mb-2">Timing</h3>
+            <div className="space-y-2 p-3 border border-gray-200 rounded">
+              <div className="flex items-center gap-2">
+                <label className="text-xs text-gray-600 w-40">Wait after last change</label>
+                <input
+                  type="number"
+                  min="0.1"
+                  step="0.5"
+                  value={debounceSeconds}
+                  onChange={(e) => setDebounceSeconds(Math.max(0.1, parseFloat(e.target.value) || DEFAULT_DEBOUNCE_SECONDS))}
+                  disabled={commitStrategy !== 'on-save'}
+                  className="w-20 px-2 py-1 border border-gray-300 rounded text-sm disabled:bg-gray-100"
+                />
+                <span className="text-xs text-gray-600">seconds</span>
+                <span className="ml-auto">{renderInheritance('debounceSeconds')}</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <label className="text-xs text-gray-600 w-40">Commit at least every</label>
+                <input
+                  type="number"
+                  min="0"
+                  value={maxWaitSeconds}
+                  onChange={(e) => setMaxWaitSeconds(Math.max(0, parseInt(e.target.value) || 0))}
+                  disabled={commitStrategy !== 'on-save'}
+                  className="w-20 px-2 py-1 border border-gray-300 rounded text-sm disabled:bg-gray-100"
+                />
+                <span className="text-xs text-gray-600">seconds while files keep changing (0 = no limit)</span>
+                <span className="ml-auto">{renderInheritance('maxWaitSeconds')}</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <label className="text-xs text-gray-600 w-40">File is written after</label>
+                <input
+                  type="number"
+                  min="50"
+                  step="50"
+                  value={stabilityThresholdMs}
+                  onChange={(e) => setStabilityThresholdMs(Math.max(50, parseInt(e.target.value) || DEFAULT_STABILITY_THRESHOLD_MS))}
+                  className="w-20 px-2 py-1 border border-gray-300 rounded text-sm"
+                />
+                <span className="text-xs text-gray-600">ms without size changes</span>
+                <span className="ml-auto">{renderInheritance('stabilityThresholdMs')}</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <label className="text-xs text-gray-600 w-40">Ask before committing</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="50"
+                  value={burstThreshold}
+                  onChange={(e) => setBurstThreshold(Math.max(0, parseInt(e.target.value) || 0))}
+                  className="w-20 px-2 py-1 border border-gray-300 rounded text-sm"
+                />
+                <span className="text-xs text-gray-600">or more files changed at once (0 = never ask)</span>
+                <span className="ml-auto">{renderInheritance('burstThreshold')}</span>
+              </div>
             </div>
           </div>
 
@@ -474,68 +1494,71 @@ const Settings: React.FC<SettingsProps> = ({
                     Watch and track changes in all subdirectories recursively
                   </p>
                 </div>
+                <span className="ml-auto">{renderInheritance('watchSubfolders')}</span>
               </label>
             </div>
-          </div>
-
-          <div>
-            <h3 className="text-sm font-semibold mb-3">Git Repository Location</h3>
-            <p className="text-xs text-gray-500 mb-3">
-              Choose where to store the Git repository for this folder
-            </p>
-            
-            {/* Quick Selection Buttons */}
-            <div className="mb-3">
-              <p className="text-xs font-medium text-gray-700 mb-2">Quick Select:</p>
-              <div className="flex gap-2">
-                <button
-                  onClick={() => setCustomGitPath('')}
-                  className={`flex-1 px-3 py-2 text-sm border rounded transition-colors ${
-                    !customGitPath
-                      ? 'bg-blue-50 border-blue-500 text-blue-700 font-medium'
-                      : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
-                  }`}
-                >
-                  <div className="text-left">
-                    <div className="font-medium">Inside Watched Folder</div>
-                    <div className="text-xs text-gray-500 truncate">{selectedFolder.path}/.git</div>
-                  </div>
-                </button>
-                <button
-                  onClick={async () => {
-                    const path = await window.electronAPI.selectFolder();
-                    if (path) {
-                      setCustomGitPath(path);
-                    }
-                  }}
-                  className={`flex-1 px-3 py-2 text-sm border rounded transition-colors ${
-                    customGitPath
-                      ? 'bg-blue-50 border-blue-500 text-blue-700 font-medium'
-                      : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
-                  }`}
-                >
-                  <div className="text-left">
-                    <div className="font-medium">Custom Location</div>
-                    <div className="text-xs text-gray-500">Choose a different folder</div>
-                  </div>
-                </button>
+            <div className="mb-4">
+              <label className="flex items-center gap-3 p-3 border border-gray-200 rounded cursor-pointer hover:bg-gray-50">
+                <input
+                  type="checkbox"
+                  checked={usePolling}
+                  onChange={(e) => setUsePolling(e.target.checked)}
+                  className="w-4 h-4"
+                />
+                <div>
+                  <p className="font-medium text-sm">Check for changes by polling</p>
+                  <p className="text-xs text-gray-500">
+                    For network shares and drives that do not report file changes. Uses more CPU.
+                  </p>
+                </div>
+                <span className="ml-auto">{renderInheritance('usePolling')}</span>
+              </label>
+            </div>
+            <div className="mb-4 p-3 border border-gray-200 rounded">
+              <div className="flex items-center justify-between mb-1">
+                <label className="font-medium text-sm">Symbolic links</label>
+                {renderInheritance('symlinkPolicy')}
               </div>
+              <select
+                value={symlinkPolicy}
+                onChange={(e) => setSymlinkPolicy(e.target.value as SymlinkPolicy)}
+                className="w-full px-2 py-1 border border-gray-300 rounded text-sm"
+              >
+                {SYMLINK_POLICIES.map(policy => (
+                  <option key={policy.value} value={policy.value}>{policy.label}</option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">
+                {SYMLINK_POLICIES.find(policy => policy.value === symlinkPolicy)?.description}.
+                Pipes, sockets and devices are always skipped.
+              </p>
             </div>
+          </div>
 
-            {/* Custom Path Input (shown when custom location is selected) */}
-            {customGitPath && (
+          {selectedFolder && (
+            <div>
+              <h3 className="text-sm font-semibold mb-3">Git Repository Location</h3>
+              <p className="text-xs text-gray-500 mb-3">
+                Choose where to store the Git repository for this folder
+              </p>
+              
+              {/* Quick Selection Buttons */}
               <div className="mb-3">
-                <label className="text-xs font-medium text-gray-700 mb-1 block">
-                  Custom Path:
-                </label>
+                <p className="text-xs font-medium text-gray-700 mb-2">Quick Select:</p>
                 <div className="flex gap-2">
-                  <input
-                    type="text"
-                    value={customGitPath}
-                    onChange={(e) => setCustomGitPath(e.target.value)}
-                    placeholder="/path/to/centralized/repos"
-                    className="flex-1 px-3 py-2 border border-gray-300 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
-                  />
+                  <button
+                    onClick={() => setCustomGitPath('')}
+                    className={`flex-1 px-3 py-2 text-sm border rounded transition-colors ${
+                      !customGitPath
+                        ? 'bg-blue-50 border-blue-500 text-blue-700 font-medium'
+                        : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+                    }`}
+                  >
+                    <div className="text-left">
+                      <div className="font-medium">Inside Watched Folder</div>
+                      <div className="text-xs text-gray-500 truncate">{selectedFolder.path}/.git</div>
+                    </div>
+                  </button>
                   <button
                     onClick={async () => {
                       const path = await window.electronAPI.selectFolder();
@@ -543,56 +1566,315 @@ const Settings: React.FC<SettingsProps> = ({
                         setCustomGitPath(path);
                       }
                     }}
-                    className="px-3 py-2 bg-gray-100 hover:bg-gray-200 rounded text-sm"
+                    className={`flex-1 px-3 py-2 text-sm border rounded transition-colors ${
+                      customGitPath
+                        ? 'bg-blue-50 border-blue-500 text-blue-700 font-medium'
+                        : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+                    }`}
                   >
-                    Browse
+                    <div className="text-left">
+                      <div className="font-medium">Custom Location</div>
+                      <div className="text-xs text-gray-500">Choose a different folder</div>
+                    </div>
                   </button>
                 </div>
-                <p className="text-xs text-gray-500 mt-1">
-                  Repository will be stored as: <code className="bg-gray-100 px-1">{customGitPath}/{selectedFolder.name}-git</code>
-                </p>
               </div>
-            )}
-            
-            {/* Current Status */}
-            <div className="p-3 bg-blue-50 border border-blue-200 rounded text-xs">
-              <p className="font-semibold text-blue-800 mb-1">📍 Current Location:</p>
-              {selectedFolder.customGitPath ? (
-                <p className="text-blue-700 font-mono break-all">{selectedFolder.customGitPath}</p>
-              ) : (
-                <p className="text-blue-700">{selectedFolder.path}/.git (inside watched folder)</p>
+
+              {/* Custom Path Input (shown when custom location is selected) */}
+              {customGitPath && (
+                <div className="mb-3">
+                  <label className="text-xs font-medium text-gray-700 mb-1 block">
+                    Custom Path:
+                  </label>
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      value={customGitPath}
+                      onChange={(e) => setCustomGitPath(e.target.value)}
+                      placeholder="/path/to/centralized/repos"
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    <button
+                      onClick={async () => {
+                        const path = await window.electronAPI.selectFolder();
+                        if (path) {
+                          setCustomGitPath(path);
+                        }
+                      }}
+                      className="px-3 py-2 bg-gray-100 hover:bg-gray-200 rounded text-sm"
+                    >
+                      Browse
+                    </button>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Repository will be stored as: <code className="bg-gray-100 px-1">{customGitPath}/{selectedFolder.name}-git</code>
+                  </p>
+                </div>
               )}
+              
+              {/* Current Status */}
+              <div className="p-3 bg-blue-50 border border-blue-200 rounded text-xs">
+                <p className="font-semibold text-blue-800 mb-1">📍 Current Location:</p>
+                {selectedFolder.customGitPath ? (
+                  <p className="text-blue-700 font-mono break-all">{selectedFolder.customGitPath}</p>
+                ) : (
+                  <p className="text-blue-700">{selectedFolder.path}/.git (inside watched folder)</p>
+                )}
+              </div>
+              
+              {/* Warning */}
+              <div className="mt-2 p-2 bg-orange-50 border border-orange-200 rounded text-xs">
+                <p className="text-orange-700 font-medium">
+                  ⚠️ Changing this will automatically MOVE your existing Git repository when you click Save
+                </p>
+              </div>
             </div>
-            
-            {/* Warning */}
-            <div className="mt-2 p-2 bg-orange-50 border border-orange-200 rounded text-xs">
-              <p className="text-orange-700 font-medium">
-                ⚠️ Changing this will automatically MOVE your existing Git repository when you click Save
-              </p>
+          )}
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-sm font-semibold">Version Retention</h3>
+              {renderInheritance('retention')}
             </div>
+            <label className="flex items-center gap-3 p-3 border border-gray-200 rounded cursor-pointer hover:bg-gray-50 mb-3">
+              <input
+                type="checkbox"
+                checked={retentionEnabled}
+                onChange={(e) => setRetentionEnabled(e.target.checked)}
+                className="w-4 h-4"
+              />
+              <div>
+                <p className="font-medium text-sm">Thin old versions automatically</p>
+                <p className="text-xs text-gray-500">
+                  Like Time Machine: recent versions are all kept, older ones are reduced to periodic snapshots.
+                  Bookmarked versions are never removed.
+                </p>
+              </div>
+            </label>
+            
+            {retentionEnabled && (
+              <div className="space-y-2">
+                {retentionBuckets.map((bucket, index) => (
+                  <div key={index} className="flex items-center gap-2 text-xs text-gray-600">
+                    {bucket.maxAgeHours !== undefined ? (
+                      <>
+                        <span>Younger than</span>
+                        <input
+                          type="number"
+                          min="1"
+                          value={bucket.maxAgeHours}
+                          onChange={(e) => updateBucket(index, { maxAgeHours: parseInt(e.target.value) || 1 })}
+                          className="w-20 px-2 py-1 border border-gray-300 rounded text-sm"
+                        />
+                        <span>hours:</span>
+                      </>
+                    ) : (
+                      <span>Older versions:</span>
+                    )}
+                    <select
+                      value={bucket.intervalHours > 0 ? 'interval' : 'all'}
+                      onChange={(e) => updateBucket(index, { intervalHours: e.target.value === 'all' ? 0 : 1 })}
+                      className="px-2 py-1 border border-gray-300 rounded text-sm"
+                    >
+                      <option value="all">keep every version</option>
+                      <option value="interval">keep one every</option>
+                    </select>
+                    {bucket.intervalHours > 0 && (
+                      <>
+                        <input
+                          type="number"
+                          min="1"
+                          value={bucket.intervalHours}
+                          onChange={(e) => updateBucket(index, { intervalHours: parseInt(e.target.value) || 1 })}
+                          className="w-20 px-2 py-1 border border-gray-300 rounded text-sm"
+                        />
+                        <span>hours</span>
+                      </>
+                    )}
+                    {bucket.maxAgeHours !== undefined && (
+                      <button
+                        onClick={() => setRetentionBuckets(retentionBuckets.filter((_, i) => i !== index))}
+                        className="ml-auto text-gray-400 hover:text-red-500"
+                        title="Remove rule"
+                      >
+                        ✕
+                      </button>
+                    )}
+                  </div>
+                ))}
+                
+                <div className="flex gap-2 pt-1">
+                  <button
+                    onClick={() => {
+                      const bounded = retentionBuckets.filter(b => b.maxAgeHours !== undefined);
+                      const last = bounded[bounded.length - 1];
+                      const rest = retentionBuckets.filter(b => b.maxAgeHours === undefined);
+                      setRetentionBuckets([
+                        ...bounded,
+                        { maxAgeHours: (last?.maxAgeHours || 24) * 2, intervalHours: last?.intervalHours || 1 },
+                        ...rest
+                      ]);
+                    }}
+                    className="px-3 py-1 text-xs bg-gray-100 hover:bg-gray-200 rounded"
+                  >
+                    Add rule
+                  </button>
+                  <button
+                    onClick={() => setRetentionBuckets(DEFAULT_RETENTION_BUCKETS)}
+                    className="px-3 py-1 text-xs bg-gray-100 hover:bg-gray-200 rounded"
+                  >
+                    Reset to defaults
+                  </button>
+                  {selectedFolder && (
+                    <button
+                      onClick={handleThinNow}
+                      disabled={isThinning}
+                      className="ml-auto px-3 py-1 text-xs bg-orange-500 hover:bg-orange-600 text-white rounded disabled:bg-gray-300"
+                    >
+                      {isThinning ? 'Thinning...' : 'Thin now'}
+                    </button>
+                  )}
+                </div>
+                {selectedFolder && (
+                  <label className="flex items-center gap-2 text-xs text-gray-600">
+                    <input
+                      type="checkbox"
+                      checked={thinBookmarked}
+                      onChange={(e) => setThinBookmarked(e.target.checked)}
+                    />
+                    "Thin now" may also remove bookmarked versions
+                  </label>
+                )}
+                <p className="text-xs text-gray-400">
+                  Thinning runs in the background a few times a day and reports the space reclaimed.
+                  Scheduled thinning always keeps bookmarked versions.
+                </p>
+              </div>
+            )}
           </div>
 
           <div>
-            <h3 className="text-sm font-semibold mb-2">Ignore Patterns</h3>
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-sm font-semibold">Ignore Patterns</h3>
+              {renderInheritance('ignorePatterns')}
+            </div>
             <p className="text-xs text-gray-500 mb-2">
-              Enter glob patterns to ignore (one per line)
+              Patterns in .gitignore syntax (one per line), applied after the global patterns and .lvignore.
+              The folder's .gitignore files still take precedence, as they do in git.
             </p>
             <textarea
               value={ignorePatterns}
               onChange={(e) => setIgnorePatterns(e.target.value)}
               className="w-full h-32 px-3 py-2 border border-gray-300 rounded font-mono text-xs"
-              placeholder="**/node_modules/**&#10;**/.git/**&#10;**/.DS_Store&#10;**/*.tmp&#10;**/*.log"
+              placeholder="build/&#10;*.bak&#10;!important.log"
             />
-            <p className="text-xs text-gray-400 mt-1">
-              Default patterns: node_modules, .git, .DS_Store, .tmp, .log files
-            </p>
+
+            {/* Live tester */}
+            {selectedFolder && (
+              <div className="mt-2 p-3 bg-gray-50 rounded border border-gray-200 space-y-2">
+                <input
+                  type="text"
+                  value={samplePath}
+                  onChange={(e) => setSamplePath(e.target.value)}
+                  placeholder="Test a path, e.g. docs/notes.log"
+                  className="w-full px-2 py-1 text-xs font-mono border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                {ignoreTest?.sample && (
+                  <p className="text-xs">
+                    {ignoreTest.sample.match ? (
+                      <span className="text-red-700">
+                        Ignored by {describeMatch(ignoreTest.sample.match)}
+                        {ignoreTest.sample.match.path !== ignoreTest.sample.path.replace(/\/+$/, '') &&
+                          ` on ${ignoreTest.sample.match.path}/`}
+                      </span>
+                    ) : (
+                      <span className="text-green-700">Versioned</span>
+                    )}
+                  </p>
+                )}
+                {ignoreTest && (
+                  <div>
+                    <p className="text-xs text-gray-500 mb-1">
+                      {ignoreTest.entries.length === 0
+                        ? 'Nothing in this folder is ignored'
+                        : `Ignored in this folder${ignoreTest.truncated ? ` (first ${ignoreTest.entries.length})` : ''}:`}
+                    </p>
+                    <ul className="max-h-40 overflow-y-auto text-xs font-mono space-y-0.5">
+                      {ignoreTest.entries.map(entry => (
+                        <li key={entry.path} className="flex justify-between gap-4">
+                          <span className="truncate" title={entry.path}>{entry.path}</span>
+                          <span className="flex-shrink-0 text-gray-400">{describeMatch(entry.match)}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-sm font-semibold">Large and Binary Files</h3>
+              {renderInheritance('filePolicy')}
+            </div>
+            <div className="space-y-2 p-3 border border-gray-200 rounded">
+              <div className="flex items-center gap-2">
+                <label className="text-xs text-gray-600 w-40">Skip files larger than</label>
+                <input
+                  type="number"
+                  min="0"
+                  value={maxFileSizeMB}
+                  onChange={(e) => setMaxFileSizeMB(Math.max(0, parseInt(e.target.value) || 0))}
+                  className="w-20 px-2 py-1 border border-gray-300 rounded text-sm"
+                />
+                <span className="text-xs text-gray-500">MB (0 = no limit)</span>
+              </div>
+              {policyRules.map((rule, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    value={rule.pattern}
+                    onChange={(e) => updatePolicyRule(index, { pattern: e.target.value })}
+                    placeholder="*.mp4"
+                    className="w-40 px-2 py-1 border border-gray-300 rounded text-xs font-mono"
+                  />
+                  <select
+                    value={rule.action}
+                    onChange={(e) => updatePolicyRule(index, { action: e.target.value as FilePolicyRule['action'] })}
+                    className="flex-1 px-2 py-1 border border-gray-300 rounded text-xs"
+                  >
+                    {FILE_POLICY_ACTIONS.map(action => (
+                      <option key={action.value} value={action.value}>{action.label}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => setPolicyRules(policyRules.filter((_, i) => i !== index))}
+                    className="text-gray-400 hover:text-red-500"
+                    title="Remove rule"
+                  >
+                    ✕
+                  </button>
+                </div>
+              ))}
+              <button
+                onClick={() => setPolicyRules([...policyRules, { pattern: '', action: 'skip' }])}
+                className="text-xs text-blue-600 hover:text-blue-800"
+              >
+                Add rule
+              </button>
+              <p className="text-xs text-gray-400">
+                Rules use .gitignore syntax and apply whatever the file's size; the last matching rule wins.
+                Files kept out of the history are marked in the file tree, and stored copies can be restored from there.
+              </p>
+            </div>
           </div>
         </div>
 
         <div className="p-4 border-t border-gray-200 flex justify-end gap-2">
           <button
             onClick={() => {
-              setActiveView('folder-list');
+              setActiveView(selectedFolder ? 'folder-list' : 'menu');
               setSelectedFolder(null);
             }}
             className="px-4 py-2 text-sm text-gray-700 bg-gray-100 rounded hover:bg-gray-200"
@@ -600,7 +1882,7 @@ const Settings: React.FC<SettingsProps> = ({
             Cancel
           </button>
           <button
-            onClick={handleSave}
+            onClick={selectedFolder ? handleSave : handleSaveDefaults}
             className="px-4 py-2 text-sm bg-blue-500 text-white rounded hover:bg-blue-600"
           >
             Save
@@ -617,6 +1899,7 @@ const Settings: React.FC<SettingsProps> = ({
         
         {activeView === 'menu' && renderMenu()}
         {activeView === 'global' && renderGlobalSettings()}
+        {activeView === 'folder-defaults' && renderFolderSettings()}
         {activeView === 'folder-list' && renderFolderList()}
         {activeView === 'folder-settings' && renderFolderSettings()}
       </div>
@@ -0,0 +1,83 @@
+import React from 'react';
+import type { WatchedFolder, DetectedChanges, FileChange } from '../types';
+
+interface StartupChangesProps {
+  folders: WatchedFolder[];
+  detected: Record<string, DetectedChanges>; // folderId -> changes caught up at startup
+  onOpenFile: (folderId: string, detected: DetectedChanges, filePath: string) => void;
+  onDismiss: () => void;
+}
+
+const STATUS_LABELS: Record<FileChange['status'], { label: string; className: string }> = {
+  added: { label: 'added', className: 'text-green-700' },
+  modified: { label: 'modified', className: 'text-blue-700' },
+  deleted: { label: 'deleted', className: 'text-red-700' },
+  renamed: { label: 'moved', className: 'text-purple-700' }
+};
+
+const StartupChanges: React.FC<StartupChangesProps> = ({ folders, detected, onOpenFile, onDismiss }) => {
+  const entries = Object.entries(detected);
+  const total = entries.reduce((sum, [, folderChanges]) => sum + folderChanges.changes.length, 0);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[80vh] overflow-hidden flex flex-col">
+        <div className="p-6 border-b border-gray-200">
+          <h2 className="text-xl font-bold">Changes Detected at Startup</h2>
+          <p className="text-sm text-gray-600 mt-2">
+            {total} file{total !== 1 ? 's' : ''} changed while Local Versioning was not running.
+            They were saved as a separate version in each folder.
+          </p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          {entries.map(([folderId, folderChanges]) => {
+            const folder = folders.find(f => f.id === folderId);
+
+            return (
+              <div key={folderId}>
+                <div className="flex items-center justify-between text-sm font-semibold text-gray-700 mb-1">
+                  <span>📁 {folder ? folder.name : folderId}</span>
+                  <code className="text-xs font-normal bg-gray-100 px-1 rounded">{folderChanges.commitHash.substring(0, 7)}</code>
+                </div>
+                <ul className="text-xs space-y-0.5 ml-2">
+                  {folderChanges.changes.map(change => {
+                    const status = STATUS_LABELS[change.status];
+
+                    return (
+                      <li key={change.path} className="flex items-center gap-2">
+                        <span className={`w-16 flex-shrink-0 ${status.className}`}>{status.label}</span>
+                        {change.status === 'deleted' ? (
+                          <span className="truncate text-gray-500" title={change.path}>{change.path}</span>
+                        ) : (
+                          <button
+                            onClick={() => onOpenFile(folderId, folderChanges, change.path)}
+                            className="truncate text-left text-gray-800 hover:text-blue-600 hover:underline"
+                            title={change.oldPath ? `${change.oldPath} → ${change.path}` : change.path}
+                          >
+                            {change.path}
+                          </button>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ul>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="p-6 border-t border-gray-200 flex justify-end">
+          <button
+            onClick={onDismiss}
+            className="px-4 py-2 text-sm bg-blue-500 hover:bg-blue-600 text-white rounded"
+          >
+            OK
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StartupChanges;
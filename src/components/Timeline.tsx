@@ -1,5 +1,5 @@
 import React from 'react';
-import type { Commit } from '../types';
+import type { Commit, Bookmark } from '../types';
 
 interface TimelineEntry {
   commit: Commit;
@@ -15,6 +15,13 @@ interface TimelineProps {
   scope: 'current' | 'all';
   onScopeChange: (scope: 'current' | 'all') => void;
   currentFolderName?: string;
+  hasMore?: boolean; // More (older) commits can be loaded
+  loadingMore?: boolean;
+  onLoadMore?: () => void;
+  currentFolderId?: string;
+  bookmarks?: Record<string, Bookmark[]>; // folderId -> bookmarks
+  onAddBookmark?: (commit: Commit, folderId?: string) => void;
+  onRestoreFolder?: (commit?: Commit) => void; // Restore the current folder, optionally to this commit
 }
 
 const Timeline: React.FC<TimelineProps> = ({ 
@@ -24,9 +31,28 @@ const Timeline: React.FC<TimelineProps> = ({
   selectedCommit, 
   scope, 
   onScopeChange,
-  currentFolderName 
+  currentFolderName,
+  hasMore = false,
+  loadingMore = false,
+  onLoadMore,
+  currentFolderId,
+  bookmarks = {},
+  onAddBookmark,
+  onRestoreFolder
 }) => {
   const [expandedCommits, setExpandedCommits] = React.useState<Set<string>>(new Set());
+  const [bookmarkedOnly, setBookmarkedOnly] = React.useState(false);
+  
+  const getBookmarks = (commit: Commit, folderId?: string) => {
+    const folderBookmarks = bookmarks[folderId || currentFolderId || ''] || [];
+    return folderBookmarks.filter(bookmark => bookmark.commitHash === commit.hash);
+  };
+  
+  // Previous path of a file this commit moved or renamed
+  const getMovedFrom = (commit: Commit, file: string) => {
+    const change = commit.fileChanges?.find(c => c.path === file);
+    return change?.status === 'renamed' ? change.oldPath : undefined;
+  };
   
   const toggleCommitExpansion = (commitHash: string) => {
     const newExpanded = new Set(expandedCommits);
@@ -37,6 +63,15 @@ const Timeline: React.FC<TimelineProps> = ({
     }
     setExpandedCommits(newExpanded);
   };
+
+  // Request the next page when the list is scrolled near its end
+  const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    const el = e.currentTarget;
+    if (hasMore && !loadingMore && onLoadMore && el.scrollHeight - el.scrollTop - el.clientHeight < 300) {
+      onLoadMore();
+    }
+  };
+
   const formatDate = (date: Date) => {
     const d = new Date(date);
     const now = new Date();
@@ -112,6 +147,10 @@ const Timeline: React.FC<TimelineProps> = ({
     }
   }, [scope, commits, allFoldersCommits]);
 
+  const visibleEntries = bookmarkedOnly
+    ? displayEntries.filter(entry => getBookmarks(entry.commit, entry.folderId).length > 0)
+    : displayEntries;
+
   if (displayEntries.length === 0) {
     return (
       <div className="h-full flex flex-col bg-gray-50">
@@ -182,15 +221,39 @@ const Timeline: React.FC<TimelineProps> = ({
               All files tracked
             </button>
           </div>
+          <label className="ml-auto flex items-center gap-2 text-sm text-gray-600 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={bookmarkedOnly}
+              onChange={(e) => setBookmarkedOnly(e.target.checked)}
+            />
+            🔖 Bookmarked only
+          </label>
+          {onRestoreFolder && scope === 'current' && (
+            <button
+              onClick={() => onRestoreFolder()}
+              className="px-3 py-1.5 text-sm bg-gray-100 text-gray-700 rounded hover:bg-gray-200"
+              title="Restore the folder to an earlier moment"
+            >
+              Restore folder...
+            </button>
+          )}
         </div>
       </div>
       
-      <div className="flex-1 overflow-y-auto">
+      <div className="flex-1 overflow-y-auto" onScroll={handleScroll}>
         <div className="py-4">
-          {displayEntries.map((entry, index) => {
+          {bookmarkedOnly && visibleEntries.length === 0 && (
+            <div className="px-4 py-8 text-center text-sm text-gray-400">
+              No bookmarked changes loaded
+            </div>
+          )}
+          
+          {visibleEntries.map((entry, index) => {
             const { commit, folderName, folderId } = entry;
+            const commitBookmarks = getBookmarks(commit, folderId);
             const isFirst = index === 0;
-            const prevEntry = index > 0 ? displayEntries[index - 1] : null;
+            const prevEntry = index > 0 ? visibleEntries[index - 1] : null;
             const currentDate = new Date(commit.date).toDateString();
             const prevDate = prevEntry ? new Date(prevEntry.commit.date).toDateString() : null;
             const showDateHeader = isFirst || currentDate !== prevDate;
@@ -227,6 +290,35 @@ const Timeline: React.FC<TimelineProps> = ({
                         </span>
                       </>
                     )}
+                    {commitBookmarks.map(bookmark => (
+                      <span
+                        key={bookmark.id}
+                        className="px-1.5 py-0.5 text-xs bg-amber-100 text-amber-800 rounded"
+                        title={bookmark.description || bookmark.name}
+                      >
+                        🔖 {bookmark.name}
+                      </span>
+                    ))}
+                    <div className="ml-auto flex items-center gap-2">
+                      {onRestoreFolder && scope === 'current' && (
+                        <button
+                          onClick={() => onRestoreFolder(commit)}
+                          className="text-xs text-gray-400 hover:text-blue-600"
+                          title="Restore the folder to this point"
+                        >
+                          ⟲
+                        </button>
+                      )}
+                      {onAddBookmark && (
+                        <button
+                          onClick={() => onAddBookmark(commit, folderId)}
+                          className="text-xs text-gray-400 hover:text-amber-600"
+                          title="Bookmark this snapshot"
+                        >
+                          🔖
+                        </button>
+                      )}
+                    </div>
                   </div>
 
                   {/* Files */}
@@ -237,6 +329,7 @@ const Timeline: React.FC<TimelineProps> = ({
                         const file = commit.changedFiles[0];
                         const fileName = file.split('/').pop() || file;
                         const directory = file.substring(0, file.length - fileName.length);
+                        const movedFrom = getMovedFrom(commit, file);
                         const isSelected = selectedCommit?.hash === commit.hash;
 
                         return (
@@ -256,6 +349,11 @@ const Timeline: React.FC<TimelineProps> = ({
                                 {directory && (
                                   <p className="text-xs text-gray-500 truncate">{directory}</p>
                                 )}
+                                {movedFrom && (
+                                  <p className="text-xs text-purple-600 truncate" title={`${movedFrom} → ${file}`}>
+                                    Moved from {movedFrom}
+                                  </p>
+                                )}
                               </div>
                             </div>
                           </div>
@@ -291,6 +389,7 @@ const Timeline: React.FC<TimelineProps> = ({
                             {commit.changedFiles.map((file, fileIndex) => {
                               const fileName = file.split('/').pop() || file;
                               const directory = file.substring(0, file.length - fileName.length);
+                              const movedFrom = getMovedFrom(commit, file);
                               const isSelected = selectedCommit?.hash === commit.hash;
 
                               return (
@@ -313,6 +412,11 @@ const Timeline: React.FC<TimelineProps> = ({
                                       {directory && (
                                         <p className="text-xs text-gray-500 truncate">{directory}</p>
                                       )}
+                                      {movedFrom && (
+                                        <p className="text-xs text-purple-600 truncate" title={`${movedFrom} → ${file}`}>
+                                          Moved from {movedFrom}
+                                        </p>
+                                      )}
                                     </div>
                                   </div>
                                 </div>
@@ -334,6 +438,19 @@ const Timeline: React.FC<TimelineProps> = ({
               </div>
             );
           })}
+          
+          {/* Older commits */}
+          {hasMore && onLoadMore && (
+            <div className="px-4 py-3 text-center">
+              <button
+                onClick={onLoadMore}
+                disabled={loadingMore}
+                className="text-xs text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+              >
+                {loadingMore ? 'Loading...' : 'Load older changes'}
+              </button>
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -1,13 +1,119 @@
+export interface RetentionBucket {
+  maxAgeHours?: number; // Applies to versions younger than this; undefined = all older versions
+  intervalHours: number; // Keep one version per interval; 0 = keep every version
+}
+
+export interface RetentionPolicy {
+  enabled: boolean;
+  buckets: RetentionBucket[];
+}
+
+export type FilePolicyAction = 'skip' | 'latest-only' | 'large-file-store';
+
+export interface FilePolicyRule {
+  pattern: string; // .gitignore syntax
+  action: FilePolicyAction;
+}
+
+export interface FilePolicy {
+  maxFileSizeMB?: number; // Files over this are skipped unless a rule matches; 0 = no limit
+  rules: FilePolicyRule[];
+}
+
+export type CommitStrategy = 'on-save' | 'periodic' | 'on-idle';
+
+export interface QuietHours {
+  enabled: boolean;
+  startTime: string; // 'HH:MM'
+  endTime: string; // Before startTime runs past midnight
+}
+
+export interface CommitSchedule {
+  enabled: boolean;
+  days: number[]; // Days commits may happen on, 0 = Sunday
+  startTime: string; // 'HH:MM'; the same start and end time allows the whole day
+  endTime: string; // Before startTime runs past midnight
+  quietHours?: QuietHours; // No commits during these hours, even inside the window
+}
+
+// How links inside a watched folder are versioned
+export type SymlinkPolicy = 'link-only' | 'follow' | 'ignore';
+
 export interface WatchedFolder {
   id: string;
   path: string;
   name: string;
-  commitStrategy: 'on-save' | 'periodic';
+  commitStrategy: CommitStrategy;
   periodicInterval?: number; // minutes
+  idleMinutes?: number; // Quiet time before an on-idle commit
+  commitSchedule?: CommitSchedule; // When periodic and on-idle commits may happen (any time when undefined)
   ignorePatterns: string[];
   isActive: boolean;
   watchSubfolders: boolean; // Watch files in subdirectories
+  usePolling?: boolean; // Poll for changes where native file events are unreliable, e.g. network drives
+  symlinkPolicy?: SymlinkPolicy; // 'link-only' when undefined
+  debounceSeconds?: number; // Quiet time after the last change before an on-save commit
+  stabilityThresholdMs?: number; // How long a file must stay unchanged before it counts as written
+  maxWaitSeconds?: number; // Commit at least this often during continuous changes; 0 = no limit
+  burstThreshold?: number; // Changes to at least this many files wait for a decision; 0 = never
   customGitPath?: string; // Custom location for .git directory (optional)
+  retention?: RetentionPolicy; // Thinning of old versions (disabled when undefined)
+  filePolicy?: FilePolicy; // Size limit and per-type handling (100 MB limit when undefined)
+  overriddenSettings?: Array<keyof FolderProfileSettings>; // Set on the folder itself; the rest are inherited from the global defaults
+}
+
+export interface FileChange {
+  path: string;
+  status: 'added' | 'modified' | 'deleted' | 'renamed';
+  oldPath?: string; // Previous path when status is 'renamed'
+}
+
+export interface FolderAvailability {
+  online: boolean;
+  since: Date;
+  reason?: string; // Why the folder is offline
+  missing?: boolean; // Moved, renamed or deleted, rather than on a drive that is gone
+}
+
+// A place a missing folder may have moved to, strongest match first
+export interface RelinkCandidate {
+  path: string;
+  match: 'identity' | 'repository' | 'name';
+  reason: string;
+}
+
+// A watched folder that is no longer where it was
+export interface MissingFolder {
+  folderId: string;
+  name: string;
+  path: string;
+  candidates: RelinkCandidate[];
+}
+
+// Many files changed at once, held back until the user decides what to do
+export interface BulkChange {
+  fileCount: number;
+  samplePaths: string[];
+  detectedAt: Date;
+}
+
+export type BulkChangeAction = 'commit' | 'exclude' | 'discard';
+
+// What a folder's watcher is doing; folders without one are 'stopped' or 'offline'
+export interface FolderStatus {
+  state: 'starting' | 'watching' | 'error' | 'stopped' | 'offline';
+  watchedFiles: number | null; // Known once the initial scan is done
+  eventsPerMinute: number;
+  pendingChanges: number;
+  heldChanges: number; // Files in a held bulk change
+  lastCommitAt: Date | null;
+  lastError: { message: string; at: Date } | null;
+}
+
+export interface DetectedChanges {
+  commitHash: string;
+  date: Date;
+  changes: FileChange[];
 }
 
 export interface Commit {
@@ -16,19 +122,48 @@ export interface Commit {
   date: Date;
   author: string;
   changedFiles: string[];
+  fileChanges?: FileChange[]; // Name-status of each changed file (renames keep their old path)
 }
 
-export interface FileChange {
-  path: string;
-  status: 'added' | 'modified' | 'deleted';
+export interface LogOptions {
+  cursor?: string; // Opaque cursor from a previous page
+  limit?: number;
+}
+
+export interface FileHistoryOptions extends LogOptions {
+  followRenames?: boolean; // Defaults to true
+}
+
+export interface CommitPage {
+  commits: Commit[];
+  nextCursor?: string; // Undefined when there are no more commits
 }
 
 export interface DiffResult {
   oldContent: string;
   newContent: string;
   fileName: string;
+  filePath?: string; // Path relative to the watched folder
   oldCommit?: string;
   newCommit?: string;
+  baseHash?: string; // Blob hash of the file on disk when newContent was read from it
+}
+
+export interface DiffHunk {
+  index: number;
+  header: string; // The @@ line
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: string[]; // Patch lines, keeping their ' ', '-', '+' or '\' prefix
+}
+
+export interface FileHunks {
+  filePath: string;
+  commitHash: string;
+  baseHash: string; // Blob hash of the file on disk when the hunks were computed
+  hunks: DiffHunk[];
 }
 
 export interface FileStorageInfo {
@@ -42,8 +177,155 @@ export interface FileStorageInfo {
   }>;
 }
 
+export interface ThinningReport {
+  folderId: string;
+  keptCount: number;
+  removedCount: number; // Versions thinned out
+  bytesBefore: number;
+  bytesAfter: number;
+  reclaimedBytes: number; // bytesBefore - bytesAfter
+  date: Date;
+}
+
+export interface TreeFile {
+  path: string;
+  mode: string;
+  hash: string;
+  size: number;
+}
+
+export interface TreeSnapshot {
+  commitHash: string; // Version the tree was read from
+  commitDate: Date;
+  files: TreeFile[];
+}
+
+export interface FolderRestorePreview {
+  commitHash: string; // Version being restored
+  commitDate: Date;
+  subpath?: string;
+  added: string[]; // Missing now, brought back by the restore
+  modified: string[];
+  removed: string[]; // Present now, not in the restored version
+}
+
+export interface FolderRestoreResult {
+  preview: FolderRestorePreview;
+  commitHash: string; // The restore commit; its parent is the undo point
+}
+
+export interface Bookmark {
+  id: string;
+  name: string;
+  description?: string;
+  commitHash: string;
+  createdAt: Date;
+}
+
+export interface PurgeVersion {
+  hash: string;
+  date: string;
+  message: string;
+  size: number;
+}
+
+export interface PurgePreview {
+  filePath: string;
+  versions: PurgeVersion[]; // Versions that will be removed
+  refused: Array<{ hash: string; reason: string; bookmarked?: boolean }>;
+  rewrittenCommits: number;
+  bytesAffected: number; // Bytes only used by the removed versions
+}
+
+export interface PurgeBackup {
+  id: string;
+  folderId: string;
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+export interface PurgeResult {
+  preview: PurgePreview;
+  backup?: PurgeBackup; // Missing when purged without a backup
+}
+
+export interface SearchQuery {
+  pattern: string;
+  mode: 'content' | 'changes'; // Versions containing a match, or versions that added/removed one
+  regex: boolean;
+  caseSensitive: boolean;
+  folderIds?: string[]; // Defaults to every watched folder
+  maxResults?: number;
+}
+
+export interface SearchLine {
+  lineNumber: number;
+  text: string;
+}
+
+export interface SearchResult {
+  folderId: string;
+  folderName: string;
+  filePath: string;
+  commitHash: string;
+  date: Date;
+  message: string;
+  kind: 'match' | 'introduced' | 'removed';
+  lines: SearchLine[];
+}
+
+export interface SearchSummary {
+  resultCount: number;
+  cancelled: boolean;
+  truncated: boolean; // Stopped at maxResults
+  error?: string;
+}
+
+export interface StoredVersion {
+  hash: string; // sha256 of the content
+  size: number;
+  date: string;
+}
+
+// A file a policy keeps out of the version history, and why
+export interface PolicyFileStatus {
+  path: string;
+  action: FilePolicyAction;
+  reason: string;
+  size: number;
+  versions?: StoredVersion[]; // Copies kept in the large-file store, newest first
+}
+
+export interface IgnoreMatch {
+  pattern: string;
+  source: 'global' | 'gitignore' | 'lvignore' | 'folder';
+  file?: string; // Ignore file the pattern came from
+  path: string; // The path or parent directory the pattern matched
+}
+
+// A link or special file found while scanning a folder, and how it is handled
+export interface SpecialEntry {
+  path: string;
+  type: 'symlink' | 'fifo' | 'socket' | 'device';
+  target?: string; // Where a link points, as written in the link
+  handling: SymlinkPolicy | 'skipped';
+  reason?: string; // Why it is skipped
+}
+
+export interface IgnoredEntry {
+  path: string; // Directories end with '/'
+  match: IgnoreMatch;
+}
+
+export interface IgnoreTestResult {
+  entries: IgnoredEntry[];
+  truncated: boolean;
+  sample?: { path: string; match: IgnoreMatch | null };
+}
+
 export interface AppConfig {
-  watchedFolders: WatchedFolder[];
+  version?: number; // Schema version of the config file
+  watchedFolders: SavedFolder[];
   windowBounds?: {
     x: number;
     y: number;
@@ -53,6 +335,67 @@ export interface AppConfig {
   theme: 'light' | 'dark';
   defaultGitLocation?: 'watched-folder' | 'custom';
   defaultCustomGitPath?: string;
+  globalIgnorePatterns?: string[]; // Applied to every folder before its own patterns
+  folderProfiles?: FolderProfile[]; // Saved by the user, besides the built-in profiles
+  defaultProfileId?: string; // Applied to folders as they are added
+  folderDefaults?: FolderProfileSettings; // Inherited by every folder that doesn't override them
+}
+
+// A config file that could not be used as it was; the original is kept in quarantine
+export interface ConfigRecovery {
+  kind: 'unreadable' | 'repaired';
+  message: string;
+  problems: string[]; // Settings that were reset or dropped while repairing
+  quarantinedPath: string | null; // null when the file could not be moved aside
+  at: Date;
+}
+
+export type FolderProfileSettings = Partial<Pick<WatchedFolder,
+  'commitStrategy' | 'periodicInterval' | 'idleMinutes' | 'commitSchedule' | 'ignorePatterns' | 'watchSubfolders' |
+  'usePolling' | 'symlinkPolicy' | 'debounceSeconds' | 'stabilityThresholdMs' | 'maxWaitSeconds' | 'burstThreshold' |
+  'retention' | 'filePolicy'>>;
+
+export interface FolderProfile {
+  id: string;
+  name: string;
+  settings: FolderProfileSettings;
+  builtIn?: boolean; // Shipped with the app; cannot be changed or removed
+}
+
+// A folder as saved: settings it does not override are left out and inherited
+export type SavedFolder = Omit<WatchedFolder, keyof FolderProfileSettings | 'overriddenSettings'> & FolderProfileSettings;
+
+// Replaces a leading path, e.g. the home folder of another machine
+export interface PathRemap {
+  from: string;
+  to: string;
+}
+
+export interface ConfigImportOptions {
+  folderIds: string[]; // Folders of the imported config to add
+  pathRemaps: PathRemap[]; // First match wins
+  includeGlobalSettings: boolean; // Global ignore patterns, git location defaults and profiles
+}
+
+// What an export file holds, before importing it
+export interface ConfigImportPreview {
+  filePath: string;
+  folders: Array<{ id: string; name: string; path: string; customGitPath?: string; alreadyWatched: boolean }>;
+  profiles: string[];
+}
+
+export interface ConfigImportResult {
+  added: WatchedFolder[];
+  skipped: Array<{ path: string; reason: string }>;
+  paused: string[]; // Added but not watched because the path does not exist here
+}
+
+// An earlier config file, summarized by the folders it watches
+export interface ConfigBackup {
+  id: string; // File name in the backups directory
+  createdAt: Date;
+  folders: Array<{ name: string; path: string }>;
+  error?: string; // Why the backup cannot be restored
 }
 
 export interface ElectronAPI {
@@ -60,23 +403,70 @@ export interface ElectronAPI {
   addFolder: (path: string) => Promise<WatchedFolder>;
   removeFolder: (folderId: string) => Promise<void>;
   getFolders: () => Promise<WatchedFolder[]>;
-  updateFolder: (folderId: string, updates: Partial<WatchedFolder>) => Promise<void>;
+  updateFolder: (folderId: string, updates: Partial<WatchedFolder>, inherit?: Array<keyof FolderProfileSettings>) => Promise<void>;
   
   // Git operations
   getCommits: (folderId: string, limit?: number) => Promise<Commit[]>;
+  getCommitLog: (folderId: string, options?: LogOptions) => Promise<CommitPage>;
+  getFileHistory: (folderId: string, filePath: string, options?: FileHistoryOptions) => Promise<CommitPage>;
   getFileContent: (folderId: string, commitHash: string, filePath: string) => Promise<string>;
   getDiff: (folderId: string, filePath: string, oldCommit: string, newCommit?: string) => Promise<DiffResult>;
   restoreFile: (folderId: string, filePath: string, commitHash: string) => Promise<void>;
-  cleanupCommits?: (folderId: string, filePath: string, commitsToDelete: string[]) => Promise<void>;
+  getDiffHunks?: (folderId: string, filePath: string, commitHash: string, baseHash: string) => Promise<FileHunks>;
+  restoreHunks?: (folderId: string, filePath: string, commitHash: string, hunkIndexes: number[], baseHash: string) => Promise<string>;
+  startSearch?: (searchId: string, query: SearchQuery) => Promise<void>;
+  cancelSearch?: (searchId: string) => Promise<void>;
+  listTreeAt?: (folderId: string, target: string, subpath?: string) => Promise<TreeSnapshot>;
+  previewFolderRestore?: (folderId: string, target: string, subpath?: string) => Promise<FolderRestorePreview>;
+  restoreFolderTo?: (folderId: string, target: string, subpath?: string) => Promise<FolderRestoreResult>;
+  previewPurge?: (folderId: string, filePath: string, commitHashes: string[], includeBookmarked?: boolean) => Promise<PurgePreview>;
+  purgeVersions?: (
+    folderId: string,
+    filePath: string,
+    commitHashes: string[],
+    backupDays?: number,
+    includeBookmarked?: boolean
+  ) => Promise<PurgeResult>;
+  listPurgeBackups?: (folderId: string) => Promise<PurgeBackup[]>;
+  restorePurgeBackup?: (folderId: string, backupId: string) => Promise<void>;
   getFileStorageInfo?: (folderId: string, filePath: string) => Promise<FileStorageInfo>;
+  thinHistory?: (folderId: string, policy?: RetentionPolicy, includeBookmarked?: boolean) => Promise<ThinningReport>;
+  getBookmarks?: (folderId: string) => Promise<Bookmark[]>;
+  addBookmark?: (folderId: string, commitHash: string, name: string, description?: string) => Promise<Bookmark>;
+  removeBookmark?: (folderId: string, bookmarkId: string) => Promise<void>;
   
   // File watching
   startWatching: (folderId: string) => Promise<void>;
   stopWatching: (folderId: string) => Promise<void>;
+  getFolderAvailability?: () => Promise<Record<string, FolderAvailability>>;
+  getMissingFolders?: () => Promise<MissingFolder[]>;
+  relinkFolder?: (folderId: string, newPath: string) => Promise<WatchedFolder>;
+  getFolderStatus?: (folderId: string) => Promise<FolderStatus>;
+  getFolderStatuses?: () => Promise<Record<string, FolderStatus>>;
+  getBulkChanges?: () => Promise<Record<string, BulkChange>>;
+  resolveBulkChange?: (folderId: string, action: BulkChangeAction) => Promise<void>;
   
   // Config
   getConfig: () => Promise<AppConfig>;
   saveConfig: (config: AppConfig) => Promise<void>;
+  getConfigRecovery?: () => Promise<ConfigRecovery | null>;
+  dismissConfigRecovery?: () => Promise<void>;
+  showQuarantinedConfig?: () => Promise<void>;
+  reloadQuarantinedConfig?: () => Promise<AppConfig>;
+  listConfigBackups?: () => Promise<ConfigBackup[]>;
+  restoreConfigBackup?: (backupId: string) => Promise<AppConfig>;
+  exportConfig?: () => Promise<string | null>;
+  chooseConfigImport?: () => Promise<ConfigImportPreview | null>;
+  importConfig?: (filePath: string, options: ConfigImportOptions) => Promise<ConfigImportResult>;
+  getFolderProfiles?: () => Promise<FolderProfile[]>;
+  saveFolderProfile?: (name: string, settings: FolderProfileSettings, profileId?: string) => Promise<FolderProfile>;
+  deleteFolderProfile?: (profileId: string) => Promise<void>;
+  setDefaultFolderProfile?: (profileId: string | null) => Promise<void>;
+  getFolderDefaults?: () => Promise<FolderProfileSettings>;
+  setFolderDefaults?: (settings: FolderProfileSettings) => Promise<void>;
+  getGlobalIgnorePatterns?: () => Promise<string[]>;
+  setGlobalIgnorePatterns?: (patterns: string[]) => Promise<void>;
+  testIgnorePatterns?: (folderId: string, patterns: string[], samplePath?: string) => Promise<IgnoreTestResult>;
   
   // Dialog
   selectFolder: () => Promise<string | null>;
@@ -92,8 +482,24 @@ export interface ElectronAPI {
   migrateGitRepository: (folderId: string, newGitPath: string) => Promise<{ success: boolean; error?: string }>;
   detectExistingGitRepository: (folderPath: string, folderName: string) => Promise<{ found: boolean; gitPath?: string; commitCount?: number }>;
   
+  // File policy
+  getFilePolicyStatuses?: (folderId: string) => Promise<PolicyFileStatus[]>;
+  restoreStoredVersion?: (folderId: string, filePath: string, hash: string) => Promise<void>;
+  listSpecialEntries?: (folderId: string) => Promise<SpecialEntry[]>;
+  
   // Events
   onFileChanged?: (callback: (folderId: string) => void) => () => void;
+  getStartupChanges?: () => Promise<Record<string, DetectedChanges>>;
+  dismissStartupChanges?: (folderId?: string) => Promise<void>;
+  onStartupChangesDetected?: (callback: (folderId: string, detected: DetectedChanges) => void) => () => void;
+  onFolderAvailabilityChanged?: (callback: (folderId: string, availability: FolderAvailability) => void) => () => void;
+  onFolderMissing?: (callback: (folder: MissingFolder) => void) => () => void;
+  onFolderStatusChanged?: (callback: (folderId: string, status: FolderStatus) => void) => () => void;
+  onBulkChangeDetected?: (callback: (folderId: string, change: BulkChange) => void) => () => void;
+  onFilesSkipped?: (callback: (folderId: string, files: PolicyFileStatus[]) => void) => () => void;
+  onRetentionCompleted?: (callback: (folderId: string, report: ThinningReport) => void) => () => void;
+  onSearchResults?: (callback: (searchId: string, results: SearchResult[]) => void) => () => void;
+  onSearchCompleted?: (callback: (searchId: string, summary: SearchSummary) => void) => () => void;
   onCommitCreated?: (callback: (folderId: string, commit: Commit) => void) => () => void;
 }
 